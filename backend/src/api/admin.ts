@@ -0,0 +1,197 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { timingSafeEqual } from 'node:crypto';
+import { logger } from '../utils/logger.js';
+import { INVALID_PAGE } from './pagination.js';
+import { respond } from './respond.js';
+import { idSchema, pageSchema, reconcileSchema, willIdSchema } from '../shared/api.js';
+import { retryDeadLetter } from '../indexer/deadLetter.js';
+import { reconcileWills } from '../cron/reconcile.js';
+import { willRowId } from '../indexer/enums.js';
+
+const prisma = new PrismaClient();
+export const adminRouter = Router();
+
+// Admin routes require `Authorization: Bearer <ADMIN_API_KEY>`; without a key they are disabled
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const apiKey = process.env.ADMIN_API_KEY;
+  if (!apiKey) {
+    return res.status(503).json({ error: 'Admin API is not configured' });
+  }
+
+  const expected = Buffer.from(`Bearer ${apiKey}`);
+  const provided = Buffer.from(req.headers.authorization ?? '');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  next();
+}
+
+adminRouter.use(requireAdmin);
+
+// GET /api/admin/dead-letters - List events waiting in the dead-letter queue
+adminRouter.get('/dead-letters', async (req: Request, res: Response) => {
+  try {
+    const entries = await prisma.deadLetterEvent.findMany({
+      where: { chainId: res.locals.chainId },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    });
+
+    respond(res, 'listDeadLetters', entries);
+  } catch (error) {
+    logger.error('Error fetching dead letters:', error);
+    res.status(500).json({ error: 'Failed to fetch dead letters' });
+  }
+});
+
+// POST /api/admin/dead-letters/:id/retry - Retry a dead-lettered event now
+adminRouter.post('/dead-letters/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!idSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+
+    const entry = await prisma.deadLetterEvent.findUnique({ where: { id } });
+    if (!entry) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+
+    const applied = await retryDeadLetter(id);
+    if (!applied) {
+      const updated = await prisma.deadLetterEvent.findUnique({ where: { id } });
+      return res.status(409).json({ applied, error: updated?.error });
+    }
+
+    respond(res, 'retryDeadLetter', { applied });
+  } catch (error) {
+    logger.error('Error retrying dead letter:', error);
+    res.status(500).json({ error: 'Failed to retry dead letter' });
+  }
+});
+
+// DELETE /api/admin/dead-letters/:id - Discard a dead-lettered event
+adminRouter.delete('/dead-letters/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!idSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+
+    const { count } = await prisma.deadLetterEvent.deleteMany({ where: { id } });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+
+    logger.warn(`Discarded dead letter ${id}`);
+    respond(res, 'discardDeadLetter', { success: true });
+  } catch (error) {
+    logger.error('Error discarding dead letter:', error);
+    res.status(500).json({ error: 'Failed to discard dead letter' });
+  }
+});
+
+// GET /api/admin/reconciliation - Recent reconciliation runs
+adminRouter.get('/reconciliation', async (req: Request, res: Response) => {
+  try {
+    const page = pageSchema(20).safeParse(req.query);
+    if (!page.success) {
+      return res.status(400).json({ error: INVALID_PAGE });
+    }
+
+    const runs = await prisma.reconciliationRun.findMany({
+      where: { chainId: res.locals.chainId },
+      orderBy: { startedAt: 'desc' },
+      take: page.data.limit,
+      skip: page.data.offset,
+    });
+
+    respond(res, 'listReconciliationRuns', { runs });
+  } catch (error) {
+    logger.error('Error fetching reconciliation runs:', error);
+    res.status(500).json({ error: 'Failed to fetch reconciliation runs' });
+  }
+});
+
+// POST /api/admin/reconciliation - Run a reconciliation now
+adminRouter.post('/reconciliation', async (req: Request, res: Response) => {
+  try {
+    const result = reconcileSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+
+    const run = await reconcileWills(res.locals.chainId, { autoHeal: result.data.autoHeal });
+    if (!run) {
+      return res.status(409).json({ error: 'Nothing to reconcile yet' });
+    }
+
+    respond(res, 'runReconciliation', { run });
+  } catch (error) {
+    logger.error('Error running reconciliation:', error);
+    res.status(500).json({ error: 'Failed to run reconciliation' });
+  }
+});
+
+// GET /api/admin/reconciliation/:id - A run and the drift it found
+adminRouter.get('/reconciliation/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!idSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+
+    const run = await prisma.reconciliationRun.findUnique({
+      where: { id },
+      include: { drifts: { orderBy: { willId: 'asc' } } },
+    });
+
+    if (!run) {
+      return res.status(404).json({ error: 'Reconciliation run not found' });
+    }
+
+    respond(res, 'getReconciliationRun', { run });
+  } catch (error) {
+    logger.error('Error fetching reconciliation run:', error);
+    res.status(500).json({ error: 'Failed to fetch reconciliation run' });
+  }
+});
+
+// GET /api/admin/reconciliation/wills/:id - Drift recorded for a will by the latest run
+adminRouter.get('/reconciliation/wills/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!willIdSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid will id' });
+    }
+
+    const latestRun = await prisma.reconciliationRun.findFirst({
+      where: { chainId: res.locals.chainId, finishedAt: { not: null }, error: null },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    if (!latestRun) {
+      return res.status(404).json({ error: 'No completed reconciliation run' });
+    }
+
+    const drifts = await prisma.reconciliationDrift.findMany({
+      where: { runId: latestRun.id, willId: willRowId(res.locals.chainId, id) },
+    });
+
+    respond(res, 'getWillDrift', {
+      runId: latestRun.id,
+      checkedAt: latestRun.finishedAt,
+      blockNumber: latestRun.blockNumber,
+      inSync: drifts.length === 0,
+      drifts,
+    });
+  } catch (error) {
+    logger.error('Error fetching will drift:', error);
+    res.status(500).json({ error: 'Failed to fetch will drift' });
+  }
+});
@@ -0,0 +1,180 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { PrismaClient } from '@prisma/client';
+import { generateSiweNonce, parseSiweMessage, verifySiweMessage } from 'viem/siwe';
+import { logger } from '../utils/logger.js';
+import { requestCost } from './rateLimit.js';
+import { SESSION_COOKIE, SESSION_TTL, issueSession, requestSession } from '../utils/session.js';
+import { CHAIN_IDS } from '../indexer/config.js';
+import { getClient } from '../indexer/client.js';
+import { respond } from './respond.js';
+import { verifySchema } from '../shared/api.js';
+
+// Sign-In with Ethereum (EIP-4361)
+//
+// The client fetches a nonce, has the wallet sign a SIWE message containing it
+// and posts both to /verify, which answers with a session. Signatures are
+// checked on the chain named in the message, so smart wallets (ERC-1271, and
+// ERC-6492 before they are deployed) sign in like any other account.
+
+const prisma = new PrismaClient();
+export const authRouter = Router();
+
+// Seconds a nonce can be used for
+const NONCE_TTL = 10 * 60;
+
+// Messages must be addressed to this domain; defaults to the frontend's host
+function siweDomain(): string {
+  return process.env.SIWE_DOMAIN || new URL(process.env.CORS_ORIGIN || 'http://localhost:5173').host;
+}
+
+// Requires a session; its address is available as res.locals.signer and its
+// expiry as res.locals.sessionExpiresAt
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (!process.env.SESSION_SECRET) {
+    return res.status(503).json({ error: 'Authentication is not configured' });
+  }
+
+  const session = requestSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+
+  res.locals.signer = session.address;
+  res.locals.sessionExpiresAt = session.expiresAt;
+  next();
+}
+
+// Requires a session for the address the request acts on: `:address` in the
+// path, or `address` in the body
+export function requireSigner(req: Request, res: Response, next: NextFunction) {
+  requireSession(req, res, () => {
+    const address = req.params.address ?? req.body?.address;
+    if (typeof address === 'string' && address.toLowerCase() !== res.locals.signer) {
+      return res.status(403).json({ error: 'Signed in as a different address' });
+    }
+    next();
+  });
+}
+
+// Integrator API keys for the webhook API, from WEBHOOK_API_KEYS=<name>:<key>,...
+const INTEGRATOR_KEYS = (process.env.WEBHOOK_API_KEYS || '')
+  .split(',')
+  .map(entry => entry.trim())
+  .filter(entry => entry.includes(':'))
+  .map(entry => {
+    const separator = entry.indexOf(':');
+    return { name: entry.slice(0, separator), key: Buffer.from(entry.slice(separator + 1)) };
+  });
+
+function integratorName(apiKey: string): string | undefined {
+  const provided = Buffer.from(apiKey);
+  return INTEGRATOR_KEYS.find(({ key }) => key.length === provided.length && timingSafeEqual(key, provided))?.name;
+}
+
+// Requires an integrator API key in `X-Api-Key` or a session. res.locals.owner
+// is `apikey:<name>` or the signed-in address.
+export function requireIntegrator(req: Request, res: Response, next: NextFunction) {
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string') {
+    const name = integratorName(apiKey);
+    if (!name) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+    res.locals.owner = `apikey:${name}`;
+    return next();
+  }
+
+  requireSession(req, res, () => {
+    res.locals.owner = res.locals.signer;
+    next();
+  });
+}
+
+// GET /api/auth/nonce - Nonce to include in the next SIWE message
+authRouter.get('/nonce', requestCost(2), async (req: Request, res: Response) => {
+  try {
+    const nonce = generateSiweNonce();
+    await prisma.authNonce.create({
+      data: { nonce, expiresAt: new Date(Date.now() + NONCE_TTL * 1000) },
+    });
+
+    // Expired nonces that were never used
+    await prisma.authNonce.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+    respond(res, 'getNonce', { nonce });
+  } catch (error) {
+    logger.error('Error issuing nonce:', error);
+    res.status(500).json({ error: 'Failed to issue nonce' });
+  }
+});
+
+// POST /api/auth/verify - Exchange a signed SIWE message for a session
+authRouter.post('/verify', requestCost(10), async (req: Request, res: Response) => {
+  try {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) {
+      return res.status(503).json({ error: 'Authentication is not configured' });
+    }
+
+    const result = verifySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+
+    const { message } = result.data;
+    const signature = result.data.signature as `0x${string}`;
+
+    const fields = parseSiweMessage(message);
+    if (!fields.address || !fields.nonce || !fields.chainId) {
+      return res.status(400).json({ error: 'Invalid SIWE message' });
+    }
+    if (!CHAIN_IDS.includes(fields.chainId)) {
+      return res.status(400).json({ error: `Unsupported chainId, expected one of ${CHAIN_IDS.join(', ')}` });
+    }
+
+    // Checks domain, expiry and the signature, through the account's contract for smart wallets
+    const valid = await verifySiweMessage(getClient(fields.chainId), {
+      message,
+      signature,
+      domain: siweDomain(),
+    });
+    if (!valid) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    // Each nonce signs in once
+    const { count } = await prisma.authNonce.deleteMany({
+      where: { nonce: fields.nonce, expiresAt: { gt: new Date() } },
+    });
+    if (count === 0) {
+      return res.status(401).json({ error: 'Unknown or expired nonce' });
+    }
+
+    const { token, session } = issueSession(fields.address, secret);
+
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: SESSION_TTL * 1000,
+    });
+
+    logger.info(`Signed in ${session.address} on chain ${fields.chainId}`);
+    respond(res, 'verify', { address: session.address, expiresAt: session.expiresAt, token });
+  } catch (error) {
+    logger.error('Error verifying SIWE message:', error);
+    res.status(500).json({ error: 'Failed to verify signature' });
+  }
+});
+
+// GET /api/auth/session - The signed-in address
+authRouter.get('/session', requireSession, (req: Request, res: Response) => {
+  respond(res, 'getSession', { address: res.locals.signer });
+});
+
+// POST /api/auth/logout - Clear the session cookie
+authRouter.post('/logout', (req: Request, res: Response) => {
+  res.clearCookie(SESSION_COOKIE);
+  respond(res, 'logout', { success: true });
+});
@@ -1,13 +1,53 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { z } from 'zod';
+import { Prisma, PrismaClient, WillBeneficiary } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { cursorArgs, dateFilter, pageOf, queryError } from './pagination.js';
+import { respond } from './respond.js';
+import { addressSchema, releasesQuerySchema } from '../shared/api.js';
+import { VestingSchedule, calculateVestedAmount, getClaimableAmount, getNextReleaseTime, getReleaseCount } from '../shared/vesting.js';
 
 const prisma = new PrismaClient();
 export const beneficiaryRouter = Router();
 
-// Validation schemas
-const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
+const ZERO = BigInt(0);
+
+function unixSeconds(date: Date): bigint {
+  return BigInt(Math.floor(date.getTime() / 1000));
+}
+
+// An allocation's vesting at `now` (unix seconds). Vesting starts when the will
+// is executed and releases the share AssetDistributed allotted then, which is
+// net of the platform, notary and executor fees. Contingent beneficiaries are
+// allotted nothing.
+function vestingStatus(entry: WillBeneficiary, executedAt: Date, now: bigint) {
+  const schedule: VestingSchedule = {
+    vestingType: entry.vestingType,
+    startDelay: entry.vestingStartDelay ?? ZERO,
+    duration: entry.vestingDuration ?? ZERO,
+    cliffDuration: entry.cliffDuration ?? ZERO,
+    releaseInterval: entry.releaseInterval ?? ZERO,
+  };
+  const totalAmount = BigInt(entry.distributedAmount ?? '0');
+  const claimedAmount = BigInt(entry.claimedAmount);
+  const startTime = unixSeconds(executedAt);
+
+  const claimableAmount = getClaimableAmount(schedule, totalAmount, startTime, now, claimedAmount);
+  // The library answers `now` when something is claimable already
+  const nextRelease = getNextReleaseTime(schedule, startTime, now, claimedAmount, totalAmount);
+  const upcoming = nextRelease > now;
+
+  return {
+    totalAmount,
+    vestedAmount: calculateVestedAmount(schedule, totalAmount, startTime, now),
+    claimedAmount,
+    claimableAmount,
+    releaseCount: getReleaseCount(schedule),
+    nextReleaseAt: upcoming ? new Date(Number(nextRelease) * 1000) : null,
+    nextReleaseAmount: upcoming
+      ? getClaimableAmount(schedule, totalAmount, startTime, nextRelease, claimedAmount) - claimableAmount
+      : ZERO,
+  };
+}
 
 // GET /api/beneficiary/:address - Get all wills where address is a beneficiary
 beneficiaryRouter.get('/:address', async (req: Request, res: Response) => {
@@ -21,7 +61,7 @@ beneficiaryRouter.get('/:address', async (req: Request, res: Response) => {
     }
 
     const beneficiaryEntries = await prisma.willBeneficiary.findMany({
-      where: { beneficiaryAddress: address.toLowerCase() },
+      where: { chainId: res.locals.chainId, beneficiaryAddress: address.toLowerCase() },
       include: {
         will: {
           include: {
@@ -36,6 +76,7 @@ beneficiaryRouter.get('/:address', async (req: Request, res: Response) => {
     let potentialInheritance = BigInt(0);
     let namedInWills = beneficiaryEntries.length;
     let claimableNow = BigInt(0);
+    const now = unixSeconds(new Date());
 
     beneficiaryEntries.forEach(entry => {
       const will = entry.will;
@@ -44,39 +85,17 @@ beneficiaryRouter.get('/:address', async (req: Request, res: Response) => {
 
       potentialInheritance += allocation;
 
-      if (will.status === 'EXECUTED' && !entry.hasClaimed) {
-        claimableNow += allocation;
+      if (will.status === 'EXECUTED' && will.executedAt && entry.isPrimary) {
+        claimableNow += vestingStatus(entry, will.executedAt, now).claimableAmount;
       }
     });
 
-    // Transform for JSON
-    const transformedEntries = beneficiaryEntries.map(entry => ({
-      ...entry,
-      vestingDuration: entry.vestingDuration?.toString(),
-      cliffDuration: entry.cliffDuration?.toString(),
-      will: {
-        ...entry.will,
-        onchainId: entry.will.onchainId.toString(),
-        inactivityThreshold: entry.will.inactivityThreshold.toString(),
-        gracePeriod: entry.will.gracePeriod.toString(),
-        assets: entry.will.assets.map(a => ({
-          ...a,
-          tokenId: a.tokenId?.toString(),
-        })),
-        beneficiaries: entry.will.beneficiaries.map(b => ({
-          ...b,
-          vestingDuration: b.vestingDuration?.toString(),
-          cliffDuration: b.cliffDuration?.toString(),
-        })),
-      },
-    }));
-
-    res.json({
-      beneficiaryWills: transformedEntries,
+    respond(res, 'getBeneficiaryWills', {
+      beneficiaryWills: beneficiaryEntries,
       stats: {
-        potentialInheritance: potentialInheritance.toString(),
+        potentialInheritance,
         namedInWills,
-        claimableNow: claimableNow.toString(),
+        claimableNow,
       },
     });
   } catch (error) {
@@ -97,10 +116,13 @@ beneficiaryRouter.get('/:address/claimable', async (req: Request, res: Response)
 
     const claimableEntries = await prisma.willBeneficiary.findMany({
       where: {
+        chainId: res.locals.chainId,
         beneficiaryAddress: address.toLowerCase(),
-        hasClaimed: false,
+        // Only primary beneficiaries are paid at execution
+        isPrimary: true,
         will: {
           status: 'EXECUTED',
+          executedAt: { not: null },
         },
       },
       include: {
@@ -112,26 +134,31 @@ beneficiaryRouter.get('/:address/claimable', async (req: Request, res: Response)
       },
     });
 
-    const transformedEntries = claimableEntries.map(entry => ({
-      willId: entry.willId,
-      allocationBps: entry.allocationBps,
-      vestingType: entry.vestingType,
-      willStatus: entry.will.status,
-      totalWillValue: entry.will.totalValue,
-      assets: entry.will.assets.map(a => ({
-        ...a,
-        tokenId: a.tokenId?.toString(),
-      })),
-    }));
+    const now = unixSeconds(new Date());
+    const claimable = claimableEntries
+      .flatMap(({ will, ...entry }) => will.executedAt
+        ? [{ entry, will, vesting: vestingStatus(entry, will.executedAt, now) }]
+        : [])
+      .filter(({ vesting }) => vesting.claimedAmount < vesting.totalAmount);
 
-    res.json({ claimable: transformedEntries });
+    respond(res, 'getClaimable', {
+      claimable: claimable.map(({ entry, will, vesting }) => ({
+        willId: entry.willId,
+        allocationBps: entry.allocationBps,
+        vestingType: entry.vestingType,
+        willStatus: will.status,
+        totalWillValue: will.totalValue,
+        assets: will.assets,
+        ...vesting,
+      })),
+    });
   } catch (error) {
     logger.error('Error fetching claimable assets:', error);
     res.status(500).json({ error: 'Failed to fetch claimable assets' });
   }
 });
 
-// GET /api/beneficiary/:address/history - Get claim history
+// GET /api/beneficiary/:address/history - Get claims per will and a page of vesting releases
 beneficiaryRouter.get('/:address/history', async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
@@ -141,8 +168,15 @@ beneficiaryRouter.get('/:address/history', async (req: Request, res: Response) =
       return res.status(400).json({ error: 'Invalid address format' });
     }
 
+    const query = releasesQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const page = query.data;
+
     const claimedEntries = await prisma.willBeneficiary.findMany({
       where: {
+        chainId: res.locals.chainId,
         beneficiaryAddress: address.toLowerCase(),
         hasClaimed: true,
       },
@@ -151,13 +185,32 @@ beneficiaryRouter.get('/:address/history', async (req: Request, res: Response) =
       },
     });
 
-    res.json({
+    // Releases grow with every vesting interval, so they are the paged part
+    const where: Prisma.VestingReleaseWhereInput = {
+      chainId: res.locals.chainId,
+      beneficiaryAddress: address.toLowerCase(),
+      releasedAt: dateFilter(page),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.vestingRelease.findMany({
+        where,
+        ...cursorArgs<Prisma.VestingReleaseOrderByWithRelationInput>(page),
+      }),
+      prisma.vestingRelease.count({ where }),
+    ]);
+    const { items: releases, nextCursor } = pageOf(rows, page);
+
+    respond(res, 'getClaimHistory', {
       history: claimedEntries.map(entry => ({
         willId: entry.willId,
         claimedAmount: entry.claimedAmount,
         claimedAt: entry.updatedAt,
         testator: entry.will.testatorAddress,
       })),
+      releases,
+      nextCursor,
+      total,
     });
   } catch (error) {
     logger.error('Error fetching claim history:', error);
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod/v4';
+import { CHAIN_IDS, DEFAULT_CHAIN_ID } from '../indexer/config.js';
+
+const chainIdSchema = z.coerce.number().int().refine(chainId => CHAIN_IDS.includes(chainId));
+
+// Every route takes ?chainId=<id>; requests without one read the default chain.
+// Handlers find the chain in res.locals.chainId.
+export function resolveChain(req: Request, res: Response, next: NextFunction) {
+  if (req.query.chainId === undefined) {
+    res.locals.chainId = DEFAULT_CHAIN_ID;
+    return next();
+  }
+
+  const result = chainIdSchema.safeParse(req.query.chainId);
+  if (!result.success) {
+    return res.status(400).json({ error: `Unsupported chainId, expected one of ${CHAIN_IDS.join(', ')}` });
+  }
+
+  res.locals.chainId = result.data;
+  next();
+}
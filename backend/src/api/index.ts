@@ -5,9 +5,21 @@ import { notaryRouter } from './notary.js';
 import { statsRouter } from './stats.js';
 import { notificationsRouter } from './notifications.js';
 import { usersRouter } from './users.js';
+import { adminRouter } from './admin.js';
+import { authRouter } from './auth.js';
+import { streamRouter } from './stream.js';
+import { webhooksRouter } from './webhooks.js';
+import { resolveChain } from './chain.js';
+import { rateLimit } from './rateLimit.js';
+import { openApiDocument } from './openapi.js';
+import { routes } from '../shared/api.js';
+import { CHAIN_IDS, DEFAULT_CHAIN_ID } from '../indexer/config.js';
 
 export const apiRouter = Router();
 
+apiRouter.use(rateLimit);
+apiRouter.use(resolveChain);
+
 // Mount routes
 apiRouter.use('/wills', willsRouter);
 apiRouter.use('/beneficiary', beneficiaryRouter);
@@ -15,23 +27,25 @@ apiRouter.use('/notary', notaryRouter);
 apiRouter.use('/stats', statsRouter);
 apiRouter.use('/notifications', notificationsRouter);
 apiRouter.use('/users', usersRouter);
+apiRouter.use('/admin', adminRouter);
+apiRouter.use('/auth', authRouter);
+apiRouter.use('/stream', streamRouter);
+apiRouter.use('/webhooks', webhooksRouter);
 
 // API info
 apiRouter.get('/', (req, res) => {
   res.json({
     name: 'BaseWill API',
     version: '1.0.0',
-    endpoints: [
-      'GET /api/wills/:address - Get testator wills',
-      'GET /api/wills/detail/:id - Get will details',
-      'GET /api/wills/:id/activity - Get will activity',
-      'GET /api/beneficiary/:address - Get wills as beneficiary',
-      'GET /api/notary/:address - Get notary info',
-      'GET /api/stats - Platform statistics',
-      'POST /api/notifications/subscribe - Subscribe to notifications',
-      'DELETE /api/notifications/unsubscribe - Unsubscribe',
-      'GET /api/users/:address - Get user profile',
-      'PUT /api/users/:address - Update user profile',
-    ],
+    // Every endpoint takes ?chainId=; will ids in paths are on-chain ids on that chain
+    chainIds: CHAIN_IDS,
+    defaultChainId: DEFAULT_CHAIN_ID,
+    openapi: '/api/openapi.json',
+    endpoints: Object.values(routes).map(route => `${route.method} /api${route.path} - ${route.summary}`),
   });
 });
+
+// GET /api/openapi.json - OpenAPI 3.1 description of every route
+apiRouter.get('/openapi.json', (req, res) => {
+  res.json(openApiDocument());
+});
@@ -1,13 +1,13 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { INVALID_PAGE, cursorArgs, pageOf, queryError } from './pagination.js';
+import { respond } from './respond.js';
+import { addressSchema, notariesQuerySchema, pageSchema } from '../shared/api.js';
 
 const prisma = new PrismaClient();
 export const notaryRouter = Router();
 
-const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
-
 // GET /api/notary/:address - Get notary information
 notaryRouter.get('/:address', async (req: Request, res: Response) => {
   try {
@@ -19,7 +19,7 @@ notaryRouter.get('/:address', async (req: Request, res: Response) => {
     }
 
     const notary = await prisma.notary.findUnique({
-      where: { address: address.toLowerCase() },
+      where: { chainId_address: { chainId: res.locals.chainId, address: address.toLowerCase() } },
       include: {
         assignments: {
           include: {
@@ -34,22 +34,15 @@ notaryRouter.get('/:address', async (req: Request, res: Response) => {
     });
 
     if (!notary) {
-      return res.json({ isNotary: false, notary: null });
+      return respond(res, 'getNotary', { isNotary: false, notary: null });
     }
 
-    res.json({
-      isNotary: true,
+    respond(res, 'getNotary', {
+      // Removed and fully withdrawn notaries keep their history but are no longer registered
+      isNotary: notary.isActive,
       notary: {
         ...notary,
-        assignments: notary.assignments.map(a => ({
-          ...a,
-          will: {
-            ...a.will,
-            onchainId: a.will.onchainId.toString(),
-            inactivityThreshold: a.will.inactivityThreshold.toString(),
-            gracePeriod: a.will.gracePeriod.toString(),
-          },
-        })),
+        withdrawalReady: isWithdrawalReady(notary),
       },
     });
   } catch (error) {
@@ -70,6 +63,7 @@ notaryRouter.get('/:address/pending', async (req: Request, res: Response) => {
 
     const pendingAssignments = await prisma.notaryAssignment.findMany({
       where: {
+        chainId: res.locals.chainId,
         notaryAddr: address.toLowerCase(),
         will: {
           status: {
@@ -90,6 +84,7 @@ notaryRouter.get('/:address/pending', async (req: Request, res: Response) => {
     // Filter out already verified
     const existingVerifications = await prisma.notaryVerification.findMany({
       where: {
+        chainId: res.locals.chainId,
         notaryAddr: address.toLowerCase(),
         willId: {
           in: pendingAssignments.map(a => a.willId),
@@ -101,26 +96,7 @@ notaryRouter.get('/:address/pending', async (req: Request, res: Response) => {
 
     const pending = pendingAssignments.filter(a => !verifiedWillIds.has(a.willId));
 
-    res.json({
-      pending: pending.map(a => ({
-        ...a,
-        will: {
-          ...a.will,
-          onchainId: a.will.onchainId.toString(),
-          inactivityThreshold: a.will.inactivityThreshold.toString(),
-          gracePeriod: a.will.gracePeriod.toString(),
-          assets: a.will.assets.map(asset => ({
-            ...asset,
-            tokenId: asset.tokenId?.toString(),
-          })),
-          beneficiaries: a.will.beneficiaries.map(b => ({
-            ...b,
-            vestingDuration: b.vestingDuration?.toString(),
-            cliffDuration: b.cliffDuration?.toString(),
-          })),
-        },
-      })),
-    });
+    respond(res, 'getPendingVerifications', { pending });
   } catch (error) {
     logger.error('Error fetching pending verifications:', error);
     res.status(500).json({ error: 'Failed to fetch pending verifications' });
@@ -130,35 +106,66 @@ notaryRouter.get('/:address/pending', async (req: Request, res: Response) => {
 // GET /api/notary/leaderboard - Get top notaries
 notaryRouter.get('/leaderboard/top', async (req: Request, res: Response) => {
   try {
-    const { limit = '20' } = req.query;
+    const page = pageSchema(20).safeParse(req.query);
+    if (!page.success) {
+      return res.status(400).json({ error: INVALID_PAGE });
+    }
 
     const notaries = await prisma.notary.findMany({
-      where: { isActive: true },
+      where: { chainId: res.locals.chainId, isActive: true },
       orderBy: [
         { reputation: 'desc' },
         { totalVerifications: 'desc' },
       ],
-      take: parseInt(limit as string),
+      take: page.data.limit,
+      skip: page.data.offset,
     });
 
-    res.json({ leaderboard: notaries });
+    respond(res, 'getNotaryLeaderboard', {
+      leaderboard: notaries.map(n => ({
+        ...n,
+        withdrawalReady: isWithdrawalReady(n),
+      })),
+    });
   } catch (error) {
     logger.error('Error fetching notary leaderboard:', error);
     res.status(500).json({ error: 'Failed to fetch leaderboard' });
   }
 });
 
-// GET /api/notary/all - Get all active notaries
+// GET /api/notary/list/all - List notaries (active by default)
 notaryRouter.get('/list/all', async (req: Request, res: Response) => {
   try {
-    const notaries = await prisma.notary.findMany({
-      where: { isActive: true },
-      orderBy: { reputation: 'desc' },
-    });
-
-    res.json({ notaries });
+    const query = notariesQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { status, ...page } = query.data;
+
+    const where: Prisma.NotaryWhereInput = {
+      chainId: res.locals.chainId,
+      ...(status !== 'all' && { isActive: status === 'active' }),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.notary.findMany({
+        where,
+        ...cursorArgs<Prisma.NotaryOrderByWithRelationInput>(page),
+      }),
+      prisma.notary.count({ where }),
+    ]);
+    const { items: notaries, nextCursor } = pageOf(rows, page);
+
+    respond(res, 'listNotaries', { notaries, nextCursor, total });
   } catch (error) {
     logger.error('Error fetching notaries:', error);
     res.status(500).json({ error: 'Failed to fetch notaries' });
   }
 });
+
+// A pending withdrawal can be completed once the registry cooldown has passed
+function isWithdrawalReady(notary: { pendingWithdrawal: string; withdrawalAvailableAt: Date | null }) {
+  return notary.pendingWithdrawal !== '0'
+    && notary.withdrawalAvailableAt !== null
+    && notary.withdrawalAvailableAt <= new Date();
+}
@@ -1,37 +1,20 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { cursorArgs, dateFilter, pageOf, queryError } from './pagination.js';
+import { requireSigner } from './auth.js';
+import { respond } from './respond.js';
+import { markReadSchema, notificationsQuerySchema, subscribeSchema, updatePreferencesSchema } from '../shared/api.js';
 
 const prisma = new PrismaClient();
 export const notificationsRouter = Router();
 
-// Validation schemas
-const subscribeSchema = z.object({
-  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
-  email: z.string().email().optional(),
-  telegram: z.string().optional(),
-  pushSubscription: z.object({
-    endpoint: z.string(),
-    keys: z.object({
-      p256dh: z.string(),
-      auth: z.string(),
-    }),
-  }).optional(),
-  preferences: z.object({
-    checkInReminders: z.boolean().optional(),
-    willTriggered: z.boolean().optional(),
-    assetDistributed: z.boolean().optional(),
-    platformUpdates: z.boolean().optional(),
-  }).optional(),
-});
-
-// POST /api/notifications/subscribe - Subscribe to notifications
-notificationsRouter.post('/subscribe', async (req: Request, res: Response) => {
+// POST /api/notifications/subscribe - Subscribe to notifications (signed in as the address)
+notificationsRouter.post('/subscribe', requireSigner, async (req: Request, res: Response) => {
   try {
     const result = subscribeSchema.safeParse(req.body);
     if (!result.success) {
-      return res.status(400).json({ error: 'Invalid request body', details: result.error });
+      return res.status(400).json({ error: 'Invalid request body', details: result.error.issues });
     }
 
     const { address, email, telegram, pushSubscription, preferences } = result.data;
@@ -61,24 +44,18 @@ notificationsRouter.post('/subscribe', async (req: Request, res: Response) => {
       },
     });
 
-    res.json({ success: true, user: { address: user.address, email: user.email } });
+    respond(res, 'subscribe', { success: true, user: { address: user.address, email: user.email } });
   } catch (error) {
     logger.error('Error subscribing to notifications:', error);
     res.status(500).json({ error: 'Failed to subscribe' });
   }
 });
 
-// DELETE /api/notifications/unsubscribe - Unsubscribe from notifications
-notificationsRouter.delete('/unsubscribe', async (req: Request, res: Response) => {
+// DELETE /api/notifications/unsubscribe - Unsubscribe the signed-in address from notifications
+notificationsRouter.delete('/unsubscribe', requireSigner, async (req: Request, res: Response) => {
   try {
-    const { address } = req.body;
-
-    if (!address) {
-      return res.status(400).json({ error: 'Address required' });
-    }
-
     await prisma.user.update({
-      where: { address: address.toLowerCase() },
+      where: { address: res.locals.signer },
       data: {
         email: null,
         telegram: null,
@@ -90,48 +67,67 @@ notificationsRouter.delete('/unsubscribe', async (req: Request, res: Response) =
       },
     });
 
-    res.json({ success: true });
+    respond(res, 'unsubscribe', { success: true });
   } catch (error) {
     logger.error('Error unsubscribing:', error);
     res.status(500).json({ error: 'Failed to unsubscribe' });
   }
 });
 
-// GET /api/notifications/:address - Get user notifications
+// GET /api/notifications/:address - Get user notifications, filtered by type, read state and date
 notificationsRouter.get('/:address', async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
-    const { limit = '50', unreadOnly = 'false' } = req.query;
+
+    const query = notificationsQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { type, unreadOnly, ...page } = query.data;
 
     const user = await prisma.user.findUnique({
       where: { address: address.toLowerCase() },
     });
 
     if (!user) {
-      return res.json({ notifications: [] });
+      return respond(res, 'getNotifications', { notifications: [], nextCursor: null, total: 0 });
     }
 
-    const notifications = await prisma.notification.findMany({
-      where: {
-        userId: user.id,
-        ...(unreadOnly === 'true' && { readAt: null }),
-      },
-      orderBy: { createdAt: 'desc' },
-      take: parseInt(limit as string),
-    });
-
-    res.json({ notifications });
+    // Notifications not tied to a will (e.g. platform updates) show on every chain
+    const where: Prisma.NotificationWhereInput = {
+      userId: user.id,
+      OR: [{ willId: null }, { will: { chainId: res.locals.chainId } }],
+      type,
+      createdAt: dateFilter(page),
+      ...(unreadOnly === 'true' && { readAt: null }),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        ...cursorArgs<Prisma.NotificationOrderByWithRelationInput>(page),
+      }),
+      prisma.notification.count({ where }),
+    ]);
+    const { items: notifications, nextCursor } = pageOf(rows, page);
+
+    respond(res, 'getNotifications', { notifications, nextCursor, total });
   } catch (error) {
     logger.error('Error fetching notifications:', error);
     res.status(500).json({ error: 'Failed to fetch notifications' });
   }
 });
 
-// POST /api/notifications/:address/read - Mark notifications as read
-notificationsRouter.post('/:address/read', async (req: Request, res: Response) => {
+// POST /api/notifications/:address/read - Mark notifications as read (signed in as :address)
+notificationsRouter.post('/:address/read', requireSigner, async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
-    const { notificationIds } = req.body;
+
+    const body = markReadSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+    const { notificationIds } = body.data;
 
     const user = await prisma.user.findUnique({
       where: { address: address.toLowerCase() },
@@ -141,7 +137,7 @@ notificationsRouter.post('/:address/read', async (req: Request, res: Response) =
       return res.status(404).json({ error: 'User not found' });
     }
 
-    if (notificationIds && Array.isArray(notificationIds)) {
+    if (notificationIds) {
       await prisma.notification.updateMany({
         where: {
           id: { in: notificationIds },
@@ -160,18 +156,23 @@ notificationsRouter.post('/:address/read', async (req: Request, res: Response) =
       });
     }
 
-    res.json({ success: true });
+    respond(res, 'markNotificationsRead', { success: true });
   } catch (error) {
     logger.error('Error marking notifications as read:', error);
     res.status(500).json({ error: 'Failed to mark as read' });
   }
 });
 
-// PUT /api/notifications/:address/preferences - Update notification preferences
-notificationsRouter.put('/:address/preferences', async (req: Request, res: Response) => {
+// PUT /api/notifications/:address/preferences - Update notification preferences (signed in as :address)
+notificationsRouter.put('/:address/preferences', requireSigner, async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
-    const { preferences } = req.body;
+
+    const body = updatePreferencesSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+    const { preferences } = body.data;
 
     await prisma.user.update({
       where: { address: address.toLowerCase() },
@@ -183,7 +184,7 @@ notificationsRouter.put('/:address/preferences', async (req: Request, res: Respo
       },
     });
 
-    res.json({ success: true });
+    respond(res, 'updatePreferences', { success: true });
   } catch (error) {
     logger.error('Error updating preferences:', error);
     res.status(500).json({ error: 'Failed to update preferences' });
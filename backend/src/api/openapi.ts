@@ -0,0 +1,161 @@
+import { z } from 'zod/v4';
+import { Route, errorSchema, liveEventSchema, routes, willExportQuerySchema, willExportSchema, willIdSchema } from '../shared/api.js';
+import { SESSION_COOKIE } from '../utils/session.js';
+import { CHAIN_IDS, DEFAULT_CHAIN_ID } from '../indexer/config.js';
+
+// OpenAPI 3.1 document for /api, derived from the route table in shared/api.ts
+// and served at GET /api/openapi.json
+
+type JsonSchema = z.core.JSONSchema.BaseSchema;
+
+// Requests are described as clients send them (before coercion and defaults),
+// responses as the server serializes them
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const { $schema, ...rest } = z.toJSONSchema(schema, {
+    io,
+    // The format says enough; zod's pattern for it would be repeated on every date
+    override: ({ jsonSchema }) => {
+      if (jsonSchema.format) delete jsonSchema.pattern;
+    },
+  });
+  return rest;
+}
+
+// Express `:name` segments as OpenAPI `{name}`
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+const chainIdParameter = {
+  name: 'chainId',
+  in: 'query',
+  description: `Chain to read, defaults to ${DEFAULT_CHAIN_ID}`,
+  schema: { type: 'integer', enum: CHAIN_IDS },
+};
+
+function parameters(route: Pick<Route, 'params' | 'query'>) {
+  const fields = (location: 'path' | 'query', schema: z.ZodObject | undefined) => {
+    if (!schema) return [];
+    const { properties = {}, required = [] } = jsonSchema(schema, 'input');
+    return Object.entries(properties).map(([name, property]) => ({
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      schema: property,
+    }));
+  };
+
+  return [...fields('path', route.params), ...fields('query', route.query), chainIdParameter];
+}
+
+const SECURITY: Record<NonNullable<Route['auth']>, Record<string, string[]>[]> = {
+  session: [{ sessionCookie: [] }, { sessionToken: [] }],
+  admin: [{ adminKey: [] }],
+  integrator: [{ integratorKey: [] }, { sessionCookie: [] }, { sessionToken: [] }],
+};
+
+function operation(operationId: string, route: Route) {
+  return {
+    operationId,
+    summary: route.summary,
+    tags: [route.path.split('/')[1]],
+    parameters: parameters(route),
+    ...(route.auth && { security: SECURITY[route.auth] }),
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: jsonSchema(route.body, 'input') } },
+      },
+    }),
+    responses: {
+      200: {
+        description: 'Success',
+        content: { 'application/json': { schema: jsonSchema(route.response, 'output') } },
+      },
+      default: {
+        description: 'Error',
+        content: { 'application/json': { schema: jsonSchema(errorSchema, 'output') } },
+      },
+    },
+  };
+}
+
+// GET /stream is Server-Sent Events rather than JSON, so it isn't in the route table
+function streamOperation() {
+  return {
+    operationId: 'streamLiveEvents',
+    summary: 'Live events for wills and notaries the signed-in address is involved in',
+    tags: ['stream'],
+    parameters: [chainIdParameter],
+    security: SECURITY.session,
+    responses: {
+      200: {
+        description: 'One message per event, with the JSON event as its data',
+        content: { 'text/event-stream': { schema: jsonSchema(liveEventSchema, 'output') } },
+      },
+      default: {
+        description: 'Error',
+        content: { 'application/json': { schema: jsonSchema(errorSchema, 'output') } },
+      },
+    },
+  };
+}
+
+// GET /wills/:id/export downloads a file in the requested format
+function exportOperation() {
+  return {
+    operationId: 'exportWillActivity',
+    summary: "Download a will's activity timeline as CSV, JSON or a signed PDF summary",
+    tags: ['wills'],
+    parameters: parameters({ params: z.object({ id: willIdSchema }), query: willExportQuerySchema }),
+    security: SECURITY.session,
+    responses: {
+      200: {
+        description: 'The export as an attachment',
+        content: {
+          'application/json': { schema: jsonSchema(willExportSchema, 'output') },
+          'text/csv': { schema: { type: 'string' } },
+          'application/pdf': { schema: { type: 'string', format: 'binary' } },
+        },
+      },
+      default: {
+        description: 'Error',
+        content: { 'application/json': { schema: jsonSchema(errorSchema, 'output') } },
+      },
+    },
+  };
+}
+
+function buildDocument() {
+  const paths: Record<string, Record<string, object>> = {
+    '/stream': { get: streamOperation() },
+    '/wills/{id}/export': { get: exportOperation() },
+  };
+
+  for (const [operationId, route] of Object.entries(routes) as [string, Route][]) {
+    const path = openApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(operationId, route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'BaseWill API', version: '1.0.0' },
+    servers: [{ url: '/api' }],
+    paths,
+    components: {
+      securitySchemes: {
+        sessionCookie: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE },
+        sessionToken: { type: 'http', scheme: 'bearer', description: 'Token returned by POST /auth/verify' },
+        adminKey: { type: 'http', scheme: 'bearer', description: 'ADMIN_API_KEY' },
+        integratorKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key', description: 'A key from WEBHOOK_API_KEYS' },
+      },
+    },
+  };
+}
+
+let document: ReturnType<typeof buildDocument> | undefined;
+
+export function openApiDocument() {
+  document ??= buildDocument();
+  return document;
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod/v4';
+import { MAX_PAGE_SIZE, dateRangeSchema } from '../shared/api.js';
+
+export const INVALID_PAGE = `Invalid pagination, limit must be between 1 and ${MAX_PAGE_SIZE}`;
+
+// Cursor pagination
+//
+// Prisma resumes right after the cursor row in the same sort order, with the
+// id breaking ties. The query and response shapes live in shared/api.ts.
+
+// ?from=&to= as a Prisma filter on the list's date field
+export function dateFilter({ from, to }: z.output<typeof dateRangeSchema>) {
+  return from || to ? { gte: from, lte: to } : undefined;
+}
+
+interface CursorPage {
+  limit: number;
+  cursor?: string;
+  sort: string;
+  order: 'asc' | 'desc';
+}
+
+// findMany arguments for a page; one extra row tells whether another page follows
+export function cursorArgs<OrderBy>(page: CursorPage) {
+  return {
+    take: page.limit + 1,
+    ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+    orderBy: [{ [page.sort]: page.order }, { id: page.order }] as OrderBy[],
+  };
+}
+
+export function pageOf<T extends { id: string }>(rows: T[], page: CursorPage) {
+  const items = rows.slice(0, page.limit);
+  return {
+    items,
+    nextCursor: rows.length > page.limit ? items[items.length - 1].id : null,
+  };
+}
+
+// First validation issue, for 400 responses
+export function queryError(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return `Invalid query parameter ${issue.path.join('.')}: ${issue.message}`;
+}
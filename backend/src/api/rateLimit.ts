@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express';
+import { Redis } from 'ioredis';
+import { logger } from '../utils/logger.js';
+import { sessionAddress } from '../utils/session.js';
+
+// API rate limiting
+//
+// Every client has a budget of points per window: signed-in users are keyed
+// by their session address, everyone else by IP. A request costs one point;
+// expensive routes charge more with requestCost(). Counters live in Redis
+// when REDIS_URL is set, so every API instance shares them, and in memory
+// otherwise or while Redis is unreachable.
+
+const WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW || '60') * 1000;
+const IP_POINTS = parseInt(process.env.RATE_LIMIT_POINTS || '120');
+const SESSION_POINTS = parseInt(process.env.RATE_LIMIT_SESSION_POINTS || '300');
+
+interface WindowUsage {
+  used: number;
+  resetAt: number;
+}
+
+interface RateLimitStore {
+  consume(key: string, points: number): Promise<WindowUsage>;
+}
+
+class MemoryStore implements RateLimitStore {
+  private windows = new Map<string, WindowUsage>();
+
+  async consume(key: string, points: number): Promise<WindowUsage> {
+    const now = Date.now();
+    let usage = this.windows.get(key);
+    if (!usage || usage.resetAt <= now) {
+      this.prune(now);
+      usage = { used: 0, resetAt: now + WINDOW_MS };
+      this.windows.set(key, usage);
+    }
+    usage.used += points;
+    return usage;
+  }
+
+  // Drop finished windows so idle clients don't accumulate
+  private prune(now: number) {
+    for (const [key, usage] of this.windows) {
+      if (usage.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+class RedisStore implements RateLimitStore {
+  constructor(private redis: Redis) {}
+
+  async consume(key: string, points: number): Promise<WindowUsage> {
+    const results = await this.redis
+      .multi()
+      .set(key, 0, 'PX', WINDOW_MS, 'NX')
+      .incrby(key, points)
+      .pttl(key)
+      .exec();
+
+    if (!results || results.some(([error]) => error)) {
+      throw new Error('Rate limit transaction failed');
+    }
+    const used = results[1][1] as number;
+    const ttl = results[2][1] as number;
+    return { used, resetAt: Date.now() + Math.max(ttl, 0) };
+  }
+}
+
+const memoryStore = new MemoryStore();
+
+// Commands fail straight away while disconnected instead of queueing, so requests fall back to memory
+const redisStore = process.env.REDIS_URL
+  ? new RedisStore(new Redis(process.env.REDIS_URL, {
+    enableOfflineQueue: false,
+    maxRetriesPerRequest: 1,
+  }).on('error', error => logger.warn(`Rate limit Redis error: ${error.message}`)))
+  : null;
+
+async function consume(key: string, points: number): Promise<WindowUsage> {
+  if (redisStore) {
+    try {
+      return await redisStore.consume(key, points);
+    } catch {
+      // Limits become per instance until Redis is back
+    }
+  }
+  return memoryStore.consume(key, points);
+}
+
+async function charge(req: Request, res: Response, next: NextFunction, points: number) {
+  const address = sessionAddress(req);
+  const key = address ? `ratelimit:session:${address}` : `ratelimit:ip:${req.ip}`;
+  const limit = address ? SESSION_POINTS : IP_POINTS;
+
+  try {
+    const { used, resetAt } = await consume(key, points);
+    const resetSeconds = Math.ceil((resetAt - Date.now()) / 1000);
+
+    res.setHeader('RateLimit-Limit', limit);
+    res.setHeader('RateLimit-Remaining', Math.max(limit - used, 0));
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (used > limit) {
+      res.setHeader('Retry-After', resetSeconds);
+      return res.status(429).json({ error: 'Too many requests' });
+    }
+    next();
+  } catch (error) {
+    logger.error('Error applying rate limit:', error);
+    next();
+  }
+}
+
+// One point for every API request
+export function rateLimit(req: Request, res: Response, next: NextFunction) {
+  charge(req, res, next, 1);
+}
+
+// Extra points for a route that is expensive to serve, on top of the base point
+export function requestCost(points: number) {
+  return (req: Request, res: Response, next: NextFunction) => charge(req, res, next, points - 1);
+}
@@ -0,0 +1,10 @@
+import { Response } from 'express';
+import { z } from 'zod/v4';
+import { ApiResult, Operation, routes } from '../shared/api.js';
+
+// Send a handler's result through the operation's response schema, which
+// serializes BigInts and dates and drops fields the contract doesn't expose
+export function respond<K extends Operation>(res: Response, operation: K, result: ApiResult<K>) {
+  const schema: z.ZodType = routes[operation].response;
+  res.json(schema.parse(result));
+}
@@ -1,19 +1,30 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { INVALID_PAGE, queryError } from './pagination.js';
+import { requestCost } from './rateLimit.js';
+import { respond } from './respond.js';
+import { pageSchema, periodQuerySchema } from '../shared/api.js';
+import { VALUE_BUCKETS, ValueBuckets } from '../indexer/platformStats.js';
 
 const prisma = new PrismaClient();
 export const statsRouter = Router();
 
+// Active wills per value range (in ETH), in ascending order
+function valueDistribution(buckets: ValueBuckets) {
+  return VALUE_BUCKETS.map(({ range }) => ({ range, count: buckets[range] ?? 0 }));
+}
+
 // GET /api/stats - Get platform statistics
 statsRouter.get('/', async (req: Request, res: Response) => {
   try {
     const stats = await prisma.platformStats.findUnique({
-      where: { id: 'singleton' },
+      where: { chainId: res.locals.chainId },
     });
 
     if (!stats) {
-      return res.json({
+      return respond(res, 'getPlatformStats', {
+        chainId: res.locals.chainId,
         totalWillsCreated: 0,
         activeWills: 0,
         executedWills: 0,
@@ -21,20 +32,25 @@ statsRouter.get('/', async (req: Request, res: Response) => {
         totalValueSecured: '0',
         totalDistributed: '0',
         registeredNotaries: 0,
+        lastUpdated: null,
       });
     }
 
-    res.json(stats);
+    respond(res, 'getPlatformStats', stats);
   } catch (error) {
     logger.error('Error fetching platform stats:', error);
     res.status(500).json({ error: 'Failed to fetch stats' });
   }
 });
 
-// GET /api/stats/wills-over-time - Get wills created over time
-statsRouter.get('/wills-over-time', async (req: Request, res: Response) => {
+// GET /api/stats/wills-over-time - Daily will counts, value locked and value distribution
+statsRouter.get('/wills-over-time', requestCost(2), async (req: Request, res: Response) => {
   try {
-    const { period = '30d' } = req.query;
+    const query = periodQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { period } = query.data;
 
     let startDate: Date;
     switch (period) {
@@ -50,41 +66,45 @@ statsRouter.get('/wills-over-time', async (req: Request, res: Response) => {
       case '1y':
         startDate = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
         break;
-      default:
-        startDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     }
 
-    const wills = await prisma.will.findMany({
-      where: {
-        createdAt: { gte: startDate },
-      },
-      select: {
-        createdAt: true,
-        status: true,
-        totalValue: true,
-      },
-      orderBy: { createdAt: 'asc' },
+    const chainId = res.locals.chainId;
+    startDate.setUTCHours(0, 0, 0, 0);
+
+    // Read from the daily snapshots rather than the will table
+    const [snapshots, previous, stats] = await Promise.all([
+      prisma.platformStatsSnapshot.findMany({
+        where: { chainId, date: { gte: startDate } },
+        orderBy: { date: 'asc' },
+      }),
+      // The day before the period, so its first day has a created count
+      prisma.platformStatsSnapshot.findFirst({
+        where: { chainId, date: { lt: startDate } },
+        orderBy: { date: 'desc' },
+      }),
+      prisma.platformStats.findUnique({ where: { chainId } }),
+    ]);
+
+    // Today is still running; its point comes from the live stats
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const days = stats ? [...snapshots, { ...stats, date: today }] : snapshots;
+
+    const data = days.map((day, i) => {
+      const before = i > 0 ? days[i - 1] : previous;
+      return {
+        date: day.date.toISOString().split('T')[0],
+        created: before ? day.totalWillsCreated - before.totalWillsCreated : null,
+        activeWills: day.activeWills,
+        executedWills: day.executedWills,
+        cancelledWills: day.cancelledWills,
+        totalValueSecured: day.totalValueSecured,
+        totalDistributed: day.totalDistributed,
+        valueDistribution: valueDistribution(day.activeValueBuckets as ValueBuckets),
+      };
     });
 
-    // Group by day
-    const dailyStats: Record<string, { created: number; value: bigint }> = {};
-
-    wills.forEach(will => {
-      const day = will.createdAt.toISOString().split('T')[0];
-      if (!dailyStats[day]) {
-        dailyStats[day] = { created: 0, value: BigInt(0) };
-      }
-      dailyStats[day].created++;
-      dailyStats[day].value += BigInt(will.totalValue);
-    });
-
-    const data = Object.entries(dailyStats).map(([date, stats]) => ({
-      date,
-      created: stats.created,
-      value: stats.value.toString(),
-    }));
-
-    res.json({ data });
+    respond(res, 'getWillsOverTime', { data });
   } catch (error) {
     logger.error('Error fetching wills over time:', error);
     res.status(500).json({ error: 'Failed to fetch data' });
@@ -94,35 +114,13 @@ statsRouter.get('/wills-over-time', async (req: Request, res: Response) => {
 // GET /api/stats/value-distribution - Get value distribution stats
 statsRouter.get('/value-distribution', async (req: Request, res: Response) => {
   try {
-    const wills = await prisma.will.findMany({
-      where: { status: 'ACTIVE' },
-      select: { totalValue: true },
-    });
-
-    // Define value ranges (in ETH)
-    const ranges = {
-      '0-0.1': 0,
-      '0.1-1': 0,
-      '1-10': 0,
-      '10-100': 0,
-      '100+': 0,
-    };
-
-    wills.forEach(will => {
-      const valueEth = Number(BigInt(will.totalValue)) / 1e18;
-      if (valueEth < 0.1) ranges['0-0.1']++;
-      else if (valueEth < 1) ranges['0.1-1']++;
-      else if (valueEth < 10) ranges['1-10']++;
-      else if (valueEth < 100) ranges['10-100']++;
-      else ranges['100+']++;
+    const stats = await prisma.platformStats.findUnique({
+      where: { chainId: res.locals.chainId },
     });
 
-    const data = Object.entries(ranges).map(([range, count]) => ({
-      range,
-      count,
-    }));
+    const data = valueDistribution((stats?.activeValueBuckets ?? {}) as ValueBuckets);
 
-    res.json({ data });
+    respond(res, 'getValueDistribution', { data });
   } catch (error) {
     logger.error('Error fetching value distribution:', error);
     res.status(500).json({ error: 'Failed to fetch data' });
@@ -132,11 +130,16 @@ statsRouter.get('/value-distribution', async (req: Request, res: Response) => {
 // GET /api/stats/activity - Recent platform activity
 statsRouter.get('/activity', async (req: Request, res: Response) => {
   try {
-    const { limit = '20' } = req.query;
+    const page = pageSchema(20).safeParse(req.query);
+    if (!page.success) {
+      return res.status(400).json({ error: INVALID_PAGE });
+    }
 
     const activities = await prisma.activity.findMany({
+      where: { chainId: res.locals.chainId },
       orderBy: { timestamp: 'desc' },
-      take: parseInt(limit as string),
+      take: page.data.limit,
+      skip: page.data.offset,
       include: {
         will: {
           select: {
@@ -148,7 +151,7 @@ statsRouter.get('/activity', async (req: Request, res: Response) => {
       },
     });
 
-    res.json({ activities });
+    respond(res, 'getRecentActivity', { activities });
   } catch (error) {
     logger.error('Error fetching recent activity:', error);
     res.status(500).json({ error: 'Failed to fetch activity' });
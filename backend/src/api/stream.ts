@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express';
+import { requireSession } from './auth.js';
+import { subscribeLiveEvents } from '../indexer/liveEvents.js';
+import { liveStreams } from '../utils/metrics.js';
+
+// Server-Sent Events for the signed-in address
+//
+// Streams every indexed event involving the address on the requested chain
+// (see indexer/liveEvents.ts). Events are not replayed: clients should refetch
+// what they show when the stream (re)connects.
+
+export const streamRouter = Router();
+
+// Streams one address can hold open on this instance, e.g. a few tabs
+const MAX_STREAMS_PER_ADDRESS = 5;
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long EventSource waits before reconnecting
+const RETRY_MS = 5 * 1000;
+
+// Longest delay setTimeout accepts
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const openStreams = new Map<string, number>();
+
+// GET /api/stream - Live events for wills and notaries the signed-in address is involved in
+streamRouter.get('/', requireSession, (req: Request, res: Response) => {
+  const address: string = res.locals.signer;
+  const chainId: number = res.locals.chainId;
+  const expiresAt: Date = res.locals.sessionExpiresAt;
+
+  const count = openStreams.get(address) ?? 0;
+  if (count >= MAX_STREAMS_PER_ADDRESS) {
+    return res.status(429).json({ error: 'Too many open streams' });
+  }
+  openStreams.set(address, count + 1);
+  liveStreams.inc();
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stops nginx buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const unsubscribe = subscribeLiveEvents(address, event => {
+    if (event.chainId !== chainId) return;
+    res.write(`id: ${event.chainId}:${event.txHash}:${event.logIndex}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  // The client reconnects and gets a 401, prompting it to sign in again
+  const expiry = setTimeout(() => res.end(), Math.min(expiresAt.getTime() - Date.now(), MAX_TIMEOUT_MS));
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    unsubscribe();
+    liveStreams.dec();
+
+    const remaining = (openStreams.get(address) ?? 1) - 1;
+    if (remaining > 0) {
+      openStreams.set(address, remaining);
+    } else {
+      openStreams.delete(address);
+    }
+  });
+});
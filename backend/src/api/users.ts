@@ -1,13 +1,15 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { cursorArgs, dateFilter, pageOf, queryError } from './pagination.js';
+import { requestCost } from './rateLimit.js';
+import { requireSigner } from './auth.js';
+import { respond } from './respond.js';
+import { activityQuerySchema, addressSchema, updateProfileSchema } from '../shared/api.js';
 
 const prisma = new PrismaClient();
 export const usersRouter = Router();
 
-const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
-
 // GET /api/users/:address - Get user profile
 usersRouter.get('/:address', async (req: Request, res: Response) => {
   try {
@@ -22,25 +24,28 @@ usersRouter.get('/:address', async (req: Request, res: Response) => {
       where: { address: address.toLowerCase() },
       include: {
         testatorWills: {
+          where: { chainId: res.locals.chainId },
           select: {
             id: true,
             status: true,
             totalValue: true,
           },
         },
-        notaryInfo: true,
+        notaryInfo: {
+          where: { chainId: res.locals.chainId },
+        },
       },
     });
 
     if (!user) {
       // Return default profile for unregistered users
-      return res.json({
+      return respond(res, 'getProfile', {
         address: address.toLowerCase(),
         isRegistered: false,
         stats: {
           totalWills: 0,
           activeWills: 0,
-          totalValueSecured: '0',
+          totalValueSecured: BigInt(0),
           isNotary: false,
         },
       });
@@ -53,7 +58,7 @@ usersRouter.get('/:address', async (req: Request, res: Response) => {
       BigInt(0)
     );
 
-    res.json({
+    respond(res, 'getProfile', {
       address: user.address,
       email: user.email,
       telegram: user.telegram,
@@ -68,8 +73,8 @@ usersRouter.get('/:address', async (req: Request, res: Response) => {
       stats: {
         totalWills: user.testatorWills.length,
         activeWills,
-        totalValueSecured: totalValue.toString(),
-        isNotary: !!user.notaryInfo,
+        totalValueSecured: totalValue,
+        isNotary: user.notaryInfo.length > 0,
       },
     });
   } catch (error) {
@@ -78,17 +83,22 @@ usersRouter.get('/:address', async (req: Request, res: Response) => {
   }
 });
 
-// PUT /api/users/:address - Update user profile
-usersRouter.put('/:address', async (req: Request, res: Response) => {
+// PUT /api/users/:address - Update user profile (signed in as :address)
+usersRouter.put('/:address', requireSigner, async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
-    const { email, telegram } = req.body;
 
     const result = addressSchema.safeParse(address);
     if (!result.success) {
       return res.status(400).json({ error: 'Invalid address format' });
     }
 
+    const body = updateProfileSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+    const { email, telegram } = body.data;
+
     const user = await prisma.user.upsert({
       where: { address: address.toLowerCase() },
       update: {
@@ -102,7 +112,7 @@ usersRouter.put('/:address', async (req: Request, res: Response) => {
       },
     });
 
-    res.json({
+    respond(res, 'updateProfile', {
       success: true,
       user: {
         address: user.address,
@@ -116,42 +126,47 @@ usersRouter.put('/:address', async (req: Request, res: Response) => {
   }
 });
 
-// GET /api/users/:address/activity - Get user activity
-usersRouter.get('/:address/activity', async (req: Request, res: Response) => {
+// GET /api/users/:address/activity - Get activity on a user's wills, filtered by type and date
+usersRouter.get('/:address/activity', requestCost(3), async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
-    const { limit = '50' } = req.query;
 
     const result = addressSchema.safeParse(address);
     if (!result.success) {
       return res.status(400).json({ error: 'Invalid address format' });
     }
 
-    // Get wills owned by user
-    const wills = await prisma.will.findMany({
-      where: { testatorAddress: address.toLowerCase() },
-      select: { id: true },
-    });
-
-    const willIds = wills.map(w => w.id);
-
-    const activities = await prisma.activity.findMany({
-      where: {
-        willId: { in: willIds },
-      },
-      orderBy: { timestamp: 'desc' },
-      take: parseInt(limit as string),
-      include: {
-        will: {
-          select: {
-            id: true,
-            status: true,
+    const query = activityQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { type, ...page } = query.data;
+
+    const where: Prisma.ActivityWhereInput = {
+      chainId: res.locals.chainId,
+      will: { testatorAddress: address.toLowerCase() },
+      type,
+      timestamp: dateFilter(page),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.activity.findMany({
+        where,
+        include: {
+          will: {
+            select: {
+              id: true,
+              status: true,
+            },
           },
         },
-      },
-    });
+        ...cursorArgs<Prisma.ActivityOrderByWithRelationInput>(page),
+      }),
+      prisma.activity.count({ where }),
+    ]);
+    const { items: activities, nextCursor } = pageOf(rows, page);
 
-    res.json({ activities });
+    respond(res, 'getUserActivity', { activities, nextCursor, total });
   } catch (error) {
     logger.error('Error fetching user activity:', error);
     res.status(500).json({ error: 'Failed to fetch activity' });
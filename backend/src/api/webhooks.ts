@@ -0,0 +1,208 @@
+import { Router, Request, Response } from 'express';
+import { Prisma, PrismaClient, WebhookDelivery } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { cursorArgs, pageOf, queryError } from './pagination.js';
+import { requireIntegrator } from './auth.js';
+import { respond } from './respond.js';
+import { WebhookEvent, createWebhookSchema, updateWebhookSchema, webhookDeliveriesQuerySchema } from '../shared/api.js';
+import { BASE_WILL_EVENTS, NOTARY_REGISTRY_EVENTS } from '../indexer/config.js';
+import { generateWebhookSecret, replayDelivery } from '../webhooks/service.js';
+import { resolveDestination } from '../webhooks/destination.js';
+
+const prisma = new PrismaClient();
+export const webhooksRouter = Router();
+
+// Subscriptions an owner can hold across chains
+const MAX_WEBHOOKS_PER_OWNER = 20;
+
+const EVENT_TYPES = new Set<string>([...BASE_WILL_EVENTS, ...NOTARY_REGISTRY_EVENTS]);
+
+webhooksRouter.use(requireIntegrator);
+
+// Problem with a webhook's URL or event types, if any. The URL's host must
+// resolve to public addresses only.
+async function invalidWebhook({ url, eventTypes }: { url?: string; eventTypes?: string[] }): Promise<string | null> {
+  if (url && process.env.NODE_ENV === 'production' && new URL(url).protocol !== 'https:') {
+    return 'Webhook URLs must use https';
+  }
+  if (url) {
+    try {
+      await resolveDestination(url);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+  const unknown = eventTypes?.find(type => !EVENT_TYPES.has(type));
+  return unknown ? `Unknown event type ${unknown}` : null;
+}
+
+// Payloads are stored as built by queueWebhooks()
+function logEntry(delivery: WebhookDelivery) {
+  return { ...delivery, payload: delivery.payload as WebhookEvent };
+}
+
+// The caller's webhook, or null if it doesn't exist or belongs to someone else
+function ownedWebhook(id: string, owner: string) {
+  return prisma.webhookSubscription.findFirst({ where: { id, owner } });
+}
+
+// POST /api/webhooks - Register a webhook for indexed events on the requested chain
+webhooksRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const result = createWebhookSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid request body', details: result.error.issues });
+    }
+
+    const invalid = await invalidWebhook(result.data);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const owner: string = res.locals.owner;
+    const count = await prisma.webhookSubscription.count({ where: { owner } });
+    if (count >= MAX_WEBHOOKS_PER_OWNER) {
+      return res.status(409).json({ error: `At most ${MAX_WEBHOOKS_PER_OWNER} webhooks per owner` });
+    }
+
+    const { url, eventTypes, willIds } = result.data;
+    const secret = generateWebhookSecret();
+    const webhook = await prisma.webhookSubscription.create({
+      data: {
+        chainId: res.locals.chainId,
+        owner,
+        url,
+        secret,
+        eventTypes,
+        willIds: willIds.map(id => BigInt(id)),
+      },
+    });
+
+    logger.info(`Registered webhook ${webhook.id} for ${owner} on chain ${webhook.chainId}`);
+    respond(res, 'createWebhook', { webhook, secret });
+  } catch (error) {
+    logger.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// GET /api/webhooks - List the caller's webhooks on the requested chain
+webhooksRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const webhooks = await prisma.webhookSubscription.findMany({
+      where: { owner: res.locals.owner, chainId: res.locals.chainId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    respond(res, 'listWebhooks', { webhooks });
+  } catch (error) {
+    logger.error('Error listing webhooks:', error);
+    res.status(500).json({ error: 'Failed to list webhooks' });
+  }
+});
+
+// PUT /api/webhooks/:id - Change a webhook's URL or filters, or pause it
+webhooksRouter.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const result = updateWebhookSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid request body', details: result.error.issues });
+    }
+
+    const invalid = await invalidWebhook(result.data);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const existing = await ownedWebhook(req.params.id, res.locals.owner);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const { willIds, ...data } = result.data;
+    const webhook = await prisma.webhookSubscription.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        ...(willIds && { willIds: willIds.map(id => BigInt(id)) }),
+      },
+    });
+
+    respond(res, 'updateWebhook', { webhook });
+  } catch (error) {
+    logger.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// DELETE /api/webhooks/:id - Delete a webhook and its delivery log
+webhooksRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await ownedWebhook(req.params.id, res.locals.owner);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await prisma.webhookSubscription.delete({ where: { id: existing.id } });
+
+    respond(res, 'deleteWebhook', { success: true });
+  } catch (error) {
+    logger.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Delivery log, newest first, filtered by status
+webhooksRouter.get('/:id/deliveries', async (req: Request, res: Response) => {
+  try {
+    const query = webhookDeliveriesQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { status, ...page } = query.data;
+
+    const webhook = await ownedWebhook(req.params.id, res.locals.owner);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const where: Prisma.WebhookDeliveryWhereInput = { subscriptionId: webhook.id, status };
+
+    const [rows, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        ...cursorArgs<Prisma.WebhookDeliveryOrderByWithRelationInput>(page),
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+    const { items: deliveries, nextCursor } = pageOf(rows, page);
+
+    respond(res, 'listWebhookDeliveries', { deliveries: deliveries.map(logEntry), nextCursor, total });
+  } catch (error) {
+    logger.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/replay - Send a logged delivery again now
+webhooksRouter.post('/:id/deliveries/:deliveryId/replay', async (req: Request, res: Response) => {
+  try {
+    const webhook = await ownedWebhook(req.params.id, res.locals.owner);
+    const existing = webhook && await prisma.webhookDelivery.findFirst({
+      where: { id: req.params.deliveryId, subscriptionId: webhook.id },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const delivery = await replayDelivery(existing.id);
+    if (!delivery) {
+      return res.status(409).json({ error: 'The event is not final yet' });
+    }
+
+    respond(res, 'replayWebhookDelivery', { delivery: logEntry(delivery) });
+  } catch (error) {
+    logger.error('Error replaying webhook delivery:', error);
+    res.status(500).json({ error: 'Failed to replay webhook delivery' });
+  }
+});
@@ -1,15 +1,49 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { cursorArgs, dateFilter, pageOf, queryError } from './pagination.js';
+import { requestCost } from './rateLimit.js';
+import { respond } from './respond.js';
+import { requireSession } from './auth.js';
+import { activityQuerySchema, addressSchema, willExportQuerySchema, willIdSchema, willSearchQuerySchema, willsQuerySchema } from '../shared/api.js';
+import { searchWills } from '../database/queries.js';
+import { sessionAddress } from '../utils/session.js';
+import { buildWillExport, canSignExports, findExportableWill, isWillParty, willExportCsv, willExportPdf } from '../exports/willExport.js';
+import { willRowId } from '../indexer/enums.js';
 
 const prisma = new PrismaClient();
 export const willsRouter = Router();
 
-// Validation schemas
-const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
+// GET /api/wills/search - Search wills by id, address or name, status and value.
+// Registered before /:address, which would otherwise take "search" for an address.
+willsRouter.get('/search', requestCost(5), async (req: Request, res: Response) => {
+  try {
+    const query = willSearchQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+
+    const viewer = sessionAddress(req);
+    const { wills: rows, total } = await searchWills({ ...query.data, chainId: res.locals.chainId, viewer });
+    const { items, nextCursor } = pageOf(rows, query.data);
+
+    // Beneficiaries stay hidden on private wills, except from their testator
+    const wills = items.map(({ testator, beneficiaries, ...will }) => ({
+      ...will,
+      testatorName: testator?.name ?? null,
+      beneficiaries: will.privacyMode === 'PUBLIC' || will.testatorAddress === viewer
+        ? beneficiaries.map(({ beneficiary, ...b }) => ({ ...b, beneficiaryName: beneficiary?.name ?? null }))
+        : null,
+    }));
+
+    respond(res, 'searchWills', { wills, nextCursor, total });
+  } catch (error) {
+    logger.error('Error searching wills:', error);
+    res.status(500).json({ error: 'Failed to search wills' });
+  }
+});
 
-// GET /api/wills/:address - Get all wills for a testator
+// GET /api/wills/:address - Get a testator's wills, filtered by status, asset type and creation date
 willsRouter.get('/:address', async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
@@ -20,36 +54,37 @@ willsRouter.get('/:address', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid address format' });
     }
 
-    const wills = await prisma.will.findMany({
-      where: { testatorAddress: address.toLowerCase() },
-      include: {
-        beneficiaries: true,
-        assets: true,
-        notaryAssignments: {
-          include: { notary: true }
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
+    const query = willsQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { status, assetType, ...page } = query.data;
 
-    // Transform BigInt to string for JSON serialization
-    const transformedWills = wills.map(will => ({
-      ...will,
-      onchainId: will.onchainId.toString(),
-      inactivityThreshold: will.inactivityThreshold.toString(),
-      gracePeriod: will.gracePeriod.toString(),
-      beneficiaries: will.beneficiaries.map(b => ({
-        ...b,
-        vestingDuration: b.vestingDuration?.toString(),
-        cliffDuration: b.cliffDuration?.toString(),
-      })),
-      assets: will.assets.map(a => ({
-        ...a,
-        tokenId: a.tokenId?.toString(),
-      })),
-    }));
+    const where: Prisma.WillWhereInput = {
+      chainId: res.locals.chainId,
+      testatorAddress: address.toLowerCase(),
+      status,
+      createdAt: dateFilter(page),
+      ...(assetType && { assets: { some: { assetType } } }),
+    };
 
-    res.json({ wills: transformedWills });
+    const [rows, total] = await Promise.all([
+      prisma.will.findMany({
+        where,
+        include: {
+          beneficiaries: true,
+          assets: true,
+          notaryAssignments: {
+            include: { notary: true }
+          },
+        },
+        ...cursorArgs<Prisma.WillOrderByWithRelationInput>(page),
+      }),
+      prisma.will.count({ where }),
+    ]);
+    const { items: wills, nextCursor } = pageOf(rows, page);
+
+    respond(res, 'getTestatorWills', { wills, nextCursor, total });
   } catch (error) {
     logger.error('Error fetching testator wills:', error);
     res.status(500).json({ error: 'Failed to fetch wills' });
@@ -61,8 +96,12 @@ willsRouter.get('/detail/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
+    if (!willIdSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid will id' });
+    }
+
     const will = await prisma.will.findUnique({
-      where: { id },
+      where: { id: willRowId(res.locals.chainId, id) },
       include: {
         beneficiaries: true,
         assets: true,
@@ -74,6 +113,11 @@ willsRouter.get('/detail/:id', async (req: Request, res: Response) => {
           include: { notary: true }
         },
         disputes: true,
+        guardians: true,
+        vestingReleases: {
+          orderBy: { releasedAt: 'desc' },
+        },
+        payouts: true,
       },
     });
 
@@ -81,74 +125,198 @@ willsRouter.get('/detail/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Will not found' });
     }
 
-    // Transform for JSON
-    const transformedWill = {
-      ...will,
-      onchainId: will.onchainId.toString(),
-      inactivityThreshold: will.inactivityThreshold.toString(),
-      gracePeriod: will.gracePeriod.toString(),
-      beneficiaries: will.beneficiaries.map(b => ({
-        ...b,
-        vestingDuration: b.vestingDuration?.toString(),
-        cliffDuration: b.cliffDuration?.toString(),
-      })),
-      assets: will.assets.map(a => ({
-        ...a,
-        tokenId: a.tokenId?.toString(),
-      })),
-    };
-
-    res.json({ will: transformedWill });
+    respond(res, 'getWill', { will });
   } catch (error) {
     logger.error('Error fetching will details:', error);
     res.status(500).json({ error: 'Failed to fetch will' });
   }
 });
 
-// GET /api/wills/:id/activity - Get activity timeline for a will
-willsRouter.get('/:id/activity', async (req: Request, res: Response) => {
+// GET /api/wills/:id/guardians - Get guardians and their recovery votes
+willsRouter.get('/:id/guardians', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { limit = '50', offset = '0' } = req.query;
 
-    const activities = await prisma.activity.findMany({
-      where: { willId: id },
-      orderBy: { timestamp: 'desc' },
-      take: parseInt(limit as string),
-      skip: parseInt(offset as string),
+    if (!willIdSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid will id' });
+    }
+
+    const guardians = await prisma.willGuardian.findMany({
+      where: { willId: willRowId(res.locals.chainId, id) },
+      orderBy: { addedAt: 'asc' },
     });
 
-    const total = await prisma.activity.count({
-      where: { willId: id },
+    respond(res, 'getWillGuardians', {
+      guardians,
+      recoveryVotes: guardians.filter(g => g.hasVotedForRecovery).length,
     });
+  } catch (error) {
+    logger.error('Error fetching will guardians:', error);
+    res.status(500).json({ error: 'Failed to fetch guardians' });
+  }
+});
+
+// GET /api/wills/:id/payouts - Get vesting releases and fee/reward payouts
+willsRouter.get('/:id/payouts', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!willIdSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid will id' });
+    }
+
+    const willId = willRowId(res.locals.chainId, id);
+
+    const [vestingReleases, payouts] = await Promise.all([
+      prisma.vestingRelease.findMany({
+        where: { willId },
+        orderBy: { releasedAt: 'desc' },
+      }),
+      prisma.willPayout.findMany({
+        where: { willId },
+        orderBy: { paidAt: 'desc' },
+      }),
+    ]);
+
+    respond(res, 'getWillPayouts', { vestingReleases, payouts });
+  } catch (error) {
+    logger.error('Error fetching will payouts:', error);
+    res.status(500).json({ error: 'Failed to fetch payouts' });
+  }
+});
+
+// GET /api/wills/guardian/:address - Get wills an address is a guardian of
+willsRouter.get('/guardian/:address', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
 
-    res.json({
-      activities,
-      pagination: {
-        total,
-        limit: parseInt(limit as string),
-        offset: parseInt(offset as string),
+    const result = addressSchema.safeParse(address);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid address format' });
+    }
+
+    const guardianships = await prisma.willGuardian.findMany({
+      where: { chainId: res.locals.chainId, guardianAddress: address.toLowerCase() },
+      include: {
+        will: {
+          select: {
+            id: true,
+            testatorAddress: true,
+            status: true,
+          },
+        },
       },
+      orderBy: { addedAt: 'desc' },
+    });
+
+    respond(res, 'getGuardedWills', {
+      wills: guardianships.map(g => ({
+        ...g.will,
+        hasVotedForRecovery: g.hasVotedForRecovery,
+        addedAt: g.addedAt,
+      })),
     });
+  } catch (error) {
+    logger.error('Error fetching guardian wills:', error);
+    res.status(500).json({ error: 'Failed to fetch wills' });
+  }
+});
+
+// GET /api/wills/:id/activity - Get activity timeline for a will, filtered by type and date
+willsRouter.get('/:id/activity', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!willIdSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid will id' });
+    }
+
+    const query = activityQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { type, ...page } = query.data;
+
+    const where: Prisma.ActivityWhereInput = {
+      willId: willRowId(res.locals.chainId, id),
+      type,
+      timestamp: dateFilter(page),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.activity.findMany({
+        where,
+        ...cursorArgs<Prisma.ActivityOrderByWithRelationInput>(page),
+      }),
+      prisma.activity.count({ where }),
+    ]);
+    const { items: activities, nextCursor } = pageOf(rows, page);
+
+    respond(res, 'getWillActivity', { activities, nextCursor, total });
   } catch (error) {
     logger.error('Error fetching will activity:', error);
     res.status(500).json({ error: 'Failed to fetch activity' });
   }
 });
 
+// GET /api/wills/:id/export - Download the will's activity timeline as CSV, JSON or a signed PDF summary
+willsRouter.get('/:id/export', requireSession, requestCost(10), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!willIdSchema.safeParse(id).success) {
+      return res.status(400).json({ error: 'Invalid will id' });
+    }
+
+    const query = willExportQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: queryError(query.error) });
+    }
+    const { format } = query.data;
+
+    if (format === 'pdf' && !canSignExports()) {
+      return res.status(503).json({ error: 'PDF exports are not configured' });
+    }
+
+    const will = await findExportableWill(willRowId(res.locals.chainId, id));
+    if (!will) {
+      return res.status(404).json({ error: 'Will not found' });
+    }
+
+    const signer: string = res.locals.signer;
+    if (!isWillParty(will, signer)) {
+      return res.status(403).json({ error: 'Only the testator, beneficiaries and notaries can export a will' });
+    }
+
+    const data = await buildWillExport(will, signer);
+    const filename = `basewill-${will.chainId}-${id}-activity.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (format === 'csv') {
+      res.type('text/csv').send(willExportCsv(data));
+    } else if (format === 'pdf') {
+      res.type('application/pdf').send(await willExportPdf(data));
+    } else {
+      res.json(data);
+    }
+  } catch (error) {
+    logger.error('Error exporting will activity:', error);
+    res.status(500).json({ error: 'Failed to export activity' });
+  }
+});
+
 // GET /api/wills/approaching-threshold - Get wills approaching inactivity threshold
-willsRouter.get('/status/approaching-threshold', async (req: Request, res: Response) => {
+willsRouter.get('/status/approaching-threshold', requestCost(20), async (req: Request, res: Response) => {
   try {
     const now = new Date();
     const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
 
     const wills = await prisma.will.findMany({
       where: {
+        chainId: res.locals.chainId,
         status: 'ACTIVE',
       },
-      include: {
-        testator: true,
-      },
     });
 
     // Filter wills approaching threshold
@@ -158,17 +326,14 @@ willsRouter.get('/status/approaching-threshold', async (req: Request, res: Respo
       return triggerTime <= thirtyDaysFromNow;
     });
 
-    const transformedWills = approachingWills.map(will => ({
-      ...will,
-      onchainId: will.onchainId.toString(),
-      inactivityThreshold: will.inactivityThreshold.toString(),
-      gracePeriod: will.gracePeriod.toString(),
-      triggerTime: new Date(
-        will.lastActivityTime.getTime() + Number(will.inactivityThreshold) * 1000
-      ),
-    }));
-
-    res.json({ wills: transformedWills });
+    respond(res, 'getApproachingWills', {
+      wills: approachingWills.map(will => ({
+        ...will,
+        triggerTime: new Date(
+          will.lastActivityTime.getTime() + Number(will.inactivityThreshold) * 1000
+        ),
+      })),
+    });
   } catch (error) {
     logger.error('Error fetching approaching wills:', error);
     res.status(500).json({ error: 'Failed to fetch wills' });
@@ -6,12 +6,13 @@ const prisma = new PrismaClient();
 // Redis or file-based queue for keeper alerts could be added here
 const KEEPER_WEBHOOK_URL = process.env.KEEPER_WEBHOOK_URL;
 
-export async function checkExecutableWills() {
+// The keeper is pointed at one contract per chain, so wills are checked and reported by chain
+export async function checkExecutableWills(chainId: number) {
   const now = new Date();
 
   // Find wills ready to be triggered (past inactivity threshold)
   const activeWills = await prisma.will.findMany({
-    where: { status: 'ACTIVE' },
+    where: { chainId, status: 'ACTIVE' },
   });
 
   const triggerable: string[] = [];
@@ -21,14 +22,14 @@ export async function checkExecutableWills() {
     const triggerTime = new Date(will.lastActivityTime.getTime() + thresholdMs);
 
     if (triggerTime <= now) {
-      triggerable.push(will.id);
+      triggerable.push(will.onchainId.toString());
       logger.info(`Will ${will.id} is ready to be triggered`);
     }
   }
 
   // Find wills ready to be executed (past grace period)
   const triggeredWills = await prisma.will.findMany({
-    where: { status: 'IN_GRACE_PERIOD' },
+    where: { chainId, status: 'IN_GRACE_PERIOD' },
   });
 
   const executable: string[] = [];
@@ -39,7 +40,7 @@ export async function checkExecutableWills() {
       const executeTime = new Date(will.triggeredAt.getTime() + gracePeriodMs);
 
       if (executeTime <= now) {
-        executable.push(will.id);
+        executable.push(will.onchainId.toString());
         logger.info(`Will ${will.id} is ready to be executed`);
       }
     }
@@ -47,13 +48,13 @@ export async function checkExecutableWills() {
 
   // Alert keeper bot if there are wills to process
   if ((triggerable.length > 0 || executable.length > 0) && KEEPER_WEBHOOK_URL) {
-    await alertKeeper(triggerable, executable);
+    await alertKeeper(chainId, triggerable, executable);
   }
 
   return { triggerable, executable };
 }
 
-async function alertKeeper(triggerable: string[], executable: string[]) {
+async function alertKeeper(chainId: number, triggerable: string[], executable: string[]) {
   if (!KEEPER_WEBHOOK_URL) {
     logger.warn('Keeper webhook URL not configured');
     return;
@@ -65,6 +66,7 @@ async function alertKeeper(triggerable: string[], executable: string[]) {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         timestamp: new Date().toISOString(),
+        chainId,
         willsToTrigger: triggerable,
         willsToExecute: executable,
       }),
@@ -1,9 +1,15 @@
 import cron from 'node-cron';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { cronJobDuration } from '../utils/metrics.js';
 import { sendDeadlineReminders } from '../notifications/service.js';
 import { checkExecutableWills } from './deadlines.js';
-import { updatePlatformStats } from './stats.js';
+import { snapshotPlatformStats } from './stats.js';
+import { retryDueDeadLetters } from '../indexer/deadLetter.js';
+import { reconcileWills } from './reconcile.js';
+import { deliverDueWebhooks } from '../webhooks/service.js';
+import { resolveNames } from './names.js';
+import { CHAIN_IDS } from '../indexer/config.js';
 
 const prisma = new PrismaClient();
 
@@ -12,44 +18,116 @@ export function startCronJobs() {
 
   // Check for deadline reminders every hour
   cron.schedule('0 * * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'deadline_reminders' });
     logger.info('Running deadline reminder check...');
     try {
       await sendDeadlineReminders();
       logger.info('Deadline reminder check completed');
+      endTimer({ outcome: 'success' });
     } catch (error) {
+      endTimer({ outcome: 'error' });
       logger.error('Error in deadline reminder check:', error);
     }
   });
 
   // Check for executable wills every 5 minutes
   cron.schedule('*/5 * * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'executable_wills' });
     logger.info('Checking for executable wills...');
     try {
-      await checkExecutableWills();
+      for (const chainId of CHAIN_IDS) {
+        await checkExecutableWills(chainId);
+      }
       logger.info('Executable wills check completed');
+      endTimer({ outcome: 'success' });
     } catch (error) {
+      endTimer({ outcome: 'error' });
       logger.error('Error checking executable wills:', error);
     }
   });
 
-  // Update platform stats every 15 minutes
-  cron.schedule('*/15 * * * *', async () => {
-    logger.info('Updating platform stats...');
+  // Snapshot platform stats for the day that just ended, shortly after midnight UTC
+  cron.schedule('5 0 * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'stats_snapshot' });
+    logger.info('Snapshotting platform stats...');
     try {
-      await updatePlatformStats();
-      logger.info('Platform stats updated');
+      for (const chainId of CHAIN_IDS) {
+        await snapshotPlatformStats(chainId);
+      }
+      logger.info('Platform stats snapshot completed');
+      endTimer({ outcome: 'success' });
     } catch (error) {
-      logger.error('Error updating platform stats:', error);
+      endTimer({ outcome: 'error' });
+      logger.error('Error snapshotting platform stats:', error);
+    }
+  }, { timezone: 'UTC' });
+
+  // Retry dead-lettered events every minute; each entry waits out its own backoff
+  cron.schedule('* * * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'dead_letter_retry' });
+    try {
+      for (const chainId of CHAIN_IDS) {
+        await retryDueDeadLetters(chainId);
+      }
+      endTimer({ outcome: 'success' });
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      logger.error('Error retrying dead-lettered events:', error);
+    }
+  });
+
+  // Send webhook deliveries that are due, including retries, every minute
+  cron.schedule('* * * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'webhook_delivery' });
+    try {
+      for (const chainId of CHAIN_IDS) {
+        await deliverDueWebhooks(chainId);
+      }
+      endTimer({ outcome: 'success' });
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      logger.error('Error delivering webhooks:', error);
+    }
+  });
+
+  // Resolve Basenames and ENS names for will search every 10 minutes
+  cron.schedule('*/10 * * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'resolve_names' });
+    try {
+      await resolveNames();
+      endTimer({ outcome: 'success' });
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      logger.error('Error resolving names:', error);
+    }
+  });
+
+  // Compare wills against the contract every hour
+  cron.schedule('45 * * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'reconcile' });
+    logger.info('Reconciling wills with chain state...');
+    try {
+      for (const chainId of CHAIN_IDS) {
+        await reconcileWills(chainId);
+      }
+      logger.info('Reconciliation completed');
+      endTimer({ outcome: 'success' });
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      logger.error('Error reconciling wills:', error);
     }
   });
 
   // Daily cleanup at 3 AM
   cron.schedule('0 3 * * *', async () => {
+    const endTimer = cronJobDuration.startTimer({ job: 'daily_cleanup' });
     logger.info('Running daily cleanup...');
     try {
       await dailyCleanup();
       logger.info('Daily cleanup completed');
+      endTimer({ outcome: 'success' });
     } catch (error) {
+      endTimer({ outcome: 'error' });
       logger.error('Error in daily cleanup:', error);
     }
   });
@@ -69,6 +147,16 @@ async function dailyCleanup() {
 
   logger.info(`Cleaned up ${deletedNotifications.count} old notifications`);
 
+  // Delivered webhooks stay in the delivery log for replay for 30 days
+  const deletedDeliveries = await prisma.webhookDelivery.deleteMany({
+    where: {
+      status: 'DELIVERED',
+      deliveredAt: { lt: thirtyDaysAgo },
+    },
+  });
+
+  logger.info(`Cleaned up ${deletedDeliveries.count} old webhook deliveries`);
+
   // Archive old activities (keep last 6 months)
   const sixMonthsAgo = new Date(Date.now() - 180 * 24 * 60 * 60 * 1000);
 
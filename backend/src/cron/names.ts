@@ -0,0 +1,70 @@
+import { PublicClient, createPublicClient, toCoinType } from 'viem';
+import { base, mainnet } from 'viem/chains';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { parseRpcUrls, rpcTransport } from '../shared/rpc.js';
+
+const prisma = new PrismaClient();
+
+// Names are looked up on Ethereum mainnet through ENS_RPC_URL; Basenames
+// resolve there too (ENSIP-19). Without the variable users keep no names.
+
+// Users resolved per run
+const BATCH_SIZE = 200;
+
+// Names can change, so they are looked up again after a week
+const REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+
+let client: PublicClient | null | undefined;
+
+function ensClient(): PublicClient | null {
+  if (client === undefined) {
+    const urls = parseRpcUrls(process.env.ENS_RPC_URL);
+    client = urls.length > 0 ? createPublicClient({ chain: mainnet, transport: rpcTransport(urls) }) : null;
+  }
+  return client;
+}
+
+// The address's primary Basename, or its ENS name when it has none. viem
+// checks that the name resolves back to the address.
+async function lookupName(ens: PublicClient, address: `0x${string}`): Promise<string | null> {
+  const basename = await ens.getEnsName({ address, coinType: toCoinType(base.id) });
+  return basename ?? ens.getEnsName({ address });
+}
+
+// Resolve names for users never looked up, or not looked up in a while
+export async function resolveNames() {
+  const ens = ensClient();
+  if (!ens) return;
+
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { nameResolvedAt: null },
+        { nameResolvedAt: { lt: new Date(Date.now() - REFRESH_MS) } },
+      ],
+    },
+    orderBy: { nameResolvedAt: { sort: 'asc', nulls: 'first' } },
+    take: BATCH_SIZE,
+    select: { id: true, address: true },
+  });
+
+  let named = 0;
+  for (const user of users) {
+    try {
+      const name = await lookupName(ens, user.address as `0x${string}`);
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { name: name?.toLowerCase() ?? null, nameResolvedAt: new Date() },
+      });
+      if (name) named++;
+    } catch (error) {
+      // Retried on the next run
+      logger.warn(`Failed to resolve a name for ${user.address}:`, error);
+    }
+  }
+
+  if (users.length > 0) {
+    logger.info(`Resolved names for ${users.length} users, ${named} with a name`);
+  }
+}
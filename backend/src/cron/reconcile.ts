@@ -0,0 +1,240 @@
+import { PrismaClient, Will, WillBeneficiary } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { baseWillAbi } from '../generated/abis.js';
+import { getChainConfig } from '../indexer/config.js';
+import { getClient, isDeployless } from '../indexer/client.js';
+import { journaledPrisma, runInBlock, inTransaction } from '../indexer/journal.js';
+import { VESTING_TYPES, WILL_STATUSES } from '../indexer/enums.js';
+
+// Chain-versus-database reconciliation
+//
+// Walks every Will row of a chain and compares its status, totalValue and beneficiaries
+// with getWillStatus, getWillValue and getBeneficiaries. Chain state is read at
+// the last indexed block so events the indexer hasn't reached yet don't show
+// up as drift. With auto-heal on, the projection is overwritten with the chain's
+// values, journaled against that block like any indexed write.
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+const AUTO_HEAL = process.env.RECONCILE_AUTO_HEAL === 'true';
+
+type WillWithBeneficiaries = Will & { beneficiaries: WillBeneficiary[] };
+
+interface Drift {
+  willId: string;
+  field: string;
+  expected: string | null;
+  actual: string | null;
+  heal: () => Promise<unknown>;
+}
+
+export async function reconcileWills(chainId: number, options: { autoHeal?: boolean } = {}) {
+  const autoHeal = options.autoHeal ?? AUTO_HEAL;
+
+  if (!getChainConfig(chainId).contractAddress) {
+    logger.warn(`Contract address not configured for chain ${chainId}, skipping reconciliation`);
+    return null;
+  }
+
+  const state = await prisma.indexerState.findUnique({ where: { chainId } });
+  const blockNumber = state?.lastIndexedBlock ?? BigInt(0);
+  if (blockNumber === BigInt(0)) {
+    logger.warn(`Nothing indexed yet on chain ${chainId}, skipping reconciliation`);
+    return null;
+  }
+
+  const run = await prisma.reconciliationRun.create({
+    data: { chainId, blockNumber, autoHeal },
+  });
+
+  let willsChecked = 0;
+  let driftCount = 0;
+  let cursor: string | undefined;
+
+  try {
+    while (true) {
+      const wills = await prisma.will.findMany({
+        where: { chainId },
+        include: { beneficiaries: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+
+      if (wills.length > 0) {
+        driftCount += await reconcileBatch(chainId, run.id, wills, blockNumber, autoHeal);
+        willsChecked += wills.length;
+      }
+
+      if (wills.length < BATCH_SIZE) break;
+      cursor = wills[wills.length - 1].id;
+    }
+  } catch (error) {
+    await prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        finishedAt: new Date(),
+        willsChecked,
+        driftCount,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+
+  const finished = await prisma.reconciliationRun.update({
+    where: { id: run.id },
+    data: { finishedAt: new Date(), willsChecked, driftCount },
+  });
+
+  if (driftCount > 0) {
+    logger.warn(`Reconciliation found ${driftCount} drift(s) across ${willsChecked} wills at block ${blockNumber} on chain ${chainId}`);
+  } else {
+    logger.info(`Reconciliation checked ${willsChecked} wills at block ${blockNumber} on chain ${chainId}, no drift`);
+  }
+
+  return finished;
+}
+
+async function reconcileBatch(
+  chainId: number,
+  runId: string,
+  wills: WillWithBeneficiaries[],
+  blockNumber: bigint,
+  autoHeal: boolean
+): Promise<number> {
+  const client = getClient(chainId);
+  const deployless = isDeployless(chainId);
+  const address = getChainConfig(chainId).contractAddress as `0x${string}`;
+  const willIds = wills.map(will => will.onchainId);
+
+  const [statuses, values, beneficiaryLists] = await Promise.all([
+    client.multicall({
+      contracts: willIds.map(willId => ({ address, abi: baseWillAbi, functionName: 'getWillStatus', args: [willId] }) as const),
+      allowFailure: false,
+      blockNumber,
+      deployless,
+    }),
+    client.multicall({
+      contracts: willIds.map(willId => ({ address, abi: baseWillAbi, functionName: 'getWillValue', args: [willId] }) as const),
+      allowFailure: false,
+      blockNumber,
+      deployless,
+    }),
+    client.multicall({
+      contracts: willIds.map(willId => ({ address, abi: baseWillAbi, functionName: 'getBeneficiaries', args: [willId] }) as const),
+      allowFailure: false,
+      blockNumber,
+      deployless,
+    }),
+  ]);
+
+  const drifts: Drift[] = [];
+
+  wills.forEach((will, i) => {
+    const [status] = statuses[i];
+    const [ethBalance] = values[i];
+
+    const chainStatus = WILL_STATUSES[status];
+    if (chainStatus !== will.status) {
+      drifts.push({
+        willId: will.id,
+        field: 'status',
+        expected: chainStatus,
+        actual: will.status,
+        heal: () => journaledPrisma.will.update({ where: { id: will.id }, data: { status: chainStatus } }),
+      });
+    }
+
+    // Executed wills keep the value they were executed with; the balance is paid out
+    if (chainStatus !== 'EXECUTED' && ethBalance.toString() !== will.totalValue) {
+      drifts.push({
+        willId: will.id,
+        field: 'totalValue',
+        expected: ethBalance.toString(),
+        actual: will.totalValue,
+        heal: () => journaledPrisma.will.update({ where: { id: will.id }, data: { totalValue: ethBalance.toString() } }),
+      });
+    }
+
+    const onchain = new Map(beneficiaryLists[i].map(b => [b.beneficiaryAddress.toLowerCase(), b]));
+    const stored = new Map(will.beneficiaries.map(b => [b.beneficiaryAddress, b]));
+
+    for (const beneficiaryAddress of new Set([...onchain.keys(), ...stored.keys()])) {
+      const chainEntry = onchain.get(beneficiaryAddress);
+      const dbEntry = stored.get(beneficiaryAddress);
+      const expected = chainEntry ? chainEntry.allocationBps.toString() : null;
+      const actual = dbEntry ? dbEntry.allocationBps.toString() : null;
+      if (expected === actual) continue;
+
+      const where = { willId: will.id, beneficiaryAddress };
+      drifts.push({
+        willId: will.id,
+        field: `beneficiary:${beneficiaryAddress}`,
+        expected,
+        actual,
+        heal: async () => {
+          if (!chainEntry) {
+            await journaledPrisma.willBeneficiary.deleteMany({ where });
+          } else if (dbEntry) {
+            await journaledPrisma.willBeneficiary.updateMany({
+              where,
+              data: { allocationBps: Number(chainEntry.allocationBps) },
+            });
+          } else {
+            await journaledPrisma.user.upsert({
+              where: { address: beneficiaryAddress },
+              update: {},
+              create: { address: beneficiaryAddress },
+            });
+            await journaledPrisma.willBeneficiary.create({
+              data: {
+                ...where,
+                chainId,
+                allocationBps: Number(chainEntry.allocationBps),
+                vestingType: VESTING_TYPES[chainEntry.vestingSchedule.vestingType],
+                vestingDuration: chainEntry.vestingSchedule.duration,
+                cliffDuration: chainEntry.vestingSchedule.cliffDuration,
+                isPrimary: chainEntry.isPrimary,
+                labelHash: chainEntry.labelHash,
+                hasAccepted: chainEntry.hasAccepted,
+              },
+            });
+          }
+        },
+      });
+    }
+  });
+
+  if (drifts.length === 0) return 0;
+
+  // Healing with reads from an older block would undo what the indexer just applied
+  let healed = false;
+  if (autoHeal) {
+    const state = await prisma.indexerState.findUnique({ where: { chainId } });
+    if (state?.lastIndexedBlock === blockNumber) {
+      await runInBlock(chainId, blockNumber, () => inTransaction(async () => {
+        for (const drift of drifts) {
+          await drift.heal();
+        }
+      }));
+      healed = true;
+    } else {
+      logger.warn('Indexer moved past the reconciled block, leaving drift unhealed');
+    }
+  }
+
+  await prisma.reconciliationDrift.createMany({
+    data: drifts.map(({ willId, field, expected, actual }) => ({
+      runId,
+      willId,
+      field,
+      expected,
+      actual,
+      healed,
+    })),
+  });
+
+  return drifts.length;
+}
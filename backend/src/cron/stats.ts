@@ -1,30 +1,32 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { emptyBuckets, toRecord, valueBucket } from '../indexer/platformStats.js';
 
 const prisma = new PrismaClient();
 
-export async function updatePlatformStats() {
+// Recount platform stats from the will and notary tables. Events keep them up
+// to date incrementally, so this only runs after a rollback or rebuild.
+export async function updatePlatformStats(chainId: number) {
   try {
     // Count wills by status
-    const [totalCreated, active, executed, cancelled, disputed] = await Promise.all([
-      prisma.will.count(),
-      prisma.will.count({ where: { status: 'ACTIVE' } }),
-      prisma.will.count({ where: { status: 'EXECUTED' } }),
-      prisma.will.count({ where: { status: 'CANCELLED' } }),
-      prisma.will.count({ where: { status: 'DISPUTED' } }),
+    const [totalCreated, active, executed, cancelled] = await Promise.all([
+      prisma.will.count({ where: { chainId } }),
+      prisma.will.count({ where: { chainId, status: 'ACTIVE' } }),
+      prisma.will.count({ where: { chainId, status: 'EXECUTED' } }),
+      prisma.will.count({ where: { chainId, status: 'CANCELLED' } }),
     ]);
 
     // Count notaries
-    const notaries = await prisma.notary.count({ where: { isActive: true } });
+    const notaries = await prisma.notary.count({ where: { chainId, isActive: true } });
 
     // Calculate total values
     const activeWills = await prisma.will.findMany({
-      where: { status: 'ACTIVE' },
+      where: { chainId, status: 'ACTIVE' },
       select: { totalValue: true },
     });
 
     const executedWills = await prisma.will.findMany({
-      where: { status: 'EXECUTED' },
+      where: { chainId, status: 'EXECUTED' },
       select: { totalValue: true },
     });
 
@@ -38,51 +40,80 @@ export async function updatePlatformStats() {
       BigInt(0)
     );
 
+    const activeValueBuckets = emptyBuckets();
+    for (const will of activeWills) {
+      activeValueBuckets[valueBucket(BigInt(will.totalValue || '0'))]++;
+    }
+
+    const data = toRecord({
+      totalWillsCreated: totalCreated,
+      activeWills: active,
+      executedWills: executed,
+      cancelledWills: cancelled,
+      registeredNotaries: notaries,
+      totalValueSecured,
+      totalDistributed,
+      activeValueBuckets,
+    });
+
     // Update stats
     await prisma.platformStats.upsert({
-      where: { id: 'singleton' },
-      update: {
-        totalWillsCreated: totalCreated,
-        activeWills: active,
-        executedWills: executed,
-        cancelledWills: cancelled,
-        registeredNotaries: notaries,
-        totalValueSecured: totalValueSecured.toString(),
-        totalDistributed: totalDistributed.toString(),
-      },
-      create: {
-        id: 'singleton',
-        totalWillsCreated: totalCreated,
-        activeWills: active,
-        executedWills: executed,
-        cancelledWills: cancelled,
-        registeredNotaries: notaries,
-        totalValueSecured: totalValueSecured.toString(),
-        totalDistributed: totalDistributed.toString(),
-      },
+      where: { chainId },
+      update: data,
+      create: { chainId, ...data },
     });
 
-    logger.info(`Platform stats updated: ${totalCreated} wills, ${active} active, ${totalValueSecured} secured`);
+    logger.info(`Platform stats recounted for chain ${chainId}: ${totalCreated} wills, ${active} active, ${totalValueSecured} secured`);
   } catch (error) {
     logger.error('Error updating platform stats:', error);
     throw error;
   }
 }
 
+// Store the current stats as the snapshot of the UTC day that just ended.
+// Runs shortly after midnight; running again the same day overwrites it.
+export async function snapshotPlatformStats(chainId: number) {
+  const stats = await prisma.platformStats.findUnique({ where: { chainId } });
+  if (!stats) return;
+
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const date = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+
+  const data = {
+    totalWillsCreated: stats.totalWillsCreated,
+    activeWills: stats.activeWills,
+    executedWills: stats.executedWills,
+    cancelledWills: stats.cancelledWills,
+    totalValueSecured: stats.totalValueSecured,
+    totalDistributed: stats.totalDistributed,
+    registeredNotaries: stats.registeredNotaries,
+    activeValueBuckets: stats.activeValueBuckets ?? {},
+  };
+  await prisma.platformStatsSnapshot.upsert({
+    where: { chainId_date: { chainId, date } },
+    update: data,
+    create: { chainId, date, ...data },
+  });
+
+  logger.info(`Stored platform stats snapshot for ${date.toISOString().split('T')[0]} on chain ${chainId}`);
+}
+
 // Calculate additional metrics for analytics
-export async function getDetailedStats() {
+export async function getDetailedStats(chainId: number) {
   const now = new Date();
   const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
   const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
   // Wills created in time periods
   const [willsLast7Days, willsLast30Days] = await Promise.all([
-    prisma.will.count({ where: { createdAt: { gte: sevenDaysAgo } } }),
-    prisma.will.count({ where: { createdAt: { gte: thirtyDaysAgo } } }),
+    prisma.will.count({ where: { chainId, createdAt: { gte: sevenDaysAgo } } }),
+    prisma.will.count({ where: { chainId, createdAt: { gte: thirtyDaysAgo } } }),
   ]);
 
   // Average will value
   const allWills = await prisma.will.findMany({
+    where: { chainId },
     select: { totalValue: true },
   });
 
@@ -93,21 +124,24 @@ export async function getDetailedStats() {
   const avgValue = allWills.length > 0 ? totalValue / BigInt(allWills.length) : BigInt(0);
 
   // Beneficiary stats
-  const totalBeneficiaries = await prisma.willBeneficiary.count();
+  const totalBeneficiaries = await prisma.willBeneficiary.count({ where: { chainId } });
   const uniqueBeneficiaries = await prisma.willBeneficiary.groupBy({
     by: ['beneficiaryAddress'],
+    where: { chainId },
   });
 
   // Activity stats
   const [checkInsLast7Days, checkInsLast30Days] = await Promise.all([
     prisma.activity.count({
       where: {
+        chainId,
         type: 'CHECK_IN',
         timestamp: { gte: sevenDaysAgo },
       },
     }),
     prisma.activity.count({
       where: {
+        chainId,
         type: 'CHECK_IN',
         timestamp: { gte: thirtyDaysAgo },
       },
@@ -115,13 +149,14 @@ export async function getDetailedStats() {
   ]);
 
   // Execution rate
-  const executedCount = await prisma.will.count({ where: { status: 'EXECUTED' } });
-  const cancelledCount = await prisma.will.count({ where: { status: 'CANCELLED' } });
+  const executedCount = await prisma.will.count({ where: { chainId, status: 'EXECUTED' } });
+  const cancelledCount = await prisma.will.count({ where: { chainId, status: 'CANCELLED' } });
   const completedWills = executedCount + cancelledCount;
   const executionRate = completedWills > 0 ? (executedCount / completedWills) * 100 : 0;
 
   // Notary stats
   const notaryStats = await prisma.notary.aggregate({
+    where: { chainId },
     _avg: { reputation: true },
     _sum: { totalVerifications: true },
   });
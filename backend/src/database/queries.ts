@@ -1,4 +1,4 @@
-import { PrismaClient, WillStatus } from '@prisma/client';
+import { Prisma, PrismaClient, WillStatus } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -45,9 +45,9 @@ export async function getWillsReadyToExecute() {
 }
 
 // Get will by onchain ID
-export async function getWillByOnchainId(onchainId: bigint) {
+export async function getWillByOnchainId(chainId: number, onchainId: bigint) {
   return prisma.will.findUnique({
-    where: { onchainId },
+    where: { chainId_onchainId: { chainId, onchainId } },
     include: {
       beneficiaries: true,
       assets: true,
@@ -116,8 +116,21 @@ export async function getNotaryPendingVerifications(address: string) {
   return assignments.filter(a => !verifiedWillIds.has(a.willId));
 }
 
+// Notaries of a will. BaseWill keeps notary assignments to itself and emits
+// no event for them, so these are the notaries that submitted a verification.
+export async function getWillNotaries(willId: string): Promise<string[]> {
+  const verifications = await prisma.notaryVerification.findMany({
+    where: { willId },
+    select: { notaryAddr: true },
+    distinct: ['notaryAddr'],
+    orderBy: { notaryAddr: 'asc' },
+  });
+  return verifications.map(v => v.notaryAddr);
+}
+
 // Record a new activity
 export async function recordActivity(
+  chainId: number,
   willId: string,
   type: string,
   txHash?: string,
@@ -125,6 +138,7 @@ export async function recordActivity(
 ) {
   return prisma.activity.create({
     data: {
+      chainId,
       willId,
       type: type as any,
       timestamp: new Date(),
@@ -151,23 +165,103 @@ export async function getRecentActivity(limit: number = 20) {
   });
 }
 
-// Search wills by testator or beneficiary
-export async function searchWills(query: string) {
-  const address = query.toLowerCase();
-
-  const [asTestator, asBeneficiary] = await Promise.all([
-    prisma.will.findMany({
-      where: { testatorAddress: address },
-      include: { beneficiaries: true },
-    }),
-    prisma.willBeneficiary.findMany({
-      where: { beneficiaryAddress: address },
-      include: { will: true },
-    }),
+export interface WillSearch {
+  chainId: number;
+  q?: string;
+  status?: WillStatus;
+  minValue?: string;
+  maxValue?: string;
+  // Signed-in address; testators find their own private wills
+  viewer: string | null;
+  limit: number;
+  cursor?: string;
+  sort: 'createdAt' | 'totalValue' | 'onchainId';
+  order: 'asc' | 'desc';
+}
+
+// Sort keys by table alias; totalValue is stored as a decimal string
+function sortKey(alias: string, sort: WillSearch['sort']) {
+  const column = sort === 'totalValue' ? `${alias}."totalValue"::numeric` : `${alias}."${sort}"`;
+  return Prisma.raw(column);
+}
+
+// LIKE pattern matching term literally
+function likeTerm(term: string): string {
+  return term.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Ids and addresses match by prefix, names anywhere. Beneficiaries of wills
+// that keep them private are not searched unless the viewer is the testator.
+function textMatch(q: string, viewer: string | null) {
+  const term = likeTerm(q.toLowerCase());
+  const prefix = `${term}%`;
+  const anywhere = `%${term}%`;
+
+  const testator = [Prisma.sql`t.name LIKE ${anywhere}`];
+  const beneficiary = [Prisma.sql`u.name LIKE ${anywhere}`];
+  if (/^0x[0-9a-f]{1,40}$/.test(q.toLowerCase())) {
+    testator.push(Prisma.sql`w."testatorAddress" LIKE ${prefix}`);
+    beneficiary.push(Prisma.sql`b."beneficiaryAddress" LIKE ${prefix}`);
+  }
+
+  const conditions = [
+    ...testator,
+    Prisma.sql`((w."privacyMode" = 'PUBLIC' OR w."testatorAddress" = ${viewer}) AND EXISTS (
+      SELECT 1 FROM "WillBeneficiary" b
+      LEFT JOIN "User" u ON u.address = b."beneficiaryAddress"
+      WHERE b."willId" = w.id AND (${Prisma.join(beneficiary, ' OR ')})
+    ))`,
+  ];
+  if (/^\d+$/.test(q)) {
+    conditions.push(Prisma.sql`CAST(w."onchainId" AS TEXT) LIKE ${prefix}`);
+  }
+
+  return Prisma.sql`(${Prisma.join(conditions, ' OR ')})`;
+}
+
+// Search wills on a chain. Fully private wills are left out unless the viewer
+// is their testator. Returns up to limit + 1 wills in page order (see pageOf).
+export async function searchWills(search: WillSearch) {
+  const { chainId, q, status, minValue, maxValue, viewer, limit, cursor, sort, order } = search;
+
+  const filters = [
+    Prisma.sql`w."chainId" = ${chainId}`,
+    Prisma.sql`(w."privacyMode" <> 'FULLY_ENCRYPTED' OR w."testatorAddress" = ${viewer})`,
+  ];
+  if (status) filters.push(Prisma.sql`w.status::text = ${status}`);
+  if (minValue) filters.push(Prisma.sql`w."totalValue"::numeric >= CAST(${minValue} AS NUMERIC)`);
+  if (maxValue) filters.push(Prisma.sql`w."totalValue"::numeric <= CAST(${maxValue} AS NUMERIC)`);
+  if (q) filters.push(textMatch(q, viewer));
+
+  const from = Prisma.sql`FROM "Will" w LEFT JOIN "User" t ON t.address = w."testatorAddress"`;
+  const where = Prisma.join(filters, ' AND ');
+  const direction = Prisma.raw(order === 'asc' ? 'ASC' : 'DESC');
+
+  // Resume after the cursor will in the same order, the id breaking ties
+  const after = cursor
+    ? Prisma.sql`AND (${sortKey('w', sort)}, w.id) ${Prisma.raw(order === 'asc' ? '>' : '<')}
+        (SELECT ${sortKey('c', sort)}, c.id FROM "Will" c WHERE c.id = ${cursor})`
+    : Prisma.empty;
+
+  const [matches, [{ count }]] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>`
+      SELECT w.id ${from} WHERE ${where} ${after}
+      ORDER BY ${sortKey('w', sort)} ${direction}, w.id ${direction}
+      LIMIT ${limit + 1}`,
+    prisma.$queryRaw<{ count: bigint }[]>`SELECT COUNT(*) AS count ${from} WHERE ${where}`,
   ]);
 
+  const rows = await prisma.will.findMany({
+    where: { id: { in: matches.map(match => match.id) } },
+    include: {
+      testator: { select: { name: true } },
+      beneficiaries: { include: { beneficiary: { select: { name: true } } } },
+    },
+  });
+  const byId = new Map(rows.map(row => [row.id, row]));
+
   return {
-    asTestator,
-    asBeneficiary,
+    wills: matches.flatMap(match => byId.get(match.id) ?? []),
+    total: Number(count),
   };
 }
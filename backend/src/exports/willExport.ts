@@ -0,0 +1,239 @@
+import { createHash } from 'node:crypto';
+import PDFDocument from 'pdfkit';
+import { PrivateKeyAccount, formatEther, isAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { PrismaClient } from '@prisma/client';
+import { WillExport } from '../shared/api.js';
+import { getWillNotaries } from '../database/queries.js';
+
+// Will activity exports
+//
+// Parties to a will can download its whole activity timeline. The JSON and the
+// PDF carry a signature by EXPORT_SIGNING_KEY over a SHA-256 digest of the
+// exported will and activities, so a printed summary can be checked against
+// the JSON export of the same moment.
+
+const prisma = new PrismaClient();
+
+let account: PrivateKeyAccount | null | undefined;
+
+function exportSigner(): PrivateKeyAccount | null {
+  if (account === undefined) {
+    const key = process.env.EXPORT_SIGNING_KEY;
+    account = key ? privateKeyToAccount(key as `0x${string}`) : null;
+  }
+  return account;
+}
+
+export function canSignExports(): boolean {
+  return exportSigner() !== null;
+}
+
+// The will with everything needed to export it and check who may
+export async function findExportableWill(id: string) {
+  const [will, notaries] = await Promise.all([
+    prisma.will.findUnique({
+      where: { id },
+      include: {
+        beneficiaries: { select: { beneficiaryAddress: true, allocationBps: true } },
+      },
+    }),
+    getWillNotaries(id),
+  ]);
+  return will && { ...will, notaries };
+}
+
+type ExportableWill = NonNullable<Awaited<ReturnType<typeof findExportableWill>>>;
+
+// Testators, beneficiaries and the will's notaries may export a will
+export function isWillParty(will: ExportableWill, address: string): boolean {
+  return will.testatorAddress === address
+    || will.beneficiaries.some(b => b.beneficiaryAddress === address)
+    || will.notaries.includes(address);
+}
+
+// The beneficiary an activity is about, if any (additions, acceptances,
+// distributions and claims)
+function activityBeneficiary(details: unknown): string | undefined {
+  if (!details || typeof details !== 'object') return undefined;
+  const { beneficiary } = details as Record<string, unknown>;
+  return typeof beneficiary === 'string' ? beneficiary.toLowerCase() : undefined;
+}
+
+// Every address in an activity's details, whatever its key
+function detailAddresses(details: unknown): string[] {
+  if (typeof details === 'string') return isAddress(details, { strict: false }) ? [details.toLowerCase()] : [];
+  if (Array.isArray(details)) return details.flatMap(detailAddresses);
+  if (details && typeof details === 'object') return Object.values(details).flatMap(detailAddresses);
+  return [];
+}
+
+// Build the export for `viewer`. Unless the will is public, beneficiaries other
+// than the viewer, and every activity naming one of them in its details, are
+// left out for anyone but the testator.
+export async function buildWillExport(will: ExportableWill, viewer: string): Promise<WillExport> {
+  const activities = await prisma.activity.findMany({
+    where: { willId: will.id },
+    orderBy: [{ timestamp: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const showAll = will.privacyMode === 'PUBLIC' || will.testatorAddress === viewer;
+  // Other beneficiaries, current or removed since, whom the viewer may not see
+  const hidden = new Set<string>();
+  if (!showAll) {
+    will.beneficiaries.forEach(b => hidden.add(b.beneficiaryAddress));
+    activities.forEach(activity => {
+      const beneficiary = activityBeneficiary(activity.details);
+      if (beneficiary) hidden.add(beneficiary);
+    });
+    hidden.delete(viewer);
+  }
+
+  const content = {
+    will: {
+      chainId: will.chainId,
+      onchainId: will.onchainId.toString(),
+      testatorAddress: will.testatorAddress,
+      status: will.status,
+      totalValue: will.totalValue,
+      createdAt: will.createdAt.toISOString(),
+      beneficiaries: will.beneficiaries
+        .filter(b => showAll || b.beneficiaryAddress === viewer)
+        .map(b => ({ address: b.beneficiaryAddress, allocationBps: b.allocationBps })),
+      notaries: will.notaries,
+    },
+    activities: activities
+      .filter(activity => !detailAddresses(activity.details).some(address => hidden.has(address)))
+      .map(activity => ({
+        id: activity.id,
+        type: activity.type,
+        timestamp: activity.timestamp.toISOString(),
+        txHash: activity.txHash,
+        details: activity.details,
+      })),
+  };
+
+  const generatedAt = new Date().toISOString();
+  const digest = `0x${createHash('sha256').update(JSON.stringify(content)).digest('hex')}`;
+
+  const signer = exportSigner();
+  let signature: WillExport['signature'] = null;
+  if (signer) {
+    const message = [
+      'BaseWill activity export',
+      `Chain: ${will.chainId}`,
+      `Will: ${content.will.onchainId}`,
+      `Activities: ${content.activities.length}`,
+      `Generated: ${generatedAt}`,
+      `SHA-256: ${digest}`,
+    ].join('\n');
+    signature = { signer: signer.address, message, signature: await signer.signMessage({ message }) };
+  }
+
+  return { generatedAt, ...content, digest, signature };
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function willExportCsv(data: WillExport): string {
+  const rows = [
+    ['id', 'timestamp', 'type', 'txHash', 'details'],
+    ...data.activities.map(activity => [
+      activity.id,
+      activity.timestamp,
+      activity.type,
+      activity.txHash ?? '',
+      activity.details == null ? '' : JSON.stringify(activity.details),
+    ]),
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// WILL_TRIGGERED -> Will triggered
+function activityLabel(type: string): string {
+  const words = type.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function utc(iso: string): string {
+  return `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function detailsLine(details: unknown): string | null {
+  if (!details || typeof details !== 'object') return null;
+  const entries = Object.entries(details as Record<string, unknown>);
+  return entries.length > 0 ? entries.map(([key, value]) => `${key}: ${String(value)}`).join(', ') : null;
+}
+
+// Printable summary of a signed export
+export function willExportPdf(data: WillExport): Promise<Buffer> {
+  const { will } = data;
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 50,
+    info: { Title: `BaseWill will #${will.onchainId} activity`, Author: 'BaseWill' },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.font('Helvetica-Bold').fontSize(18).text(`Will #${will.onchainId} activity summary`);
+  doc.font('Helvetica').fontSize(9).fillColor('gray').text(`Chain ${will.chainId}, generated ${utc(data.generatedAt)}`);
+  doc.moveDown();
+
+  doc.fillColor('black').fontSize(10);
+  doc.text(`Testator: ${will.testatorAddress}`);
+  doc.text(`Status: ${activityLabel(will.status)}`);
+  doc.text(`Total value: ${formatEther(BigInt(will.totalValue))} ETH`);
+  doc.text(`Created: ${utc(will.createdAt)}`);
+  for (const beneficiary of will.beneficiaries) {
+    doc.text(`Beneficiary: ${beneficiary.address} (${beneficiary.allocationBps / 100}%)`);
+  }
+  for (const notary of will.notaries) {
+    doc.text(`Notary: ${notary}`);
+  }
+  doc.moveDown();
+
+  doc.font('Helvetica-Bold').fontSize(13).text('Timeline');
+  doc.moveDown(0.5);
+  if (data.activities.length === 0) {
+    doc.font('Helvetica').fontSize(10).text('No activity recorded.');
+  }
+  for (const activity of data.activities) {
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('black')
+      .text(`${utc(activity.timestamp)}  ${activityLabel(activity.type)}`);
+    if (activity.txHash) {
+      doc.font('Courier').fontSize(8).text(`tx ${activity.txHash}`);
+    }
+    const details = detailsLine(activity.details);
+    if (details) {
+      doc.font('Helvetica').fontSize(8).fillColor('gray').text(details);
+    }
+    doc.moveDown(0.5);
+  }
+
+  doc.moveDown();
+  doc.font('Helvetica-Bold').fontSize(13).fillColor('black').text('Signature');
+  doc.moveDown(0.5);
+  doc.font('Helvetica').fontSize(9).text(
+    'The message below was signed with the BaseWill export key (EIP-191 personal_sign). '
+    + 'Its SHA-256 digest covers the will and activities exactly as the JSON export lists them.',
+  );
+  doc.moveDown(0.5);
+  if (data.signature) {
+    doc.font('Courier').fontSize(8);
+    doc.text(data.signature.message);
+    doc.moveDown(0.5);
+    doc.text(`Signer: ${data.signature.signer}`);
+    doc.text(`Signature: ${data.signature.signature}`);
+  }
+
+  doc.end();
+  return done;
+}
@@ -5,9 +5,12 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 import { logger } from './utils/logger.js';
+import { getIndexerLag, registry } from './utils/metrics.js';
 import { apiRouter } from './api/index.js';
 import { startIndexer } from './indexer/index.js';
+import { CHAIN_IDS } from './indexer/config.js';
 import { startCronJobs } from './cron/index.js';
+import { updatePlatformStats } from './cron/stats.js';
 
 dotenv.config();
 
@@ -15,6 +18,12 @@ const app = express();
 const prisma = new PrismaClient();
 const PORT = process.env.PORT || 3001;
 
+// Behind a load balancer, req.ip (which rate limits key on) must come from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy);
+}
+
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -26,13 +35,49 @@ app.use(morgan('combined', {
   stream: { write: (message: string) => logger.info(message.trim()) }
 }));
 
+// Finalized blocks the indexer may trail the head by before /health reports degraded
+const INDEXER_LAG_THRESHOLD = BigInt(process.env.INDEXER_LAG_THRESHOLD || '100');
+
 // Health check
 app.get('/health', async (req, res) => {
   try {
     await prisma.$queryRaw`SELECT 1`;
-    res.json({ status: 'healthy', timestamp: new Date().toISOString() });
   } catch (error) {
-    res.status(500).json({ status: 'unhealthy', error: 'Database connection failed' });
+    return res.status(500).json({ status: 'unhealthy', error: 'Database connection failed' });
+  }
+
+  try {
+    // Degraded still answers 200: the API works, only indexed data is stale
+    // A missing or stale head counts as degraded: the lag can't be trusted
+    const chains = (await getIndexerLag()).map(({ chainId, headBlock, headSeenAt, lastBlockNumber, lag, stale }) => ({
+      chainId,
+      headBlock: headBlock?.toString() ?? null,
+      headSeenAt: headSeenAt?.toISOString() ?? null,
+      lastBlockNumber: lastBlockNumber.toString(),
+      lag: lag?.toString() ?? null,
+      lagging: lag !== null && lag > INDEXER_LAG_THRESHOLD,
+      stale,
+    }));
+
+    res.json({
+      status: chains.some(chain => chain.lagging || chain.stale) ? 'degraded' : 'healthy',
+      timestamp: new Date().toISOString(),
+      indexer: chains,
+    });
+  } catch (error) {
+    logger.error('Error checking indexer lag:', error);
+    res.status(500).json({ status: 'unhealthy', error: 'Failed to check indexer lag' });
+  }
+});
+
+// Prometheus metrics
+app.get('/metrics', async (req, res) => {
+  try {
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    logger.error('Error collecting metrics:', error);
+    res.status(500).end();
   }
 });
 
@@ -52,19 +97,17 @@ async function main() {
     await prisma.$connect();
     logger.info('Connected to database');
 
-    // Initialize platform stats if not exists
-    await prisma.platformStats.upsert({
-      where: { id: 'singleton' },
-      update: {},
-      create: { id: 'singleton' },
-    });
+    for (const chainId of CHAIN_IDS) {
+      // Count platform stats once; applied events keep them current afterwards
+      await updatePlatformStats(chainId);
 
-    // Initialize indexer state if not exists
-    await prisma.indexerState.upsert({
-      where: { id: 'singleton' },
-      update: {},
-      create: { id: 'singleton', lastBlockNumber: BigInt(0) },
-    });
+      // Initialize indexer state if not exists
+      await prisma.indexerState.upsert({
+        where: { chainId },
+        update: {},
+        create: { chainId, lastBlockNumber: BigInt(0) },
+      });
+    }
 
     // Start the server
     app.listen(PORT, () => {
@@ -0,0 +1,31 @@
+import { Log } from 'viem';
+import { getClient } from './client.js';
+
+// Block timestamps keyed by chain and block hash, so a reorged block never reuses a stale entry
+const MAX_CACHED_BLOCKS = 1000;
+const timestampCache = new Map<string, Date>();
+
+// On-chain time of the block that emitted the log
+export async function getBlockTime(chainId: number, log: Log): Promise<Date> {
+  const key = `${chainId}:${log.blockHash ?? `number:${log.blockNumber}`}`;
+
+  const cached = timestampCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const client = getClient(chainId);
+  const block = log.blockHash
+    ? await client.getBlock({ blockHash: log.blockHash })
+    : await client.getBlock({ blockNumber: log.blockNumber ?? undefined });
+
+  const blockTime = new Date(Number(block.timestamp) * 1000);
+
+  // Maps iterate in insertion order, so the first key is the oldest
+  if (timestampCache.size >= MAX_CACHED_BLOCKS) {
+    timestampCache.delete(timestampCache.keys().next().value as string);
+  }
+  timestampCache.set(key, blockTime);
+
+  return blockTime;
+}
@@ -0,0 +1,38 @@
+import { PublicClient, Transport, createPublicClient } from 'viem';
+import { rpcTransport } from '../shared/rpc.js';
+import { rpcErrors } from '../utils/metrics.js';
+import { getChainConfig } from './config.js';
+
+const clients = new Map<number, PublicClient>();
+
+// One client per indexed chain, created on first use
+export function getClient(chainId: number): PublicClient {
+  let client = clients.get(chainId);
+  if (!client) {
+    const { chain, rpcUrls } = getChainConfig(chainId);
+    client = createPublicClient({ chain, transport: countErrors(chainId, rpcTransport(rpcUrls)) });
+    clients.set(chainId, client);
+  }
+  return client;
+}
+
+// Count requests that still fail after the transport's retries and failover
+function countErrors(chainId: number, transport: Transport): Transport {
+  return (params) => {
+    const instance = transport(params);
+    const request: typeof instance.request = async (args, options) => {
+      try {
+        return await instance.request(args, options);
+      } catch (error) {
+        rpcErrors.inc({ chain_id: chainId, method: args.method });
+        throw error;
+      }
+    };
+    return { ...instance, request };
+  };
+}
+
+// Local chains have no Multicall3 deployment, so multicalls there go deployless
+export function isDeployless(chainId: number): boolean {
+  return !getChainConfig(chainId).chain.contracts?.multicall3;
+}
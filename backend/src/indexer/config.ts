@@ -1,180 +1,129 @@
 // Contract configuration for the indexer
 
-export const CONTRACT_ADDRESS = process.env.BASEWILL_CONTRACT_ADDRESS || '';
-export const NOTARY_REGISTRY_ADDRESS = process.env.NOTARY_REGISTRY_ADDRESS || '';
-
-// BaseWill ABI - Events and key functions
-export const BASE_WILL_ABI = [
-  // Events
-  {
-    type: 'event',
-    name: 'WillCreated',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'testator', type: 'address', indexed: true },
-      { name: 'inactivityThreshold', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'WillUpdated',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'WillCancelled',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'BeneficiaryAdded',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'beneficiary', type: 'address', indexed: true },
-      { name: 'allocationBps', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'BeneficiaryRemoved',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'beneficiary', type: 'address', indexed: true },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'BeneficiaryUpdated',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'beneficiary', type: 'address', indexed: true },
-      { name: 'newAllocationBps', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'ActivityRecorded',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'timestamp', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'CheckIn',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'by', type: 'address', indexed: true },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'WillTriggered',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'gracePeriodEnd', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'TriggerCancelled',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'WillExecuted',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'totalDistributed', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'AssetDistributed',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'beneficiary', type: 'address', indexed: true },
-      { name: 'amount', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'AssetClaimed',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'beneficiary', type: 'address', indexed: true },
-      { name: 'amount', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'NotaryAssigned',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'notary', type: 'address', indexed: true },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'NotaryVerificationSubmitted',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'notary', type: 'address', indexed: true },
-      { name: 'verified', type: 'bool', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'EmergencyWithdrawalInitiated',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'cooldownEnd', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'EmergencyWithdrawalCompleted',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'DisputeFiled',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'filer', type: 'address', indexed: true },
-      { name: 'reason', type: 'string', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'DisputeResolved',
-    inputs: [
-      { name: 'willId', type: 'uint256', indexed: true },
-      { name: 'inFavor', type: 'bool', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'NotaryRegistered',
-    inputs: [
-      { name: 'notary', type: 'address', indexed: true },
-      { name: 'stake', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'NotarySlashed',
-    inputs: [
-      { name: 'notary', type: 'address', indexed: true },
-      { name: 'slashedAmount', type: 'uint256', indexed: false },
-    ],
-  },
+import { Chain, ContractEventName } from 'viem';
+import { base, baseSepolia, hardhat } from 'viem/chains';
+import { baseWillAbi, notaryRegistryAbi } from '../generated/abis.js';
+import { parseRpcUrls } from '../shared/rpc.js';
+
+// Chains to index, e.g. CHAIN_IDS=8453,84532 for Base and Base Sepolia side by
+// side. 31337 points the indexer at a local Hardhat node. The first chain is
+// the default for API requests without a chainId.
+const SUPPORTED_CHAINS: Record<number, Chain> = { [base.id]: base, [baseSepolia.id]: baseSepolia, [hardhat.id]: hardhat };
+
+export const CHAIN_IDS = (process.env.CHAIN_IDS || process.env.CHAIN_ID || String(base.id))
+  .split(',')
+  .map(id => parseInt(id.trim()))
+  .filter(id => SUPPORTED_CHAINS[id] !== undefined);
+
+if (CHAIN_IDS.length === 0) {
+  throw new Error(`CHAIN_IDS must list at least one of ${Object.keys(SUPPORTED_CHAINS).join(', ')}`);
+}
+
+export const DEFAULT_CHAIN_ID = CHAIN_IDS[0];
+
+export interface ChainConfig {
+  chain: Chain;
+  // Several endpoints are combined into a fallback transport
+  rpcUrls: string[];
+  wsUrl: string;
+  contractAddress: string;
+  notaryRegistryAddress: string;
+  deploymentBlock: bigint;
+}
+
+// Settings for a chain come from variables suffixed with its id, e.g.
+// BASE_RPC_URL_84532. The default chain also reads the unsuffixed names.
+function chainEnv(name: string, chainId: number): string | undefined {
+  return process.env[`${name}_${chainId}`] || (chainId === DEFAULT_CHAIN_ID ? process.env[name] : undefined);
+}
+
+const CHAIN_CONFIGS = new Map<number, ChainConfig>(CHAIN_IDS.map(chainId => {
+  const chain = SUPPORTED_CHAINS[chainId];
+  const rpcUrls = parseRpcUrls(chainEnv('BASE_RPC_URL', chainId));
+  return [chainId, {
+    chain,
+    rpcUrls: rpcUrls.length > 0 ? rpcUrls : [chain.rpcUrls.default.http[0]],
+    wsUrl: chainEnv('BASE_WS_URL', chainId) || '',
+    contractAddress: chainEnv('BASEWILL_CONTRACT_ADDRESS', chainId) || '',
+    notaryRegistryAddress: chainEnv('NOTARY_REGISTRY_ADDRESS', chainId) || '',
+    deploymentBlock: BigInt(chainEnv('CONTRACT_DEPLOYMENT_BLOCK', chainId) || '0'),
+  }];
+}));
+
+export function getChainConfig(chainId: number): ChainConfig {
+  const config = CHAIN_CONFIGS.get(chainId);
+  if (!config) {
+    throw new Error(`Chain ${chainId} is not indexed`);
+  }
+  return config;
+}
+
+// Blocks behind the head before indexed data is considered final.
+// Newer blocks are journaled so their projections can be rolled back on reorg.
+export const CONFIRMATION_DEPTH = BigInt(process.env.INDEXER_CONFIRMATIONS || '10');
+
+// Events the indexer fetches and projects, per contract. Names are checked
+// against the generated ABI, so an event the contract lacks fails to compile.
+export const BASE_WILL_EVENTS = [
+  'WillCreated',
+  'WillUpdated',
+  'WillCancelled',
+  'BeneficiaryAdded',
+  'BeneficiaryRemoved',
+  'BeneficiaryResponse',
+  'AssetAdded',
+  'AssetRemoved',
+  'ActivityRecorded',
+  'WillTriggered',
+  'GracePeriodStarted',
+  'GracePeriodCancelled',
+  'WillExecutionStarted',
+  'AssetDistributed',
+  'VestingReleased',
+  'FeeDistributed',
+  'NotaryRewardPaid',
+  'ExecutorRewardPaid',
+  'NotaryVerificationSubmitted',
+  'DisputeFiled',
+  'DisputePeriodStarted',
+  'DisputeResolved',
+  'EmergencyWithdrawalInitiated',
+  'EmergencyWithdrawalCompleted',
+  'GuardianAdded',
+  'GuardianVotedForRecovery',
+  'GuardianRecoveryExecuted',
+] as const satisfies readonly ContractEventName<typeof baseWillAbi>[];
+
+export const NOTARY_REGISTRY_EVENTS = [
+  'NotaryRegistered',
+  'StakeIncreased',
+  'WithdrawalRequested',
+  'WithdrawalCompleted',
+  'WithdrawalCancelled',
+  'NotarySlashed',
+  'ReputationUpdated',
+  'NotaryRemoved',
+  'VerificationRecorded',
+  'RewardDistributed',
+] as const satisfies readonly ContractEventName<typeof notaryRegistryAbi>[];
+
+export type IndexedContract = 'BaseWill' | 'NotaryRegistry';
+
+const CONTRACTS = [
+  { name: 'BaseWill', abi: baseWillAbi, events: BASE_WILL_EVENTS },
+  { name: 'NotaryRegistry', abi: notaryRegistryAbi, events: NOTARY_REGISTRY_EVENTS },
 ] as const;
+
+export function contractAbi(contract: IndexedContract) {
+  return CONTRACTS.find(c => c.name === contract)!.abi;
+}
+
+// Indexed contracts with their addresses on a chain
+export function indexedContracts(chainId: number) {
+  const config = getChainConfig(chainId);
+  const addresses: Record<IndexedContract, string> = {
+    BaseWill: config.contractAddress,
+    NotaryRegistry: config.notaryRegistryAddress,
+  };
+  return CONTRACTS.map(contract => ({ ...contract, address: addresses[contract.name] }));
+}
@@ -0,0 +1,136 @@
+import { Log } from 'viem';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { IndexedContract } from './config.js';
+import { journaledPrisma, currentChainId } from './journal.js';
+import { isProcessed } from './ledger.js';
+import { toLog } from './eventStore.js';
+import { retryEvent } from './eventProcessor.js';
+
+// Dead-letter queue
+//
+// An event whose handler throws is parked here instead of being dropped when
+// the indexer moves past its block. Entries are retried with exponential
+// backoff and removed once the handler succeeds or an admin discards them.
+// The raw event store keeps the log itself, so only the key is stored here.
+
+const prisma = new PrismaClient();
+
+// Automatic retries stop after this many attempts; the admin API can still retry
+const MAX_ATTEMPTS = parseInt(process.env.DEAD_LETTER_MAX_ATTEMPTS || '10');
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+function nextAttemptAt(attempts: number): Date {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return new Date(Date.now() + delay);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Called from inside runInBlock, so the entry is rolled back with its block on reorg
+export async function deadLetter(log: Log, contract: IndexedContract, eventName: string, error: unknown) {
+  const key = {
+    chainId: currentChainId(),
+    txHash: log.transactionHash ?? '',
+    logIndex: log.logIndex ?? 0,
+  };
+
+  const entry = await journaledPrisma.deadLetterEvent.upsert({
+    where: { chainId_txHash_logIndex: key },
+    update: {
+      error: errorMessage(error),
+      attempts: { increment: 1 },
+      lastAttemptAt: new Date(),
+    },
+    create: {
+      ...key,
+      contract,
+      eventName,
+      blockNumber: log.blockNumber ?? BigInt(0),
+      error: errorMessage(error),
+      nextAttemptAt: nextAttemptAt(1),
+    },
+  });
+
+  if (entry.attempts > 1) {
+    await journaledPrisma.deadLetterEvent.update({
+      where: { id: entry.id },
+      data: { nextAttemptAt: nextAttemptAt(entry.attempts) },
+    });
+  }
+
+  logger.warn(`Dead-lettered ${eventName} (${key.txHash}:${key.logIndex}) after ${entry.attempts} attempt(s)`);
+}
+
+// Apply a dead-lettered event again. Returns whether it is now applied.
+export async function retryDeadLetter(id: string): Promise<boolean> {
+  const entry = await prisma.deadLetterEvent.findUnique({ where: { id } });
+  if (!entry) {
+    throw new Error(`Dead letter ${id} not found`);
+  }
+
+  const raw = await prisma.rawEvent.findUnique({
+    where: {
+      chainId_txHash_logIndex: {
+        chainId: entry.chainId,
+        txHash: entry.txHash,
+        logIndex: entry.logIndex,
+      },
+    },
+  });
+  if (!raw) {
+    throw new Error(`Raw event for dead letter ${id} not found`);
+  }
+
+  const log = toLog(raw);
+
+  // A replayed batch may have applied it in the meantime
+  if (await isProcessed(log, entry.chainId)) {
+    await prisma.deadLetterEvent.delete({ where: { id } });
+    return true;
+  }
+
+  try {
+    await retryEvent(entry.chainId, log, raw.contract as IndexedContract, raw.eventName, raw.blockTime);
+    await prisma.deadLetterEvent.delete({ where: { id } });
+    logger.info(`Dead-lettered ${raw.eventName} (${raw.txHash}:${raw.logIndex}) applied on retry`);
+    return true;
+  } catch (error) {
+    const attempts = entry.attempts + 1;
+    await prisma.deadLetterEvent.update({
+      where: { id },
+      data: {
+        error: errorMessage(error),
+        attempts,
+        lastAttemptAt: new Date(),
+        nextAttemptAt: nextAttemptAt(attempts),
+      },
+    });
+    logger.error(`Retry of dead-lettered ${raw.eventName} (${raw.txHash}:${raw.logIndex}) failed:`, error);
+    return false;
+  }
+}
+
+// Retry every entry of a chain that is due, oldest block first so dependent events follow their causes
+export async function retryDueDeadLetters(chainId: number) {
+  const due = await prisma.deadLetterEvent.findMany({
+    where: {
+      chainId,
+      nextAttemptAt: { lte: new Date() },
+      attempts: { lt: MAX_ATTEMPTS },
+    },
+    orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+  });
+
+  for (const entry of due) {
+    await retryDeadLetter(entry.id);
+  }
+
+  const remaining = await prisma.deadLetterEvent.count({ where: { chainId } });
+  if (remaining > 0) {
+    logger.warn(`${remaining} event(s) in the dead-letter queue on chain ${chainId}`);
+  }
+}
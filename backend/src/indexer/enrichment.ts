@@ -0,0 +1,197 @@
+import { AssetType, WillStatus } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { baseWillAbi } from '../generated/abis.js';
+import { getChainConfig } from './config.js';
+import { getClient, isDeployless } from './client.js';
+import { journaledPrisma as prisma, runInBlock, inTransaction } from './journal.js';
+import { ACTIVATION_MODES, ASSET_TYPES, PRIVACY_MODES, VESTING_TYPES, WILL_STATUSES, assetRowId, willRowId } from './enums.js';
+
+// On-chain enrichment
+//
+// Events carry only part of a will's configuration. After each batch, wills
+// touched by the events below are read back from the contract at the block
+// of their last event, and the projection takes its settings and ETH balance
+// from there.
+
+export const ENRICHING_EVENTS = new Set<string>([
+  'WillCreated',
+  'WillUpdated',
+  'BeneficiaryAdded',
+  'BeneficiaryResponse',
+  'AssetAdded',
+  'AssetRemoved',
+  'WillCancelled',
+  'DisputeResolved',
+  'WillExecutionStarted',
+  'VestingReleased',
+]);
+
+// Wills are read at blockNumber and the writes journaled against it.
+// Without a block number (a rebuild) the latest state is read unjournaled.
+export async function enrichWills(chainId: number, willIds: bigint[], blockNumber?: bigint) {
+  if (willIds.length === 0) return;
+
+  const client = getClient(chainId);
+  const deployless = isDeployless(chainId);
+  const address = getChainConfig(chainId).contractAddress as `0x${string}`;
+
+  const [wills, values, beneficiaryLists, assetLists] = await Promise.all([
+    client.multicall({
+      contracts: willIds.map(willId => ({ address, abi: baseWillAbi, functionName: 'getWill', args: [willId] }) as const),
+      allowFailure: false,
+      blockNumber,
+      deployless,
+    }),
+    client.multicall({
+      contracts: willIds.map(willId => ({ address, abi: baseWillAbi, functionName: 'getWillValue', args: [willId] }) as const),
+      allowFailure: false,
+      blockNumber,
+      deployless,
+    }),
+    client.multicall({
+      contracts: willIds.map(willId => ({ address, abi: baseWillAbi, functionName: 'getBeneficiaries', args: [willId] }) as const),
+      allowFailure: false,
+      blockNumber,
+      deployless,
+    }),
+    client.multicall({
+      contracts: willIds.map(willId => ({ address, abi: baseWillAbi, functionName: 'getWillAssets', args: [willId] }) as const),
+      allowFailure: false,
+      blockNumber,
+      deployless,
+    }),
+  ]);
+
+  const pairs = willIds.flatMap((willId, i) =>
+    beneficiaryLists[i].map(beneficiary => ({ willId, beneficiary: beneficiary.beneficiaryAddress }))
+  );
+
+  const vestingStatuses = await client.multicall({
+    contracts: pairs.map(({ willId, beneficiary }) =>
+      ({ address, abi: baseWillAbi, functionName: 'getVestingStatus', args: [willId, beneficiary] }) as const
+    ),
+    allowFailure: false,
+    blockNumber,
+    deployless,
+  });
+  const vestingByPair = new Map(pairs.map(({ willId, beneficiary }, i) =>
+    [`${willId}:${beneficiary.toLowerCase()}`, vestingStatuses[i]]
+  ));
+
+  const apply = async () => {
+    for (let i = 0; i < willIds.length; i++) {
+      const willIdStr = willRowId(chainId, willIds[i]);
+      const will = wills[i];
+
+      // getWill returns an empty struct for ids the contract doesn't know
+      if (will.id === BigInt(0)) {
+        logger.warn(`Will ${willIdStr} not found on-chain, skipping enrichment`);
+        continue;
+      }
+
+      const existing = await prisma.will.findUnique({ where: { id: willIdStr } });
+      if (!existing) continue;
+
+      // Execution pays the balance out in the same transaction, so an executed
+      // will keeps the value WillExecutionStarted reported
+      const [ethBalance] = values[i];
+      const executed = WILL_STATUSES[will.status] === WillStatus.EXECUTED;
+
+      await prisma.will.update({
+        where: { id: willIdStr },
+        data: {
+          activationMode: ACTIVATION_MODES[will.activationMode] ?? existing.activationMode,
+          privacyMode: PRIVACY_MODES[will.privacyMode] ?? existing.privacyMode,
+          inactivityThreshold: will.inactivityThreshold,
+          gracePeriod: will.gracePeriod,
+          disputePeriod: will.disputePeriod,
+          ...(executed ? {} : { totalValue: ethBalance.toString() }),
+        },
+      });
+
+      for (const beneficiary of beneficiaryLists[i]) {
+        const beneficiaryAddress = beneficiary.beneficiaryAddress.toLowerCase();
+        const schedule = beneficiary.vestingSchedule;
+        const [, vestedAmount, claimedAmount, nextReleaseTime] =
+          vestingByPair.get(`${willIds[i]}:${beneficiaryAddress}`) ?? [BigInt(0), BigInt(0), BigInt(0), BigInt(0)];
+
+        // Rows come from BeneficiaryAdded; the chain only fills in their settings
+        await prisma.willBeneficiary.updateMany({
+          where: { willId: willIdStr, beneficiaryAddress },
+          data: {
+            allocationBps: Number(beneficiary.allocationBps),
+            vestingType: VESTING_TYPES[schedule.vestingType],
+            vestingDuration: schedule.duration,
+            cliffDuration: schedule.cliffDuration,
+            vestingStartDelay: schedule.startDelay,
+            releaseInterval: schedule.releaseInterval,
+            milestoneCondition: schedule.milestoneCondition,
+            isPrimary: beneficiary.isPrimary,
+            labelHash: beneficiary.labelHash,
+            hasAccepted: beneficiary.hasAccepted,
+            claimedAmount: claimedAmount.toString(),
+            vestedAmount: vestedAmount.toString(),
+            nextReleaseAt: nextReleaseTime > BigInt(0) ? new Date(Number(nextReleaseTime) * 1000) : null,
+          },
+        });
+      }
+
+      await syncAssets(chainId, willIdStr, assetLists[i]);
+    }
+  };
+
+  if (blockNumber === undefined) {
+    await apply();
+  } else {
+    await runInBlock(chainId, blockNumber, () => inTransaction(apply));
+  }
+
+  logger.info(`Enriched ${willIds.length} will(s) from on-chain state on chain ${chainId}`);
+}
+
+type OnchainAsset = {
+  assetType: number;
+  contractAddress: `0x${string}`;
+  tokenId: bigint;
+  amount: bigint;
+  isIncluded: boolean;
+};
+
+// getWillAssets lists assets declared with addAsset. ETH sent with depositETH
+// never enters that list, so the ETH row keeps the amount summed from AssetAdded.
+async function syncAssets(chainId: number, willId: string, assets: readonly OnchainAsset[]) {
+  const rows = new Map<string, { assetType: AssetType; contractAddress: string; tokenId: bigint; amount: bigint; isIncluded: boolean }>();
+
+  for (const asset of assets) {
+    const assetType = ASSET_TYPES[asset.assetType];
+    if (assetType === AssetType.ETH) continue;
+
+    // The contract appends an entry each time an asset is added
+    const id = assetRowId(willId, assetType, asset.contractAddress, asset.tokenId);
+    const row = rows.get(id);
+    rows.set(id, {
+      assetType,
+      contractAddress: asset.contractAddress.toLowerCase(),
+      tokenId: asset.tokenId,
+      amount: (row?.amount ?? BigInt(0)) + asset.amount,
+      isIncluded: (row?.isIncluded ?? false) || asset.isIncluded,
+    });
+  }
+
+  for (const [id, row] of rows) {
+    await prisma.willAsset.upsert({
+      where: { id },
+      update: { amount: row.amount.toString(), isIncluded: row.isIncluded },
+      create: {
+        id,
+        chainId,
+        willId,
+        assetType: row.assetType,
+        tokenAddress: row.contractAddress,
+        tokenId: row.assetType === AssetType.ERC721 || row.assetType === AssetType.ERC1155 ? row.tokenId : null,
+        amount: row.amount.toString(),
+        isIncluded: row.isIncluded,
+      },
+    });
+  }
+}
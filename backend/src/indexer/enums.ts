@@ -0,0 +1,59 @@
+import { ActivationMode, ActivityType, AssetType, PrivacyMode, VestingType, WillStatus } from '@prisma/client';
+
+// Contract enums (IBaseWill) mapped onto the schema's enums, indexed by value
+
+export const WILL_STATUSES: WillStatus[] = [
+  WillStatus.DRAFT,
+  WillStatus.ACTIVE,
+  WillStatus.IN_GRACE_PERIOD, // TRIGGERED
+  WillStatus.DISPUTED,
+  WillStatus.EXECUTED,
+  WillStatus.CANCELLED,
+  WillStatus.REVOKED,
+];
+
+export const ACTIVATION_MODES: ActivationMode[] = [
+  ActivationMode.INACTIVITY_BASED, // TIME_BASED
+  ActivationMode.NOTARY_TRIGGERED, // NOTARY_VERIFIED
+  ActivationMode.HYBRID,
+];
+
+export const PRIVACY_MODES: PrivacyMode[] = [
+  PrivacyMode.PUBLIC,
+  PrivacyMode.ENCRYPTED_BENEFICIARIES, // SEMI_PRIVATE
+  PrivacyMode.FULLY_ENCRYPTED, // PRIVATE
+];
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  ActivityType.CHECK_IN, // MANUAL_CHECK_IN
+  ActivityType.CHECK_IN, // TRANSACTION
+  ActivityType.WILL_UPDATED, // WILL_UPDATE
+  ActivityType.ASSET_DEPOSITED, // ASSET_DEPOSIT
+  ActivityType.DELEGATED_CHECK_IN,
+];
+
+export const ASSET_TYPES: AssetType[] = [AssetType.ETH, AssetType.ERC20, AssetType.ERC721, AssetType.ERC1155];
+
+export const VESTING_TYPES: VestingType[] = [
+  VestingType.IMMEDIATE,
+  VestingType.LINEAR,
+  VestingType.CLIFF,
+  VestingType.MILESTONE,
+];
+
+export const DISPUTE_OUTCOME_UPHELD = 1;
+
+// AssetAdded, AssetRemoved and getWillAssets identify an asset by type, contract and token id
+export function assetRowId(willId: string, assetType: AssetType, contractAddress: string, tokenId: bigint): string {
+  return `${willId}:${assetType}:${contractAddress.toLowerCase()}:${tokenId}`;
+}
+
+// Will ids are only unique per contract, so rows are keyed by chain as well
+export function willRowId(chainId: number, onchainId: bigint | string): string {
+  return `${chainId}:${onchainId}`;
+}
+
+// On-chain id of a will row, as used in frontend links
+export function onchainWillId(rowId: string): string {
+  return rowId.slice(rowId.indexOf(':') + 1);
+}
@@ -1,96 +1,230 @@
 import { Log, decodeEventLog } from 'viem';
-import { PrismaClient, ActivityType, WillStatus } from '@prisma/client';
+import { ActivationMode, ActivityType, AssetType, DisputeStatus, PayoutKind, Prisma, VestingType, WillStatus } from '@prisma/client';
 import { logger } from '../utils/logger.js';
-import { sendNotification } from '../notifications/service.js';
-import { BASE_WILL_ABI } from './config.js';
+import { eventHandlerDuration, eventsProcessed } from '../utils/metrics.js';
+import { NotificationPayload } from '../notifications/service.js';
+import { baseWillAbi } from '../generated/abis.js';
+import { IndexedContract } from './config.js';
+import { applyNotaryRegistryEvent } from './notaryRegistryProcessor.js';
+import { journaledPrisma as prisma, runInBlock, inTransaction, currentBlockNumber, currentChainId } from './journal.js';
+import { getBlockTime } from './blockTime.js';
+import { isProcessed, markProcessed, eventRowId } from './ledger.js';
+import { storeRawEvent } from './eventStore.js';
+import { ACTIVATION_MODES, ACTIVITY_TYPES, ASSET_TYPES, DISPUTE_OUTCOME_UPHELD, VESTING_TYPES, assetRowId, willRowId } from './enums.js';
+import { deadLetter } from './deadLetter.js';
+import { publishLiveEvent } from './liveEvents.js';
+import { queueWebhooks } from '../webhooks/service.js';
+
+export async function processEvent(chainId: number, log: Log, contract: IndexedContract, eventName: string) {
+  const txHash = log.transactionHash || '';
+  const blockNumber = log.blockNumber ?? BigInt(0);
 
-const prisma = new PrismaClient();
+  logger.info(`Processing event: ${eventName} at block ${blockNumber} on chain ${chainId}`);
 
-export async function processEvent(log: Log, eventName: string) {
-  const txHash = log.transactionHash || '';
-  const blockNumber = log.blockNumber;
-
-  logger.info(`Processing event: ${eventName} at block ${blockNumber}`);
-
-  try {
-    switch (eventName) {
-      case 'WillCreated':
-        await handleWillCreated(log, txHash);
-        break;
-      case 'WillUpdated':
-        await handleWillUpdated(log, txHash);
-        break;
-      case 'WillCancelled':
-        await handleWillCancelled(log, txHash);
-        break;
-      case 'BeneficiaryAdded':
-        await handleBeneficiaryAdded(log, txHash);
-        break;
-      case 'BeneficiaryRemoved':
-        await handleBeneficiaryRemoved(log, txHash);
-        break;
-      case 'BeneficiaryUpdated':
-        await handleBeneficiaryUpdated(log, txHash);
-        break;
-      case 'ActivityRecorded':
-      case 'CheckIn':
-        await handleActivityRecorded(log, txHash, eventName);
-        break;
-      case 'WillTriggered':
-        await handleWillTriggered(log, txHash);
-        break;
-      case 'TriggerCancelled':
-        await handleTriggerCancelled(log, txHash);
-        break;
-      case 'WillExecuted':
-        await handleWillExecuted(log, txHash);
-        break;
-      case 'AssetDistributed':
-        await handleAssetDistributed(log, txHash);
-        break;
-      case 'AssetClaimed':
-        await handleAssetClaimed(log, txHash);
-        break;
-      case 'NotaryAssigned':
-        await handleNotaryAssigned(log, txHash);
-        break;
-      case 'NotaryVerificationSubmitted':
-        await handleNotaryVerification(log, txHash);
-        break;
-      case 'NotaryRegistered':
-        await handleNotaryRegistered(log, txHash);
-        break;
-      case 'NotarySlashed':
-        await handleNotarySlashed(log, txHash);
-        break;
-      case 'DisputeFiled':
-        await handleDisputeFiled(log, txHash);
-        break;
-      case 'DisputeResolved':
-        await handleDisputeResolved(log, txHash);
-        break;
-      default:
-        logger.warn(`Unhandled event: ${eventName}`);
+  // Writes are journaled against the block so a reorg can undo them
+  // RPC and store failures propagate so the indexer retries the whole range
+  const labels = { chain_id: chainId, contract, event: eventName };
+
+  await runInBlock(chainId, blockNumber, async () => {
+    if (await isProcessed(log)) {
+      logger.info(`Skipping already processed ${eventName} (${txHash}:${log.logIndex})`);
+      eventsProcessed.inc({ ...labels, outcome: 'skipped' });
+      return;
     }
 
-    // Update platform stats
-    await updatePlatformStats();
-  } catch (error) {
-    logger.error(`Error processing ${eventName}:`, error);
+    // Chain time, not wall-clock time, so backfilled history keeps its real dates
+    const blockTime = await getBlockTime(chainId, log);
+    await storeRawEvent(log, contract, eventName, blockTime);
+
+    // A failing handler leaves no partial writes behind
+    const endTimer = eventHandlerDuration.startTimer({ contract, event: eventName });
+    try {
+      await inTransaction(() => applyAndMark(log, contract, eventName, blockTime));
+      eventsProcessed.inc({ ...labels, outcome: 'applied' });
+
+      // Pushed to open streams once committed, without holding up the next event
+      void publishLiveEvent(chainId, log, contract, eventName, blockTime);
+    } catch (error) {
+      logger.error(`Error processing ${eventName}:`, error);
+      await deadLetter(log, contract, eventName, error);
+      eventsProcessed.inc({ ...labels, outcome: 'dead_lettered' });
+    } finally {
+      endTimer();
+    }
+  });
+}
+
+// Apply a dead-lettered event from the store. Throws if the handler fails again.
+export async function retryEvent(chainId: number, log: Log, contract: IndexedContract, eventName: string, blockTime: Date) {
+  await runInBlock(chainId, log.blockNumber ?? BigInt(0), () =>
+    inTransaction(() => applyAndMark(log, contract, eventName, blockTime))
+  );
+}
+
+// Platform stats follow the will and notary writes in the same transaction (see platformStats.ts),
+// and so do the event's webhook deliveries
+async function applyAndMark(log: Log, contract: IndexedContract, eventName: string, blockTime: Date) {
+  await applyEvent(log, contract, eventName, log.transactionHash || '', blockTime);
+  await queueWebhooks(log, contract, eventName, blockTime);
+  await markProcessed(log, eventName);
+}
+
+// Apply a stored event to wiped projections (see rebuild.ts). The event is
+// already in the store and ledger, and stats are recomputed after the rebuild.
+export async function replayEvent(chainId: number, log: Log, contract: IndexedContract, eventName: string, blockTime: Date) {
+  await runInBlock(chainId, log.blockNumber ?? BigInt(0), () =>
+    inTransaction(() => applyEvent(log, contract, eventName, log.transactionHash || '', blockTime))
+  );
+}
+
+async function applyEvent(log: Log, contract: IndexedContract, eventName: string, txHash: string, blockTime: Date) {
+  if (contract === 'NotaryRegistry') {
+    await applyNotaryRegistryEvent(log, eventName, txHash, blockTime);
+  } else {
+    await applyBaseWillEvent(log, eventName, txHash, blockTime);
   }
 }
 
+async function applyBaseWillEvent(log: Log, eventName: string, txHash: string, blockTime: Date) {
+  switch (eventName) {
+    case 'WillCreated':
+      await handleWillCreated(log, txHash, blockTime);
+      break;
+    case 'WillUpdated':
+      await handleWillUpdated(log, txHash, blockTime);
+      break;
+    case 'WillCancelled':
+      await handleWillCancelled(log, txHash, blockTime);
+      break;
+    case 'BeneficiaryAdded':
+      await handleBeneficiaryAdded(log, txHash, blockTime);
+      break;
+    case 'BeneficiaryRemoved':
+      await handleBeneficiaryRemoved(log, txHash, blockTime);
+      break;
+    case 'BeneficiaryResponse':
+      await handleBeneficiaryResponse(log, txHash, blockTime);
+      break;
+    case 'AssetAdded':
+      await handleAssetAdded(log);
+      break;
+    case 'AssetRemoved':
+      await handleAssetRemoved(log, txHash, blockTime);
+      break;
+    case 'ActivityRecorded':
+      await handleActivityRecorded(log, txHash, blockTime);
+      break;
+    case 'WillTriggered':
+      await handleWillTriggered(log, txHash, blockTime);
+      break;
+    case 'GracePeriodStarted':
+      await handleGracePeriodStarted(log, txHash, blockTime);
+      break;
+    case 'GracePeriodCancelled':
+      await handleTriggerCancelled(log, txHash, blockTime);
+      break;
+    case 'WillExecutionStarted':
+      await handleWillExecuted(log, txHash, blockTime);
+      break;
+    case 'AssetDistributed':
+      await handleAssetDistributed(log, txHash, blockTime);
+      break;
+    case 'VestingReleased':
+      await handleVestingReleased(log, txHash, blockTime);
+      break;
+    case 'FeeDistributed':
+      await handleFeeDistributed(log, txHash, blockTime);
+      break;
+    case 'NotaryRewardPaid':
+      await handleNotaryRewardPaid(log, txHash, blockTime);
+      break;
+    case 'ExecutorRewardPaid':
+      await handleExecutorRewardPaid(log, txHash, blockTime);
+      break;
+    case 'NotaryVerificationSubmitted':
+      await handleNotaryVerification(log, txHash, blockTime);
+      break;
+    case 'DisputeFiled':
+      await handleDisputeFiled(log, txHash, blockTime);
+      break;
+    case 'DisputePeriodStarted':
+      await handleDisputePeriodStarted(log, txHash, blockTime);
+      break;
+    case 'DisputeResolved':
+      await handleDisputeResolved(log, txHash, blockTime);
+      break;
+    case 'EmergencyWithdrawalInitiated':
+      await handleEmergencyWithdrawalInitiated(log, txHash, blockTime);
+      break;
+    case 'EmergencyWithdrawalCompleted':
+      await handleEmergencyWithdrawalCompleted(log, txHash, blockTime);
+      break;
+    case 'GuardianAdded':
+      await handleGuardianAdded(log, txHash, blockTime);
+      break;
+    case 'GuardianVotedForRecovery':
+      await handleGuardianVotedForRecovery(log, txHash, blockTime);
+      break;
+    case 'GuardianRecoveryExecuted':
+      await handleGuardianRecoveryExecuted(log, txHash, blockTime);
+      break;
+    default:
+      logger.warn(`Unhandled event: ${eventName}`);
+  }
+}
+
+// Notifications are held until the block is final so reorged events never reach users
+async function queueNotification(log: Log, payload: NotificationPayload) {
+  const id = eventRowId(log, `${payload.type}:${payload.address}`);
+
+  await prisma.pendingNotification.upsert({
+    where: { id },
+    update: {},
+    create: {
+      id,
+      chainId: currentChainId(),
+      blockNumber: currentBlockNumber(),
+      // The key is stored on the Notification so a replayed flush cannot send twice
+      payload: { ...payload, dedupeKey: id } as any,
+    },
+  });
+}
+
+// Each event logs at most one activity, keyed by the log itself
+async function recordActivity(log: Log, data: Omit<Prisma.ActivityUncheckedCreateInput, 'id' | 'chainId'>) {
+  const id = eventRowId(log);
+
+  await prisma.activity.upsert({
+    where: { id },
+    update: {},
+    create: { id, chainId: currentChainId(), ...data },
+  });
+}
+
+// Payouts made by one log; events paying several recipients pass a suffix per recipient
+async function recordPayout(log: Log, data: Omit<Prisma.WillPayoutUncheckedCreateInput, 'id' | 'chainId'>, suffix?: string) {
+  const id = eventRowId(log, suffix);
+
+  await prisma.willPayout.upsert({
+    where: { id },
+    update: {},
+    create: { id, chainId: currentChainId(), ...data },
+  });
+}
+
 // Event handlers
 
-async function handleWillCreated(log: Log, txHash: string) {
+async function handleWillCreated(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'WillCreated',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, testator, inactivityThreshold } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, testator, activationMode, inactivityThreshold, beneficiaryCount } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
   // Ensure user exists
   await prisma.user.upsert({
@@ -99,96 +233,100 @@ async function handleWillCreated(log: Log, txHash: string) {
     create: { address: testator.toLowerCase() },
   });
 
-  // Create will record
-  await prisma.will.create({
-    data: {
+  // Create will record (left untouched if this event is replayed)
+  await prisma.will.upsert({
+    where: { id: willIdStr },
+    update: {},
+    create: {
       id: willIdStr,
+      chainId,
       onchainId: BigInt(willId),
       testatorAddress: testator.toLowerCase(),
       status: WillStatus.ACTIVE,
-      activationMode: 'INACTIVITY_BASED',
+      activationMode: ACTIVATION_MODES[activationMode] ?? ActivationMode.INACTIVITY_BASED,
       inactivityThreshold: BigInt(inactivityThreshold),
-      gracePeriod: BigInt(30 * 24 * 60 * 60), // Default 30 days
-      lastActivityTime: new Date(),
-      createdAt: new Date(),
+      // The contract default until enrichment reads the will's own period
+      gracePeriod: BigInt(30 * 24 * 60 * 60),
+      lastActivityTime: blockTime,
+      createdAt: blockTime,
     },
   });
 
   // Log activity
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.WILL_CREATED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.WILL_CREATED,
+    timestamp: blockTime,
+    txHash,
+    details: { beneficiaryCount: Number(beneficiaryCount) },
   });
 
   logger.info(`Will ${willIdStr} created by ${testator}`);
 }
 
-async function handleWillUpdated(log: Log, txHash: string) {
+async function handleWillUpdated(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'WillUpdated',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, field, version } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
   await prisma.will.update({
     where: { id: willIdStr },
-    data: {
-      lastActivityTime: new Date(),
-      updatedAt: new Date(),
-    },
+    data: { updatedAt: blockTime },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.WILL_UPDATED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.WILL_UPDATED,
+    timestamp: blockTime,
+    txHash,
+    details: { field, version: version.toString() },
   });
 }
 
-async function handleWillCancelled(log: Log, txHash: string) {
+async function handleWillCancelled(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'WillCancelled',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, reason } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
   await prisma.will.update({
     where: { id: willIdStr },
     data: { status: WillStatus.CANCELLED },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.WILL_CANCELLED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.WILL_CANCELLED,
+    timestamp: blockTime,
+    txHash,
+    details: { reason },
   });
 }
 
-async function handleBeneficiaryAdded(log: Log, txHash: string) {
+async function handleBeneficiaryAdded(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'BeneficiaryAdded',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, beneficiary, allocationBps } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, beneficiary, allocationBps } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
   // Ensure beneficiary user exists
   await prisma.user.upsert({
@@ -197,8 +335,16 @@ async function handleBeneficiaryAdded(log: Log, txHash: string) {
     create: { address: beneficiary.toLowerCase() },
   });
 
-  await prisma.willBeneficiary.create({
-    data: {
+  await prisma.willBeneficiary.upsert({
+    where: {
+      willId_beneficiaryAddress: {
+        willId: willIdStr,
+        beneficiaryAddress: beneficiary.toLowerCase(),
+      },
+    },
+    update: { allocationBps: Number(allocationBps) },
+    create: {
+      chainId,
       willId: willIdStr,
       beneficiaryAddress: beneficiary.toLowerCase(),
       allocationBps: Number(allocationBps),
@@ -206,139 +352,107 @@ async function handleBeneficiaryAdded(log: Log, txHash: string) {
     },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.BENEFICIARY_ADDED,
-      timestamp: new Date(),
-      txHash,
-      details: { beneficiary: beneficiary.toLowerCase(), allocationBps: Number(allocationBps) },
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.BENEFICIARY_ADDED,
+    timestamp: blockTime,
+    txHash,
+    details: { beneficiary: beneficiary.toLowerCase(), allocationBps: Number(allocationBps) },
   });
 
   // Notify beneficiary
-  await sendNotification({
+  await queueNotification(log, {
     type: 'BENEFICIARY_DESIGNATED',
     address: beneficiary.toLowerCase(),
     willId: willIdStr,
   });
 }
 
-async function handleBeneficiaryRemoved(log: Log, txHash: string) {
+async function handleBeneficiaryRemoved(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'BeneficiaryRemoved',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, beneficiary } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, beneficiary } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  await prisma.willBeneficiary.delete({
+  await prisma.willBeneficiary.deleteMany({
     where: {
-      willId_beneficiaryAddress: {
-        willId: willIdStr,
-        beneficiaryAddress: beneficiary.toLowerCase(),
-      },
-    },
-  });
-
-  await prisma.activity.create({
-    data: {
       willId: willIdStr,
-      type: ActivityType.BENEFICIARY_REMOVED,
-      timestamp: new Date(),
-      txHash,
-    },
-  });
-}
-
-async function handleBeneficiaryUpdated(log: Log, txHash: string) {
-  const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
-    data: log.data,
-    topics: log.topics,
-  });
-
-  const { willId, beneficiary, newAllocationBps } = decoded.args as any;
-  const willIdStr = willId.toString();
-
-  await prisma.willBeneficiary.update({
-    where: {
-      willId_beneficiaryAddress: {
-        willId: willIdStr,
-        beneficiaryAddress: beneficiary.toLowerCase(),
-      },
+      beneficiaryAddress: beneficiary.toLowerCase(),
     },
-    data: { allocationBps: Number(newAllocationBps) },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.BENEFICIARY_UPDATED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.BENEFICIARY_REMOVED,
+    timestamp: blockTime,
+    txHash,
   });
 }
 
-async function handleActivityRecorded(log: Log, txHash: string, eventName: string) {
+async function handleActivityRecorded(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'ActivityRecorded',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, activityType, timestamp } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
+  // The contract's own activity timestamp drives liveness
   await prisma.will.update({
     where: { id: willIdStr },
-    data: { lastActivityTime: new Date() },
+    data: { lastActivityTime: new Date(Number(timestamp) * 1000) },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: eventName === 'CheckIn' ? ActivityType.CHECK_IN : ActivityType.WILL_UPDATED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ACTIVITY_TYPES[activityType] ?? ActivityType.WILL_UPDATED,
+    timestamp: blockTime,
+    txHash,
   });
 }
 
-async function handleWillTriggered(log: Log, txHash: string) {
+async function handleWillTriggered(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'WillTriggered',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, gracePeriodEnd } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, reason, gracePeriodEnd } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
   await prisma.will.update({
     where: { id: willIdStr },
     data: {
       status: WillStatus.IN_GRACE_PERIOD,
-      triggeredAt: new Date(),
+      triggeredAt: blockTime,
     },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.WILL_TRIGGERED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.WILL_TRIGGERED,
+    timestamp: blockTime,
+    txHash,
+    details: { reason, gracePeriodEnd: gracePeriodEnd.toString() },
   });
 
   // Notify testator
   const will = await prisma.will.findUnique({ where: { id: willIdStr } });
   if (will) {
-    await sendNotification({
+    await queueNotification(log, {
       type: 'WILL_TRIGGERED',
       address: will.testatorAddress,
       willId: willIdStr,
@@ -346,61 +460,64 @@ async function handleWillTriggered(log: Log, txHash: string) {
   }
 }
 
-async function handleTriggerCancelled(log: Log, txHash: string) {
+async function handleTriggerCancelled(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'GracePeriodCancelled',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
   await prisma.will.update({
     where: { id: willIdStr },
     data: {
       status: WillStatus.ACTIVE,
       triggeredAt: null,
-      lastActivityTime: new Date(),
+      gracePeriodEndsAt: null,
+      // Cancelling the trigger counts as activity on-chain
+      lastActivityTime: blockTime,
     },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.TRIGGER_CANCELLED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.TRIGGER_CANCELLED,
+    timestamp: blockTime,
+    txHash,
   });
 }
 
-async function handleWillExecuted(log: Log, txHash: string) {
+async function handleWillExecuted(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'WillExecutionStarted',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, totalDistributed } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, totalValue, executor } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
   await prisma.will.update({
     where: { id: willIdStr },
     data: {
       status: WillStatus.EXECUTED,
-      executedAt: new Date(),
+      executedAt: blockTime,
+      totalValue: totalValue.toString(),
     },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.WILL_EXECUTED,
-      timestamp: new Date(),
-      txHash,
-      details: { totalDistributed: totalDistributed.toString() },
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.WILL_EXECUTED,
+    timestamp: blockTime,
+    txHash,
+    details: { totalValue: totalValue.toString(), executor: executor.toLowerCase() },
   });
 
   // Notify all beneficiaries
@@ -409,7 +526,7 @@ async function handleWillExecuted(log: Log, txHash: string) {
   });
 
   for (const beneficiary of beneficiaries) {
-    await sendNotification({
+    await queueNotification(log, {
       type: 'WILL_EXECUTED',
       address: beneficiary.beneficiaryAddress,
       willId: willIdStr,
@@ -417,282 +534,625 @@ async function handleWillExecuted(log: Log, txHash: string) {
   }
 }
 
-async function handleAssetDistributed(log: Log, txHash: string) {
+async function handleAssetDistributed(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'AssetDistributed',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, beneficiary, amount } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, beneficiary, assetType, amount, vestingType } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  await prisma.activity.create({
+  // The share is net of fees; vesting releases it from here. An IMMEDIATE
+  // share is transferred in the same call and counts as claimed.
+  await prisma.willBeneficiary.updateMany({
+    where: { willId: willIdStr, beneficiaryAddress: beneficiary.toLowerCase() },
     data: {
-      willId: willIdStr,
-      type: ActivityType.ASSET_DISTRIBUTED,
-      timestamp: new Date(),
-      txHash,
-      details: {
-        beneficiary: beneficiary.toLowerCase(),
-        amount: amount.toString(),
-      },
+      distributedAmount: amount.toString(),
+      ...(VESTING_TYPES[vestingType] === VestingType.IMMEDIATE && { claimedAmount: amount.toString() }),
+    },
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.ASSET_DISTRIBUTED,
+    timestamp: blockTime,
+    txHash,
+    details: {
+      beneficiary: beneficiary.toLowerCase(),
+      assetType,
+      amount: amount.toString(),
+      vestingType,
     },
   });
 
-  await sendNotification({
+  await queueNotification(log, {
     type: 'ASSET_DISTRIBUTED',
     address: beneficiary.toLowerCase(),
     willId: willIdStr,
   });
 }
 
-async function handleAssetClaimed(log: Log, txHash: string) {
+async function handleNotaryVerification(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'NotaryVerificationSubmitted',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, beneficiary, amount } = decoded.args as any;
-  const willIdStr = willId.toString();
-
-  await prisma.willBeneficiary.update({
-    where: {
-      willId_beneficiaryAddress: {
-        willId: willIdStr,
-        beneficiaryAddress: beneficiary.toLowerCase(),
-      },
-    },
-    data: {
-      hasClaimed: true,
-      claimedAmount: amount.toString(),
-    },
-  });
+  const { willId, notary, proofHash } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  await prisma.activity.create({
-    data: {
+  const verificationId = eventRowId(log);
+  await prisma.notaryVerification.upsert({
+    where: { id: verificationId },
+    update: {},
+    create: {
+      id: verificationId,
+      chainId,
       willId: willIdStr,
-      type: ActivityType.ASSET_CLAIMED,
-      timestamp: new Date(),
+      notaryAddr: notary.toLowerCase(),
+      verified: true,
+      proofHash,
+      submittedAt: blockTime,
       txHash,
     },
   });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.NOTARY_VERIFICATION,
+    timestamp: blockTime,
+    txHash,
+  });
 }
 
-async function handleNotaryAssigned(log: Log, txHash: string) {
+async function handleDisputeFiled(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'DisputeFiled',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, notary } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, disputer, reasonHash, bondAmount } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  await prisma.notaryAssignment.create({
-    data: {
+  const disputeId = eventRowId(log);
+  await prisma.dispute.upsert({
+    where: { id: disputeId },
+    update: {},
+    create: {
+      id: disputeId,
+      chainId,
       willId: willIdStr,
-      notaryAddr: notary.toLowerCase(),
+      filer: disputer.toLowerCase(),
+      reason: reasonHash,
+      bond: bondAmount.toString(),
+      filedAt: blockTime,
     },
   });
+
+  await prisma.will.update({
+    where: { id: willIdStr },
+    data: { status: WillStatus.DISPUTED },
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.DISPUTE_FILED,
+    timestamp: blockTime,
+    txHash,
+  });
 }
 
-async function handleNotaryVerification(log: Log, txHash: string) {
+async function handleDisputeResolved(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'DisputeResolved',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, notary, verified } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, outcome } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  await prisma.notaryVerification.create({
-    data: {
+  await prisma.dispute.updateMany({
+    where: {
       willId: willIdStr,
-      notaryAddr: notary.toLowerCase(),
-      verified,
-      txHash,
+      status: 'PENDING',
     },
-  });
-
-  // Update notary stats
-  await prisma.notary.update({
-    where: { address: notary.toLowerCase() },
     data: {
-      totalVerifications: { increment: 1 },
-      successfulVerifications: verified ? { increment: 1 } : undefined,
+      status: outcome === DISPUTE_OUTCOME_UPHELD ? DisputeStatus.RESOLVED_IN_FAVOR : DisputeStatus.RESOLVED_AGAINST,
+      resolvedAt: blockTime,
     },
   });
 
-  await prisma.activity.create({
-    data: {
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.DISPUTE_RESOLVED,
+    timestamp: blockTime,
+    txHash,
+  });
+}
+
+async function handleBeneficiaryResponse(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'BeneficiaryResponse',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, beneficiary, accepted } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+  const where = { willId: willIdStr, beneficiaryAddress: beneficiary.toLowerCase() };
+
+  // Rejecting removes the beneficiary from the will
+  if (accepted) {
+    await prisma.willBeneficiary.updateMany({ where, data: { hasAccepted: true } });
+  } else {
+    await prisma.willBeneficiary.deleteMany({ where });
+  }
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: accepted ? ActivityType.BENEFICIARY_ACCEPTED : ActivityType.BENEFICIARY_REJECTED,
+    timestamp: blockTime,
+    txHash,
+    details: { beneficiary: beneficiary.toLowerCase() },
+  });
+
+  if (accepted) {
+    const will = await prisma.will.findUnique({ where: { id: willIdStr } });
+    if (will) {
+      await queueNotification(log, {
+        type: 'BENEFICIARY_ACCEPTED',
+        address: will.testatorAddress,
+        willId: willIdStr,
+      });
+    }
+  }
+}
+
+// The matching ActivityRecorded event already logs the deposit or update
+async function handleAssetAdded(log: Log) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'AssetAdded',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, assetType, contractAddress, tokenId, amount } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+  const type = ASSET_TYPES[assetType];
+  const id = assetRowId(willIdStr, type, contractAddress, tokenId);
+
+  // ETH deposits and repeated additions of a token accumulate on one row
+  const existing = await prisma.willAsset.findUnique({ where: { id } });
+
+  await prisma.willAsset.upsert({
+    where: { id },
+    update: {
+      amount: (BigInt(existing?.amount ?? '0') + amount).toString(),
+      isIncluded: true,
+    },
+    create: {
+      id,
+      chainId,
       willId: willIdStr,
-      type: ActivityType.NOTARY_VERIFICATION,
-      timestamp: new Date(),
-      txHash,
+      assetType: type,
+      tokenAddress: type === AssetType.ETH ? null : contractAddress.toLowerCase(),
+      tokenId: type === AssetType.ERC721 || type === AssetType.ERC1155 ? tokenId : null,
+      amount: amount.toString(),
     },
   });
 }
 
-async function handleNotaryRegistered(log: Log, txHash: string) {
+async function handleAssetRemoved(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'AssetRemoved',
     data: log.data,
     topics: log.topics,
   });
 
-  const { notary, stake } = decoded.args as any;
+  const { willId, assetType, contractAddress, tokenId } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+  const type = ASSET_TYPES[assetType];
 
-  // Ensure user exists
-  await prisma.user.upsert({
-    where: { address: notary.toLowerCase() },
-    update: {},
-    create: { address: notary.toLowerCase() },
+  // The contract keeps removed assets and flags them as excluded
+  await prisma.willAsset.updateMany({
+    where: { id: assetRowId(willIdStr, type, contractAddress, tokenId) },
+    data: { isIncluded: false },
   });
 
-  await prisma.notary.create({
-    data: {
-      address: notary.toLowerCase(),
-      stake: stake.toString(),
-      isActive: true,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.ASSET_REMOVED,
+    timestamp: blockTime,
+    txHash,
+    details: { assetType: type, contractAddress: contractAddress.toLowerCase(), tokenId: tokenId.toString() },
   });
+}
 
-  logger.info(`Notary registered: ${notary} with stake ${stake}`);
+async function handleGracePeriodStarted(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'GracePeriodStarted',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, endDate } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
+  await prisma.will.update({
+    where: { id: willIdStr },
+    data: { gracePeriodEndsAt: new Date(Number(endDate) * 1000) },
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.GRACE_PERIOD_STARTED,
+    timestamp: blockTime,
+    txHash,
+    details: { endDate: endDate.toString() },
+  });
 }
 
-async function handleNotarySlashed(log: Log, txHash: string) {
+async function handleVestingReleased(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'VestingReleased',
     data: log.data,
     topics: log.topics,
   });
 
-  const { notary, slashedAmount } = decoded.args as any;
+  const { willId, beneficiary, amount, releaseNumber } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  const existingNotary = await prisma.notary.findUnique({
-    where: { address: notary.toLowerCase() },
+  const releaseId = eventRowId(log);
+  await prisma.vestingRelease.upsert({
+    where: { id: releaseId },
+    update: {},
+    create: {
+      id: releaseId,
+      chainId,
+      willId: willIdStr,
+      beneficiaryAddress: beneficiary.toLowerCase(),
+      amount: amount.toString(),
+      releaseNumber: Number(releaseNumber),
+      releasedAt: blockTime,
+      txHash,
+    },
   });
 
-  if (existingNotary) {
-    const newStake = BigInt(existingNotary.stake) - BigInt(slashedAmount);
-    await prisma.notary.update({
-      where: { address: notary.toLowerCase() },
+  const entry = await prisma.willBeneficiary.findUnique({
+    where: {
+      willId_beneficiaryAddress: {
+        willId: willIdStr,
+        beneficiaryAddress: beneficiary.toLowerCase(),
+      },
+    },
+  });
+
+  if (entry) {
+    await prisma.willBeneficiary.update({
+      where: { id: entry.id },
       data: {
-        stake: newStake.toString(),
-        reputation: { decrement: 10 },
+        hasClaimed: true,
+        claimedAmount: (BigInt(entry.claimedAmount) + amount).toString(),
       },
     });
   }
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.ASSET_CLAIMED,
+    timestamp: blockTime,
+    txHash,
+    details: {
+      beneficiary: beneficiary.toLowerCase(),
+      amount: amount.toString(),
+      releaseNumber: releaseNumber.toString(),
+    },
+  });
 }
 
-async function handleDisputeFiled(log: Log, txHash: string) {
+async function handleFeeDistributed(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'FeeDistributed',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, filer, reason } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, totalFee, wallets, amounts } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  await prisma.dispute.create({
-    data: {
+  for (let i = 0; i < wallets.length; i++) {
+    await recordPayout(log, {
       willId: willIdStr,
-      filer: filer.toLowerCase(),
-      reason,
-      bond: '0',
-    },
+      kind: PayoutKind.PLATFORM_FEE,
+      recipient: wallets[i].toLowerCase(),
+      amount: amounts[i].toString(),
+      paidAt: blockTime,
+      txHash,
+    }, `${i}`);
+  }
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.FEE_DISTRIBUTED,
+    timestamp: blockTime,
+    txHash,
+    details: { totalFee: totalFee.toString() },
+  });
+}
+
+// The notary's rewardsEarned is updated from the registry's RewardDistributed
+async function handleNotaryRewardPaid(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'NotaryRewardPaid',
+    data: log.data,
+    topics: log.topics,
   });
 
+  const { willId, notary, amount } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
+  await recordPayout(log, {
+    willId: willIdStr,
+    kind: PayoutKind.NOTARY_REWARD,
+    recipient: notary.toLowerCase(),
+    amount: amount.toString(),
+    paidAt: blockTime,
+    txHash,
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.NOTARY_REWARD_PAID,
+    timestamp: blockTime,
+    txHash,
+    details: { notary: notary.toLowerCase(), amount: amount.toString() },
+  });
+}
+
+async function handleExecutorRewardPaid(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'ExecutorRewardPaid',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, executor, amount } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
+  await recordPayout(log, {
+    willId: willIdStr,
+    kind: PayoutKind.EXECUTOR_REWARD,
+    recipient: executor.toLowerCase(),
+    amount: amount.toString(),
+    paidAt: blockTime,
+    txHash,
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.EXECUTOR_REWARD_PAID,
+    timestamp: blockTime,
+    txHash,
+    details: { executor: executor.toLowerCase(), amount: amount.toString() },
+  });
+}
+
+async function handleDisputePeriodStarted(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'DisputePeriodStarted',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, endDate } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
   await prisma.will.update({
     where: { id: willIdStr },
-    data: { status: WillStatus.DISPUTED },
+    data: { disputePeriodEndsAt: new Date(Number(endDate) * 1000) },
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.DISPUTE_PERIOD_STARTED,
+    timestamp: blockTime,
+    txHash,
+    details: { endDate: endDate.toString() },
+  });
+}
+
+// cancelEmergencyWithdrawal emits no event, so a cancelled request keeps its date
+async function handleEmergencyWithdrawalInitiated(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'EmergencyWithdrawalInitiated',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, cooldownEnd } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
+  await prisma.will.update({
+    where: { id: willIdStr },
+    data: { emergencyWithdrawalAvailableAt: new Date(Number(cooldownEnd) * 1000) },
   });
 
-  await prisma.activity.create({
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.EMERGENCY_WITHDRAWAL_INITIATED,
+    timestamp: blockTime,
+    txHash,
+    details: { cooldownEnd: cooldownEnd.toString() },
+  });
+}
+
+async function handleEmergencyWithdrawalCompleted(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'EmergencyWithdrawalCompleted',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, totalValue } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
+  // The withdrawal returns the will's ETH and cancels it
+  await prisma.will.update({
+    where: { id: willIdStr },
     data: {
-      willId: willIdStr,
-      type: ActivityType.DISPUTE_FILED,
-      timestamp: new Date(),
-      txHash,
+      status: WillStatus.CANCELLED,
+      totalValue: '0',
+      emergencyWithdrawalAvailableAt: null,
     },
   });
+
+  await prisma.willAsset.updateMany({
+    where: { willId: willIdStr, assetType: AssetType.ETH },
+    data: { amount: '0' },
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.EMERGENCY_WITHDRAWAL_COMPLETED,
+    timestamp: blockTime,
+    txHash,
+    details: { totalValue: totalValue.toString() },
+  });
 }
 
-async function handleDisputeResolved(log: Log, txHash: string) {
+// removeGuardian emits no event, so removed guardians stay listed
+async function handleGuardianAdded(log: Log, txHash: string, blockTime: Date) {
   const decoded = decodeEventLog({
-    abi: BASE_WILL_ABI,
+    abi: baseWillAbi,
+    eventName: 'GuardianAdded',
     data: log.data,
     topics: log.topics,
   });
 
-  const { willId, inFavor } = decoded.args as any;
-  const willIdStr = willId.toString();
+  const { willId, guardian } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
 
-  await prisma.dispute.updateMany({
+  const registration = { hasVotedForRecovery: false, addedAt: blockTime };
+
+  await prisma.willGuardian.upsert({
     where: {
-      willId: willIdStr,
-      status: 'PENDING',
-    },
-    data: {
-      status: inFavor ? 'RESOLVED_IN_FAVOR' : 'RESOLVED_AGAINST',
-      resolvedAt: new Date(),
+      willId_guardianAddress: {
+        willId: willIdStr,
+        guardianAddress: guardian.toLowerCase(),
+      },
     },
+    update: registration,
+    create: { chainId, willId: willIdStr, guardianAddress: guardian.toLowerCase(), ...registration },
   });
 
-  await prisma.activity.create({
-    data: {
-      willId: willIdStr,
-      type: ActivityType.DISPUTE_RESOLVED,
-      timestamp: new Date(),
-      txHash,
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.GUARDIAN_ADDED,
+    timestamp: blockTime,
+    txHash,
+    details: { guardian: guardian.toLowerCase() },
   });
 }
 
-async function updatePlatformStats() {
-  const [totalCreated, active, executed, cancelled, notaries] = await Promise.all([
-    prisma.will.count(),
-    prisma.will.count({ where: { status: 'ACTIVE' } }),
-    prisma.will.count({ where: { status: 'EXECUTED' } }),
-    prisma.will.count({ where: { status: 'CANCELLED' } }),
-    prisma.notary.count({ where: { isActive: true } }),
-  ]);
+async function handleGuardianVotedForRecovery(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'GuardianVotedForRecovery',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { willId, guardian, totalVotes } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
+  await prisma.willGuardian.updateMany({
+    where: { willId: willIdStr, guardianAddress: guardian.toLowerCase() },
+    data: { hasVotedForRecovery: true },
+  });
+
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.GUARDIAN_RECOVERY_VOTE,
+    timestamp: blockTime,
+    txHash,
+    details: { guardian: guardian.toLowerCase(), totalVotes: totalVotes.toString() },
+  });
+}
 
-  // Calculate total values
-  const activeWills = await prisma.will.findMany({
-    where: { status: 'ACTIVE' },
-    select: { totalValue: true },
+async function handleGuardianRecoveryExecuted(log: Log, txHash: string, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: baseWillAbi,
+    eventName: 'GuardianRecoveryExecuted',
+    data: log.data,
+    topics: log.topics,
   });
 
-  const executedWills = await prisma.will.findMany({
-    where: { status: 'EXECUTED' },
-    select: { totalValue: true },
+  const { willId, recoveryAddress } = decoded.args;
+  const chainId = currentChainId();
+  const willIdStr = willRowId(chainId, willId);
+
+  // Ensure the new testator exists
+  await prisma.user.upsert({
+    where: { address: recoveryAddress.toLowerCase() },
+    update: {},
+    create: { address: recoveryAddress.toLowerCase() },
   });
 
-  const totalValueSecured = activeWills.reduce(
-    (sum, w) => sum + BigInt(w.totalValue),
-    BigInt(0)
-  );
+  await prisma.will.update({
+    where: { id: willIdStr },
+    data: { testatorAddress: recoveryAddress.toLowerCase() },
+  });
 
-  const totalDistributed = executedWills.reduce(
-    (sum, w) => sum + BigInt(w.totalValue),
-    BigInt(0)
-  );
+  // Votes are reset once recovery goes through
+  await prisma.willGuardian.updateMany({
+    where: { willId: willIdStr },
+    data: { hasVotedForRecovery: false },
+  });
 
-  await prisma.platformStats.update({
-    where: { id: 'singleton' },
-    data: {
-      totalWillsCreated: totalCreated,
-      activeWills: active,
-      executedWills: executed,
-      cancelledWills: cancelled,
-      registeredNotaries: notaries,
-      totalValueSecured: totalValueSecured.toString(),
-      totalDistributed: totalDistributed.toString(),
-    },
+  await recordActivity(log, {
+    willId: willIdStr,
+    type: ActivityType.GUARDIAN_RECOVERY_EXECUTED,
+    timestamp: blockTime,
+    txHash,
+    details: { recoveryAddress: recoveryAddress.toLowerCase() },
   });
+
+  logger.info(`Will ${willIdStr} recovered to ${recoveryAddress}`);
 }
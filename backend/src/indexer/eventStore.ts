@@ -0,0 +1,74 @@
+import { Abi, Log, decodeEventLog } from 'viem';
+import { RawEvent } from '@prisma/client';
+import { IndexedContract, contractAbi } from './config.js';
+import { journaledPrisma as prisma, currentChainId } from './journal.js';
+
+// Raw event store
+//
+// Each indexed log is kept verbatim next to its decoded args. Rows are
+// journaled like projections, so logs from orphaned blocks disappear on reorg.
+
+export async function storeRawEvent(log: Log, contract: IndexedContract, eventName: string, blockTime: Date) {
+  const abi = contractAbi(contract) as Abi;
+  const { args } = decodeEventLog({ abi, data: log.data, topics: log.topics });
+
+  const key = {
+    chainId: currentChainId(),
+    txHash: log.transactionHash ?? '',
+    logIndex: log.logIndex ?? 0,
+  };
+
+  await prisma.rawEvent.upsert({
+    where: { chainId_txHash_logIndex: key },
+    update: {},
+    create: {
+      ...key,
+      contract,
+      address: log.address.toLowerCase(),
+      eventName,
+      blockNumber: log.blockNumber ?? BigInt(0),
+      blockHash: log.blockHash ?? '',
+      blockTime,
+      transactionIndex: log.transactionIndex ?? 0,
+      topics: log.topics,
+      data: log.data,
+      args: JSON.parse(
+        JSON.stringify(args ?? {}, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+      ),
+    },
+  });
+}
+
+// Stored events of a chain up to a block in chain order, a page at a time
+export async function* readRawEvents(chainId: number, toBlock: bigint, pageSize = 500): AsyncGenerator<RawEvent> {
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await prisma.rawEvent.findMany({
+      where: { chainId, blockNumber: { lte: toBlock } },
+      orderBy: [{ blockNumber: 'asc' }, { transactionIndex: 'asc' }, { logIndex: 'asc' }, { id: 'asc' }],
+      take: pageSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    yield* page;
+
+    if (page.length < pageSize) return;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+// Turn a stored event back into the log its handler originally received
+export function toLog(event: RawEvent): Log {
+  return {
+    address: event.address as `0x${string}`,
+    blockHash: event.blockHash as `0x${string}`,
+    blockNumber: event.blockNumber,
+    data: event.data as `0x${string}`,
+    logIndex: event.logIndex,
+    transactionHash: event.txHash as `0x${string}`,
+    transactionIndex: event.transactionIndex,
+    topics: event.topics as [`0x${string}`, ...`0x${string}`[]],
+    removed: false,
+  };
+}
@@ -1,133 +1,252 @@
-import { createPublicClient, http, parseAbiItem, Log } from 'viem';
-import { base } from 'viem/chains';
+import { Abi, AbiEvent, Log, getAbiItem } from 'viem';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { recordHeadBlock } from '../utils/metrics.js';
 import { processEvent } from './eventProcessor.js';
-import { CONTRACT_ADDRESS, BASE_WILL_ABI } from './config.js';
+import { ENRICHING_EVENTS, enrichWills } from './enrichment.js';
+import { CHAIN_IDS, CONFIRMATION_DEPTH, getChainConfig, indexedContracts } from './config.js';
+import { getClient } from './client.js';
+import { recordBlockHash, detectReorg, finalizeBlocks, rollbackToBlock } from './reorg.js';
+import { subscribeToIndexedEvents } from './subscription.js';
+import { batchEnd, fetchAdaptive } from './logRange.js';
 
 const prisma = new PrismaClient();
 
-// Create client for Base Mainnet
-const client = createPublicClient({
-  chain: base,
-  transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
-});
-
-// Events to index
-const EVENTS = [
-  'WillCreated(uint256 indexed willId, address indexed testator, uint256 inactivityThreshold)',
-  'WillUpdated(uint256 indexed willId)',
-  'WillCancelled(uint256 indexed willId)',
-  'BeneficiaryAdded(uint256 indexed willId, address indexed beneficiary, uint256 allocationBps)',
-  'BeneficiaryRemoved(uint256 indexed willId, address indexed beneficiary)',
-  'BeneficiaryUpdated(uint256 indexed willId, address indexed beneficiary, uint256 newAllocationBps)',
-  'ActivityRecorded(uint256 indexed willId, uint256 timestamp)',
-  'CheckIn(uint256 indexed willId, address indexed by)',
-  'WillTriggered(uint256 indexed willId, uint256 gracePeriodEnd)',
-  'TriggerCancelled(uint256 indexed willId)',
-  'WillExecuted(uint256 indexed willId, uint256 totalDistributed)',
-  'AssetDistributed(uint256 indexed willId, address indexed beneficiary, uint256 amount)',
-  'AssetClaimed(uint256 indexed willId, address indexed beneficiary, uint256 amount)',
-  'NotaryAssigned(uint256 indexed willId, address indexed notary)',
-  'NotaryVerificationSubmitted(uint256 indexed willId, address indexed notary, bool verified)',
-  'EmergencyWithdrawalInitiated(uint256 indexed willId, uint256 cooldownEnd)',
-  'EmergencyWithdrawalCompleted(uint256 indexed willId)',
-  'DisputeFiled(uint256 indexed willId, address indexed filer, string reason)',
-  'DisputeResolved(uint256 indexed willId, bool inFavor)',
-  'NotaryRegistered(address indexed notary, uint256 stake)',
-  'NotarySlashed(address indexed notary, uint256 slashedAmount)',
-];
-
 const POLLING_INTERVAL = 12000; // 12 seconds (Base block time)
-const BLOCKS_PER_BATCH = 1000;
+
+// 'websocket' indexes as soon as the subscription reports an event; 'polling' only polls
+const INDEXER_MODE = process.env.INDEXER_MODE === 'websocket' ? 'websocket' : 'polling';
+
+// While subscribed, polling only advances finalization and catches anything the socket missed
+const SUBSCRIBED_POLLING_INTERVAL = POLLING_INTERVAL * 5;
+
+// Each chain is indexed independently. catchUp calls on one chain are chained
+// so its poll loop and subscription never index concurrently.
+export interface ChainIndexer {
+  chainId: number;
+  nextBlock: bigint; // Next block to index
+  indexing: Promise<boolean>;
+  subscribed: boolean;
+}
 
 export async function startIndexer() {
-  logger.info('Starting event indexer...');
+  logger.info(`Starting event indexer for chain(s) ${CHAIN_IDS.join(', ')}...`);
+
+  for (const chainId of CHAIN_IDS) {
+    await startChainIndexer(chainId);
+  }
+}
 
+async function startChainIndexer(chainId: number) {
   try {
-    // Get last processed block
+    // Get last finalized block
     const state = await prisma.indexerState.findUnique({
-      where: { id: 'singleton' },
+      where: { chainId },
     });
 
     let lastBlock = state?.lastBlockNumber ?? BigInt(0);
+    let startBlock: bigint;
 
-    // If starting fresh, start from contract deployment block
     if (lastBlock === BigInt(0)) {
-      const deploymentBlock = BigInt(process.env.CONTRACT_DEPLOYMENT_BLOCK || '0');
-      lastBlock = deploymentBlock;
-      logger.info(`Starting indexer from deployment block ${lastBlock}`);
+      // If starting fresh, start from contract deployment block
+      startBlock = getChainConfig(chainId).deploymentBlock;
+      logger.info(`Starting indexer on chain ${chainId} from deployment block ${startBlock}`);
+    } else {
+      // Blocks past the finalized one may have been reorged while we were down
+      await rollbackToBlock(chainId, lastBlock);
+      startBlock = lastBlock + BigInt(1);
+      logger.info(`Resuming indexer on chain ${chainId} from block ${startBlock}`);
+    }
+
+    const indexer: ChainIndexer = {
+      chainId,
+      nextBlock: startBlock,
+      indexing: Promise.resolve(true),
+      subscribed: false,
+    };
+
+    if (INDEXER_MODE === 'websocket') {
+      if (getChainConfig(chainId).wsUrl) {
+        startSubscription(indexer);
+      } else {
+        logger.warn(`INDEXER_MODE=websocket but no WebSocket URL is set for chain ${chainId}, polling instead`);
+      }
     }
 
     // Start polling loop
-    indexLoop(lastBlock);
+    indexLoop(indexer);
   } catch (error) {
-    logger.error('Failed to start indexer:', error);
+    logger.error(`Failed to start indexer on chain ${chainId}:`, error);
     throw error;
   }
 }
 
-async function indexLoop(startBlock: bigint) {
-  let currentBlock = startBlock;
-
+async function indexLoop(indexer: ChainIndexer) {
   while (true) {
+    const ok = await catchUp(indexer);
+    await sleep(pollingDelay(indexer, ok));
+  }
+}
+
+// How long the poll loop waits after a pass that succeeded or failed
+export function pollingDelay(indexer: ChainIndexer, ok: boolean): number {
+  if (!ok) {
+    return POLLING_INTERVAL * 2; // Wait longer on error
+  }
+  // Up to date, wait for new blocks
+  return indexer.subscribed ? SUBSCRIBED_POLLING_INTERVAL : POLLING_INTERVAL;
+}
+
+// Index as soon as the subscription reports events. Returns a function that
+// unsubscribes. Exported, with catchUp, so tests can drive the websocket mode.
+export function startSubscription(indexer: ChainIndexer): () => void {
+  const { chainId } = indexer;
+  indexer.subscribed = true;
+
+  return subscribeToIndexedEvents(chainId, {
+    onEvents: (blockNumber) => {
+      logger.info(`Subscription reported events in block ${blockNumber} on chain ${chainId}`);
+      catchUp(indexer);
+    },
+    onDisconnect: () => {
+      logger.warn(`Event subscription on chain ${chainId} lost, falling back to polling`);
+      indexer.subscribed = false;
+    },
+    onResubscribe: () => {
+      indexer.subscribed = true;
+      // Backfill whatever was emitted while the socket was down
+      catchUp(indexer);
+    },
+  });
+}
+
+// Index from nextBlock up to the current head. Resolves false if a range failed;
+// it is retried from the same block next time.
+export function catchUp(indexer: ChainIndexer): Promise<boolean> {
+  indexer.indexing = indexer.indexing.then(async () => {
     try {
-      // Get latest block
-      const latestBlock = await client.getBlockNumber();
+      // Uncached, so a wake-up from the subscription sees the block it reported
+      const latestBlock = await getClient(indexer.chainId).getBlockNumber({ cacheTime: 0 });
+      await recordHeadBlock(indexer.chainId, latestBlock);
 
-      if (currentBlock >= latestBlock) {
-        // Up to date, wait for new blocks
-        await sleep(POLLING_INTERVAL);
-        continue;
+      while (indexer.nextBlock <= latestBlock) {
+        indexer.nextBlock = await indexNextRange(indexer.chainId, indexer.nextBlock, latestBlock);
       }
+      return true;
+    } catch (error) {
+      logger.error(`Indexer error on chain ${indexer.chainId}:`, error);
+      return false;
+    }
+  });
+  return indexer.indexing;
+}
 
-      // Calculate end block for this batch
-      const endBlock = currentBlock + BigInt(BLOCKS_PER_BATCH) < latestBlock
-        ? currentBlock + BigInt(BLOCKS_PER_BATCH)
-        : latestBlock;
+// Index one batch starting at fromBlock and finalize what is deep enough.
+// Returns the block to continue from, which is earlier than fromBlock after a reorg.
+// Exported so tests can step the indexer against a local Hardhat node.
+export async function indexNextRange(chainId: number, fromBlock: bigint, latestBlock: bigint): Promise<bigint> {
+  const client = getClient(chainId);
+
+  // Make sure the new range still builds on what we indexed last
+  const reorgAncestor = await detectReorg(chainId, client, fromBlock);
+  if (reorgAncestor !== null) {
+    await rollbackToBlock(chainId, reorgAncestor);
+    return reorgAncestor + BigInt(1);
+  }
 
-      logger.info(`Indexing blocks ${currentBlock} to ${endBlock}`);
+  // Fetch and process logs; the batch ends wherever the provider's range limit allows
+  const endBlock = await indexBlockRange(chainId, fromBlock, latestBlock);
+  logger.info(`Indexed blocks ${fromBlock} to ${endBlock} on chain ${chainId}`);
 
-      // Fetch and process logs
-      await indexBlockRange(currentBlock, endBlock);
+  // Anchor the next batch's parent hash check
+  const lastBlock = await client.getBlock({ blockNumber: endBlock });
+  await recordBlockHash(chainId, endBlock, lastBlock.hash);
 
-      // Update state
-      await prisma.indexerState.update({
-        where: { id: 'singleton' },
-        data: { lastBlockNumber: endBlock },
-      });
+  await prisma.indexerState.update({
+    where: { chainId },
+    data: { lastIndexedBlock: endBlock },
+  });
 
-      currentBlock = endBlock + BigInt(1);
-    } catch (error) {
-      logger.error('Indexer error:', error);
-      await sleep(POLLING_INTERVAL * 2); // Wait longer on error
-    }
+  // Only blocks CONFIRMATION_DEPTH behind the head become final
+  const finalizeTarget = latestBlock - CONFIRMATION_DEPTH < endBlock
+    ? latestBlock - CONFIRMATION_DEPTH
+    : endBlock;
+
+  const finalizeAncestor = await finalizeBlocks(chainId, client, finalizeTarget);
+  if (finalizeAncestor !== null) {
+    await rollbackToBlock(chainId, finalizeAncestor);
+    return finalizeAncestor + BigInt(1);
   }
+
+  return endBlock + BigInt(1);
 }
 
-async function indexBlockRange(fromBlock: bigint, toBlock: bigint) {
-  if (!CONTRACT_ADDRESS) {
-    logger.warn('Contract address not configured, skipping indexing');
-    return;
+// Index one batch of logs from fromBlock and return the last block it covered
+async function indexBlockRange(chainId: number, fromBlock: bigint, latestBlock: bigint): Promise<bigint> {
+  const contracts = indexedContracts(chainId).filter(contract => contract.address);
+  if (contracts.length === 0) {
+    logger.warn(`Contract addresses not configured for chain ${chainId}, skipping indexing`);
+    return batchEnd(chainId, fromBlock, latestBlock);
   }
 
-  // Fetch logs for each event type
-  for (const eventSig of EVENTS) {
-    try {
-      const logs = await client.getLogs({
-        address: CONTRACT_ADDRESS as `0x${string}`,
-        event: parseAbiItem(`event ${eventSig}`) as any,
-        fromBlock,
-        toBlock,
-      });
-
-      for (const log of logs) {
-        await processEvent(log, eventSig.split('(')[0]);
+  const contractsByAddress = new Map(
+    contracts.map(contract => [contract.address.toLowerCase(), contract])
+  );
+
+  // One query for every indexed event of every contract
+  const address = contracts.map(contract => contract.address as `0x${string}`);
+  const events = contracts.flatMap(contract =>
+    contract.events.map(eventName => getAbiItem({ abi: contract.abi as Abi, name: eventName }) as AbiEvent)
+  );
+  const { result: logs, toBlock } = await fetchAdaptive(chainId, fromBlock, latestBlock, (from, to) =>
+    getClient(chainId).getLogs({ address, events, fromBlock: from, toBlock: to })
+  );
+
+  // Apply in chain order so e.g. a will exists before its beneficiaries are added
+  logs.sort(compareLogs);
+
+  // Last block in this range at which each will was touched
+  const touchedWills = new Map<bigint, bigint>();
+
+  for (const log of logs) {
+    const contract = contractsByAddress.get(log.address.toLowerCase());
+    if (!contract) continue;
+
+    if (log.blockNumber !== null && log.blockHash !== null) {
+      await recordBlockHash(chainId, log.blockNumber, log.blockHash);
+    }
+    await processEvent(chainId, log, contract.name, log.eventName);
+
+    if (contract.name === 'BaseWill' && ENRICHING_EVENTS.has(log.eventName) && log.blockNumber !== null) {
+      const { willId } = log.args as { willId?: bigint };
+      if (willId !== undefined) {
+        touchedWills.set(willId, log.blockNumber);
       }
-    } catch (error) {
-      logger.error(`Error fetching logs for ${eventSig}:`, error);
     }
   }
+
+  // One multicall round per block rather than per event
+  const willsByBlock = new Map<bigint, bigint[]>();
+  for (const [willId, blockNumber] of touchedWills) {
+    willsByBlock.set(blockNumber, [...(willsByBlock.get(blockNumber) ?? []), willId]);
+  }
+  for (const [blockNumber, willIds] of willsByBlock) {
+    await enrichWills(chainId, willIds, blockNumber);
+  }
+
+  return toBlock;
+}
+
+function compareLogs(a: Log, b: Log): number {
+  return compareBigInt(a.blockNumber, b.blockNumber)
+    || (a.transactionIndex ?? 0) - (b.transactionIndex ?? 0)
+    || (a.logIndex ?? 0) - (b.logIndex ?? 0);
+}
+
+function compareBigInt(a: bigint | null, b: bigint | null): number {
+  const left = a ?? BigInt(0);
+  const right = b ?? BigInt(0);
+  return left < right ? -1 : left > right ? 1 : 0;
 }
 
 function sleep(ms: number): Promise<void> {
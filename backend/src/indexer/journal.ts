@@ -0,0 +1,243 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { STATS_MODELS, applyStatsChange } from './platformStats.js';
+
+// Projection journal
+//
+// Every write the event processor makes while handling a block is recorded
+// together with the row's previous state. If that block is later orphaned by
+// a reorg, the journal is replayed in reverse to restore the projections.
+// Entries are pruned once their block is finalized.
+//
+// Inside inTransaction, every write (journaled or not) and its journal entry
+// go through one database transaction, together with the PlatformStats change
+// it causes (see platformStats.ts).
+
+const prisma = new PrismaClient();
+
+// Models written while applying events. Users are left out on purpose: they are
+// only ever upserted with empty updates and may have been edited through the API.
+const JOURNALED_MODELS = new Set([
+  'Will',
+  'WillBeneficiary',
+  'WillAsset',
+  'WillGuardian',
+  'VestingRelease',
+  'WillPayout',
+  'Activity',
+  'NotaryAssignment',
+  'NotaryVerification',
+  'Notary',
+  'Dispute',
+  'PendingNotification',
+  'ProcessedEvent',
+  'RawEvent',
+  'DeadLetterEvent',
+  'WebhookDelivery',
+]);
+
+// Long enough for a handler that writes many rows
+const TRANSACTION_TIMEOUT = 30000;
+
+interface BlockContext {
+  chainId: number;
+  blockNumber: bigint;
+  tx?: Prisma.TransactionClient;
+}
+
+const blockContext = new AsyncLocalStorage<BlockContext>();
+
+// Run fn with every journaled write attributed to blockNumber on chainId
+export function runInBlock<T>(chainId: number, blockNumber: bigint, fn: () => Promise<T>): Promise<T> {
+  return blockContext.run({ chainId, blockNumber }, fn);
+}
+
+function currentBlock() {
+  const block = blockContext.getStore();
+  if (block === undefined) {
+    throw new Error('Not inside runInBlock');
+  }
+  return block;
+}
+
+// Run fn inside the current block in one database transaction. If fn throws,
+// none of its writes are kept.
+export function inTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  const block = currentBlock();
+  if (block.tx) {
+    return fn();
+  }
+  return prisma.$transaction(
+    tx => blockContext.run({ ...block, tx }, fn),
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+}
+
+// Block whose event is currently being applied
+export function currentBlockNumber(): bigint {
+  return currentBlock().blockNumber;
+}
+
+// Chain whose event is currently being applied
+export function currentChainId(): number {
+  return currentBlock().chainId;
+}
+
+export const journaledPrisma = prisma.$extends({
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        const block = blockContext.getStore();
+        const client = block?.tx ?? prisma;
+        const delegate = getDelegate(client, model);
+        const run = (): Promise<any> => (block?.tx ? delegate[operation](args) : query(args));
+
+        if (block === undefined || !JOURNALED_MODELS.has(model)) {
+          return run();
+        }
+
+        const where = (args as any).where;
+        const tracksStats = STATS_MODELS.has(model);
+
+        switch (operation) {
+          case 'create': {
+            const result = await run();
+            await recordChange(client, block, model, result.id, null);
+            if (tracksStats) await applyStatsChange(client, block.chainId, model, null, result);
+            return result;
+          }
+          case 'update':
+          case 'upsert':
+          case 'delete': {
+            const before = await delegate.findUnique({ where });
+            const result = await run();
+            await recordChange(client, block, model, (before ?? result).id, before);
+            if (tracksStats) {
+              await applyStatsChange(client, block.chainId, model, before, operation === 'delete' ? null : result);
+            }
+            return result;
+          }
+          case 'updateMany':
+          case 'deleteMany': {
+            const rows = await delegate.findMany({ where });
+            const result = await run();
+            for (const row of rows) {
+              await recordChange(client, block, model, row.id, row);
+            }
+            if (tracksStats) {
+              const after = operation === 'deleteMany'
+                ? []
+                : await delegate.findMany({ where: { id: { in: rows.map((row: any) => row.id) } } });
+              const afterById = new Map(after.map((row: any) => [row.id, row]));
+              for (const row of rows) {
+                await applyStatsChange(client, block.chainId, model, row, afterById.get(row.id) ?? null);
+              }
+            }
+            return result;
+          }
+          default:
+            return run();
+        }
+      },
+    },
+  },
+});
+
+async function recordChange(
+  client: Prisma.TransactionClient,
+  { chainId, blockNumber }: BlockContext,
+  model: string,
+  recordId: string,
+  before: Record<string, unknown> | null
+) {
+  await client.projectionChange.create({
+    data: {
+      chainId,
+      blockNumber,
+      model,
+      recordId,
+      before: before ? serializeRecord(before) : Prisma.JsonNull,
+    },
+  });
+}
+
+// Undo every journaled write made by blocks on chainId after ancestorBlock
+export async function rollbackProjections(chainId: number, ancestorBlock: bigint) {
+  const changes = await prisma.projectionChange.findMany({
+    where: { chainId, blockNumber: { gt: ancestorBlock } },
+    orderBy: { id: 'desc' },
+  });
+
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const change of changes) {
+      const delegate = getDelegate(tx, change.model);
+
+      if (change.before === null) {
+        // Row was created by an orphaned block
+        if (change.model === 'Will') {
+          await tx.notification.deleteMany({ where: { willId: change.recordId } });
+        }
+        await delegate.deleteMany({ where: { id: change.recordId } });
+      } else {
+        const data = reviveRecord(change.model, change.before as Record<string, unknown>);
+        await delegate.upsert({
+          where: { id: change.recordId },
+          create: data,
+          update: data,
+        });
+      }
+    }
+
+    await tx.projectionChange.deleteMany({
+      where: { chainId, blockNumber: { gt: ancestorBlock } },
+    });
+  }, { timeout: 60000 });
+
+  logger.info(`Rolled back ${changes.length} projection changes after block ${ancestorBlock} on chain ${chainId}`);
+  return changes.length;
+}
+
+// Drop journal entries for blocks that can no longer be reorged
+export async function pruneJournal(chainId: number, finalizedBlock: bigint) {
+  await prisma.projectionChange.deleteMany({
+    where: { chainId, blockNumber: { lte: finalizedBlock } },
+  });
+}
+
+function getDelegate(client: any, model: string) {
+  return client[model.charAt(0).toLowerCase() + model.slice(1)];
+}
+
+function serializeRecord(record: Record<string, unknown>) {
+  return JSON.parse(
+    JSON.stringify(record, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+  );
+}
+
+// Convert a JSON before-image back into Prisma input using the schema's field types
+function reviveRecord(model: string, record: Record<string, unknown>) {
+  const fields = Prisma.dmmf.datamodel.models.find(m => m.name === model)?.fields ?? [];
+  const data: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    if (field.kind === 'object' || !(field.name in record)) continue;
+
+    const value = record[field.name];
+    if (value === null) {
+      data[field.name] = field.type === 'Json' ? Prisma.JsonNull : null;
+    } else if (field.type === 'BigInt') {
+      data[field.name] = BigInt(value as string);
+    } else if (field.type === 'DateTime') {
+      data[field.name] = new Date(value as string);
+    } else {
+      data[field.name] = value;
+    }
+  }
+
+  return data;
+}
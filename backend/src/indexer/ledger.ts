@@ -0,0 +1,40 @@
+import { Log } from 'viem';
+import { journaledPrisma as prisma, currentChainId } from './journal.js';
+
+// Processed-event ledger
+//
+// A batch is replayed when the indexer stops between applying its logs and
+// advancing IndexerState. Logs recorded here are skipped on replay. Ledger
+// rows are journaled, so logs from orphaned blocks are forgotten on reorg.
+
+export async function isProcessed(log: Log, chainId = currentChainId()): Promise<boolean> {
+  const processed = await prisma.processedEvent.findUnique({
+    where: {
+      chainId_txHash_logIndex: {
+        chainId,
+        txHash: log.transactionHash ?? '',
+        logIndex: log.logIndex ?? 0,
+      },
+    },
+  });
+  return processed !== null;
+}
+
+export async function markProcessed(log: Log, eventName: string) {
+  await prisma.processedEvent.create({
+    data: {
+      chainId: currentChainId(),
+      txHash: log.transactionHash ?? '',
+      logIndex: log.logIndex ?? 0,
+      blockNumber: log.blockNumber ?? BigInt(0),
+      eventName,
+    },
+  });
+}
+
+// Stable id for a row created by a log, so re-running its handler upserts
+// the same row instead of inserting a duplicate
+export function eventRowId(log: Log, suffix?: string): string {
+  const id = `${currentChainId()}:${log.transactionHash}:${log.logIndex}`;
+  return suffix ? `${id}:${suffix}` : id;
+}
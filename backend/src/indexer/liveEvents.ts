@@ -0,0 +1,176 @@
+import { EventEmitter } from 'node:events';
+import { Log, decodeEventLog, isAddress } from 'viem';
+import { ActivityType, PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import { logger } from '../utils/logger.js';
+import { LiveEvent, liveEventSchema } from '../shared/api.js';
+import { getWillNotaries } from '../database/queries.js';
+import { IndexedContract, contractAbi } from './config.js';
+import { ACTIVITY_TYPES, willRowId } from './enums.js';
+import { getClient } from './client.js';
+
+// Live events for GET /api/stream
+//
+// Once an event's writes are committed, the indexer publishes it to every
+// address involved: addresses in the event itself plus the will's testator,
+// beneficiaries, notaries (those that verified it) and guardians, and the
+// delegate behind a delegated check-in. With REDIS_URL set, events go through Redis pub/sub so API
+// instances reach streams opened against other instances; otherwise they are
+// delivered in process.
+
+const prisma = new PrismaClient();
+
+const CHANNEL = 'basewill:live-events';
+
+// Backfilled history is not news to anyone
+const MAX_EVENT_AGE_MS = 10 * 60 * 1000;
+
+interface LiveMessage {
+  addresses: string[];
+  event: LiveEvent;
+}
+
+type Listener = (event: LiveEvent) => void;
+
+const local = new EventEmitter().setMaxListeners(0);
+
+function deliver({ addresses, event }: LiveMessage) {
+  for (const address of addresses) {
+    local.emit(address, event);
+  }
+}
+
+// Connections are opened on first use, so scripts that load the indexer
+// without publishing (rebuild, replay) don't hold a Redis connection open
+let publisher: Redis | null | undefined;
+let subscriber: Redis | null | undefined;
+
+// Publishes fail straight away while disconnected instead of queueing
+function createPublisher(): Redis | null {
+  if (!process.env.REDIS_URL) return null;
+  return new Redis(process.env.REDIS_URL, {
+    enableOfflineQueue: false,
+    maxRetriesPerRequest: 1,
+  }).on('error', error => logger.warn(`Live events Redis error: ${error.message}`));
+}
+
+function ensureSubscribed() {
+  if (subscriber !== undefined) return;
+
+  // Subscribing happens while connecting, so this connection queues commands
+  subscriber = process.env.REDIS_URL
+    ? new Redis(process.env.REDIS_URL).on('error', error => logger.warn(`Live events Redis subscriber error: ${error.message}`))
+    : null;
+  if (!subscriber) return;
+
+  subscriber.subscribe(CHANNEL).catch(error => logger.warn(`Failed to subscribe to live events: ${error.message}`));
+  subscriber.on('message', (channel, payload) => {
+    if (channel !== CHANNEL) return;
+    try {
+      deliver(JSON.parse(payload));
+    } catch (error) {
+      logger.warn('Dropped malformed live event:', error);
+    }
+  });
+}
+
+// Calls listener with every event involving address; returns the unsubscribe function
+export function subscribeLiveEvents(address: string, listener: Listener): () => void {
+  ensureSubscribed();
+
+  const key = address.toLowerCase();
+  local.on(key, listener);
+  return () => {
+    local.off(key, listener);
+  };
+}
+
+// Addresses among the event's arguments
+function eventAddresses(log: Log, contract: IndexedContract): { addresses: string[]; args: Record<string, unknown> } {
+  const { args } = decodeEventLog({ abi: contractAbi(contract), data: log.data, topics: log.topics });
+  const named = (args ?? {}) as Record<string, unknown>;
+  const addresses = Object.values(named)
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is string => typeof value === 'string' && isAddress(value))
+    .map(value => value.toLowerCase());
+  return { addresses, args: named };
+}
+
+async function buildMessage(chainId: number, log: Log, contract: IndexedContract, eventName: string): Promise<LiveMessage> {
+  const { addresses, args } = eventAddresses(log, contract);
+  const recipients = new Set(addresses);
+
+  const onchainId = typeof args.willId === 'bigint' ? args.willId : null;
+  let status: LiveEvent['status'] = null;
+
+  if (onchainId !== null) {
+    const willId = willRowId(chainId, onchainId);
+    const [will, notaries] = await Promise.all([
+      prisma.will.findUnique({
+        where: { id: willId },
+        select: {
+          status: true,
+          testatorAddress: true,
+          beneficiaries: { select: { beneficiaryAddress: true } },
+          guardians: { select: { guardianAddress: true } },
+        },
+      }),
+      getWillNotaries(willId),
+    ]);
+
+    if (will) {
+      status = will.status;
+      [
+        will.testatorAddress,
+        ...will.beneficiaries.map(b => b.beneficiaryAddress),
+        ...notaries,
+        ...will.guardians.map(g => g.guardianAddress),
+      ].forEach(address => recipients.add(address.toLowerCase()));
+    }
+  }
+
+  // The contract doesn't name the delegate, who is whoever sent the transaction
+  if (eventName === 'ActivityRecorded'
+    && ACTIVITY_TYPES[Number(args.activityType)] === ActivityType.DELEGATED_CHECK_IN
+    && log.transactionHash) {
+    const tx = await getClient(chainId).getTransaction({ hash: log.transactionHash });
+    recipients.add(tx.from.toLowerCase());
+  }
+
+  const event = liveEventSchema.parse({
+    chainId,
+    contract,
+    event: eventName,
+    willId: onchainId,
+    status,
+    blockNumber: log.blockNumber ?? BigInt(0),
+    txHash: log.transactionHash || '',
+    logIndex: log.logIndex ?? 0,
+  });
+
+  return { addresses: [...recipients], event };
+}
+
+// Publish an applied event. Never throws: a stream missing an event must not stop indexing.
+export async function publishLiveEvent(chainId: number, log: Log, contract: IndexedContract, eventName: string, blockTime: Date) {
+  if (Date.now() - blockTime.getTime() > MAX_EVENT_AGE_MS) return;
+
+  try {
+    const message = await buildMessage(chainId, log, contract, eventName);
+    if (message.addresses.length === 0) return;
+
+    if (publisher === undefined) publisher = createPublisher();
+    if (publisher) {
+      try {
+        await publisher.publish(CHANNEL, JSON.stringify(message));
+        return;
+      } catch (error) {
+        // Reaches this instance's streams until Redis is back
+        logger.warn(`Failed to publish live event to Redis: ${(error as Error).message}`);
+      }
+    }
+    deliver(message);
+  } catch (error) {
+    logger.warn(`Failed to publish live ${eventName} event:`, error);
+  }
+}
@@ -0,0 +1,68 @@
+import { BaseError, LimitExceededRpcError } from 'viem';
+import { logger } from '../utils/logger.js';
+
+// Adaptive getLogs ranges
+//
+// Providers cap getLogs by block range or by result count, and a capped call
+// fails the whole batch. Each chain keeps its own range size: it halves when
+// the provider rejects a range and grows back while calls succeed, up to
+// INDEXER_BATCH_SIZE.
+
+const MAX_BATCH_SIZE = BigInt(process.env.INDEXER_BATCH_SIZE || '1000');
+const MIN_BATCH_SIZE = BigInt(1);
+
+const batchSizes = new Map<number, bigint>();
+
+// Messages providers use for too-large ranges or responses
+const RANGE_ERROR = /too many|more than \d+ results|block range|range (is )?too (large|wide)|exceed(s|ed)? (the )?max|response size|limit exceeded/i;
+
+function batchSize(chainId: number): bigint {
+  return batchSizes.get(chainId) ?? MAX_BATCH_SIZE;
+}
+
+// Last block of the next batch starting at fromBlock
+export function batchEnd(chainId: number, fromBlock: bigint, latestBlock: bigint): bigint {
+  const endBlock = fromBlock + batchSize(chainId) - BigInt(1);
+  return endBlock < latestBlock ? endBlock : latestBlock;
+}
+
+function isRangeError(error: unknown): boolean {
+  if (error instanceof BaseError) {
+    return error.walk(cause => cause instanceof LimitExceededRpcError || RANGE_ERROR.test((cause as Error).message)) !== null;
+  }
+  return error instanceof Error && RANGE_ERROR.test(error.message);
+}
+
+// Run fetch over the largest range from fromBlock the provider accepts.
+// Returns its result and the last block it covered.
+export async function fetchAdaptive<T>(
+  chainId: number,
+  fromBlock: bigint,
+  latestBlock: bigint,
+  fetch: (fromBlock: bigint, toBlock: bigint) => Promise<T>,
+): Promise<{ result: T; toBlock: bigint }> {
+  for (;;) {
+    const toBlock = batchEnd(chainId, fromBlock, latestBlock);
+    try {
+      const result = await fetch(fromBlock, toBlock);
+
+      // Grow back by half again after every success
+      const size = batchSize(chainId);
+      if (size < MAX_BATCH_SIZE) {
+        const grown = size + size / BigInt(2) + BigInt(1);
+        batchSizes.set(chainId, grown < MAX_BATCH_SIZE ? grown : MAX_BATCH_SIZE);
+      }
+
+      return { result, toBlock };
+    } catch (error) {
+      const size = batchSize(chainId);
+      if (!isRangeError(error) || size <= MIN_BATCH_SIZE) {
+        throw error;
+      }
+
+      const shrunk = size / BigInt(2) > MIN_BATCH_SIZE ? size / BigInt(2) : MIN_BATCH_SIZE;
+      batchSizes.set(chainId, shrunk);
+      logger.warn(`getLogs rejected blocks ${fromBlock} to ${toBlock} on chain ${chainId}, retrying with ${shrunk} blocks`);
+    }
+  }
+}
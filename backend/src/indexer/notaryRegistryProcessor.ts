@@ -0,0 +1,310 @@
+import { Log, decodeEventLog } from 'viem';
+import { logger } from '../utils/logger.js';
+import { notaryRegistryAbi } from '../generated/abis.js';
+import { journaledPrisma as prisma, currentChainId } from './journal.js';
+
+// NotaryRegistry event handlers. The registry owns stake, reputation and
+// withdrawal state, so the Notary projection is driven from its events.
+
+// Mirrors NotaryRegistry.INITIAL_REPUTATION and REPUTATION_DECREASE
+const INITIAL_REPUTATION = 50;
+const REPUTATION_DECREASE = 10;
+
+export async function applyNotaryRegistryEvent(log: Log, eventName: string, txHash: string, blockTime: Date) {
+  switch (eventName) {
+    case 'NotaryRegistered':
+      await handleNotaryRegistered(log, blockTime);
+      break;
+    case 'StakeIncreased':
+      await handleStakeIncreased(log);
+      break;
+    case 'WithdrawalRequested':
+      await handleWithdrawalRequested(log);
+      break;
+    case 'WithdrawalCompleted':
+      await handleWithdrawalCompleted(log);
+      break;
+    case 'WithdrawalCancelled':
+      await handleWithdrawalCancelled(log);
+      break;
+    case 'NotarySlashed':
+      await handleNotarySlashed(log);
+      break;
+    case 'ReputationUpdated':
+      await handleReputationUpdated(log);
+      break;
+    case 'NotaryRemoved':
+      await handleNotaryRemoved(log);
+      break;
+    case 'VerificationRecorded':
+      await handleVerificationRecorded(log);
+      break;
+    case 'RewardDistributed':
+      await handleRewardDistributed(log);
+      break;
+    default:
+      logger.warn(`Unhandled NotaryRegistry event: ${eventName} (tx ${txHash})`);
+  }
+}
+
+// Notaries are registered per chain, each with that chain's registry
+function notaryKey(address: string) {
+  return { chainId_address: { chainId: currentChainId(), address: address.toLowerCase() } };
+}
+
+// Registry events for a notary we never saw register (e.g. indexing started
+// after the registration) have nothing to update
+async function findNotary(address: string) {
+  const notary = await prisma.notary.findUnique({
+    where: notaryKey(address),
+  });
+
+  if (!notary) {
+    logger.warn(`Registry event for unknown notary ${address}`);
+  }
+
+  return notary;
+}
+
+async function handleNotaryRegistered(log: Log, blockTime: Date) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'NotaryRegistered',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, stake } = decoded.args;
+
+  // Ensure user exists
+  await prisma.user.upsert({
+    where: { address: notary.toLowerCase() },
+    update: {},
+    create: { address: notary.toLowerCase() },
+  });
+
+  // A notary can register again after deregistering; the registry starts them fresh
+  const registration = {
+    stake: stake.toString(),
+    reputation: INITIAL_REPUTATION,
+    isActive: true,
+    registeredAt: blockTime,
+    totalVerifications: 0,
+    successfulVerifications: 0,
+    pendingWithdrawal: '0',
+    withdrawalAvailableAt: null,
+  };
+
+  await prisma.notary.upsert({
+    where: notaryKey(notary),
+    update: registration,
+    create: { chainId: currentChainId(), address: notary.toLowerCase(), ...registration },
+  });
+
+  logger.info(`Notary registered: ${notary} with stake ${stake}`);
+}
+
+async function handleStakeIncreased(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'StakeIncreased',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, totalStake } = decoded.args;
+
+  if (!(await findNotary(notary))) return;
+
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: { stake: totalStake.toString() },
+  });
+}
+
+async function handleWithdrawalRequested(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'WithdrawalRequested',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, amount, availableAt } = decoded.args;
+
+  if (!(await findNotary(notary))) return;
+
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: {
+      pendingWithdrawal: amount.toString(),
+      withdrawalAvailableAt: new Date(Number(availableAt) * 1000),
+    },
+  });
+}
+
+async function handleWithdrawalCompleted(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'WithdrawalCompleted',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, amount } = decoded.args;
+
+  const existingNotary = await findNotary(notary);
+  if (!existingNotary) return;
+
+  const newStake = BigInt(existingNotary.stake) - amount;
+
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: {
+      stake: newStake.toString(),
+      pendingWithdrawal: '0',
+      withdrawalAvailableAt: null,
+      // Withdrawing the whole stake deregisters the notary
+      isActive: newStake > BigInt(0) ? existingNotary.isActive : false,
+    },
+  });
+}
+
+async function handleWithdrawalCancelled(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'WithdrawalCancelled',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary } = decoded.args;
+
+  if (!(await findNotary(notary))) return;
+
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: {
+      pendingWithdrawal: '0',
+      withdrawalAvailableAt: null,
+    },
+  });
+}
+
+async function handleNotarySlashed(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'NotarySlashed',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, amount } = decoded.args;
+
+  const existingNotary = await findNotary(notary);
+  if (!existingNotary) return;
+
+  const newStake = BigInt(existingNotary.stake) - amount;
+
+  // The registry lowers reputation on a slash without a ReputationUpdated event
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: {
+      stake: newStake.toString(),
+      reputation: Math.max(existingNotary.reputation - REPUTATION_DECREASE, 0),
+    },
+  });
+}
+
+async function handleReputationUpdated(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'ReputationUpdated',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, oldScore, newScore } = decoded.args;
+
+  if (!(await findNotary(notary))) return;
+
+  // Reputation only goes up when a verification is marked successful.
+  // The registry skips the event once reputation is capped, so such
+  // verifications are not counted here.
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: {
+      reputation: Number(newScore),
+      successfulVerifications: newScore > oldScore ? { increment: 1 } : undefined,
+    },
+  });
+}
+
+async function handleNotaryRemoved(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'NotaryRemoved',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, reason, remainingStake } = decoded.args;
+
+  const existingNotary = await findNotary(notary);
+  if (!existingNotary) return;
+
+  // remainingStake is either refunded or, when slashed below the minimum,
+  // locked in the registry. Either way it is no longer active stake.
+  const newStake = BigInt(existingNotary.stake) - remainingStake;
+
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: {
+      stake: newStake.toString(),
+      isActive: false,
+      pendingWithdrawal: '0',
+      withdrawalAvailableAt: null,
+    },
+  });
+
+  logger.info(`Notary removed: ${notary} (${reason})`);
+}
+
+async function handleVerificationRecorded(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'VerificationRecorded',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary } = decoded.args;
+
+  if (!(await findNotary(notary))) return;
+
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: { totalVerifications: { increment: 1 } },
+  });
+}
+
+async function handleRewardDistributed(log: Log) {
+  const decoded = decodeEventLog({
+    abi: notaryRegistryAbi,
+    eventName: 'RewardDistributed',
+    data: log.data,
+    topics: log.topics,
+  });
+
+  const { notary, amount } = decoded.args;
+
+  const existingNotary = await findNotary(notary);
+  if (!existingNotary) return;
+
+  await prisma.notary.update({
+    where: notaryKey(notary),
+    data: {
+      rewardsEarned: (BigInt(existingNotary.rewardsEarned) + amount).toString(),
+    },
+  });
+}
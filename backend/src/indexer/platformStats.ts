@@ -0,0 +1,156 @@
+import { parseEther } from 'viem';
+import { Prisma } from '@prisma/client';
+
+// Incremental platform statistics
+//
+// Each will and notary contributes to PlatformStats according to its current
+// row: a will counts as created, as active/executed/cancelled by status, and
+// its value towards the secured or distributed total. When the journal sees a
+// write to one of them it adds the difference between the new and the old
+// contribution, in the same transaction as the write. cron/stats.ts still
+// recounts from scratch after a rollback or rebuild.
+
+// Value ranges of active wills, in ETH
+export const VALUE_BUCKETS = [
+  { range: '0-0.1', below: parseEther('0.1') },
+  { range: '0.1-1', below: parseEther('1') },
+  { range: '1-10', below: parseEther('10') },
+  { range: '10-100', below: parseEther('100') },
+  { range: '100+', below: null },
+] as const;
+
+export type ValueBuckets = Record<string, number>;
+
+export interface StatsTotals {
+  totalWillsCreated: number;
+  activeWills: number;
+  executedWills: number;
+  cancelledWills: number;
+  registeredNotaries: number;
+  totalValueSecured: bigint;
+  totalDistributed: bigint;
+  activeValueBuckets: ValueBuckets;
+}
+
+export function emptyBuckets(): ValueBuckets {
+  return Object.fromEntries(VALUE_BUCKETS.map(bucket => [bucket.range, 0]));
+}
+
+export function valueBucket(value: bigint): string {
+  return VALUE_BUCKETS.find(bucket => bucket.below === null || value < bucket.below)!.range;
+}
+
+function emptyTotals(): StatsTotals {
+  return {
+    totalWillsCreated: 0,
+    activeWills: 0,
+    executedWills: 0,
+    cancelledWills: 0,
+    registeredNotaries: 0,
+    totalValueSecured: BigInt(0),
+    totalDistributed: BigInt(0),
+    activeValueBuckets: emptyBuckets(),
+  };
+}
+
+// What one row adds to the totals; nothing for a missing row
+function contribution(model: string, row: Record<string, any> | null): StatsTotals {
+  const totals = emptyTotals();
+  if (row === null) return totals;
+
+  if (model === 'Notary') {
+    totals.registeredNotaries = row.isActive ? 1 : 0;
+    return totals;
+  }
+
+  const value = BigInt(row.totalValue || '0');
+  totals.totalWillsCreated = 1;
+  if (row.status === 'ACTIVE') {
+    totals.activeWills = 1;
+    totals.totalValueSecured = value;
+    totals.activeValueBuckets[valueBucket(value)] = 1;
+  } else if (row.status === 'EXECUTED') {
+    totals.executedWills = 1;
+    totals.totalDistributed = value;
+  } else if (row.status === 'CANCELLED') {
+    totals.cancelledWills = 1;
+  }
+  return totals;
+}
+
+function combine(a: StatsTotals, b: StatsTotals, sign: 1 | -1): StatsTotals {
+  const buckets = emptyBuckets();
+  for (const range of Object.keys(buckets)) {
+    buckets[range] = (a.activeValueBuckets[range] ?? 0) + sign * (b.activeValueBuckets[range] ?? 0);
+  }
+
+  return {
+    totalWillsCreated: a.totalWillsCreated + sign * b.totalWillsCreated,
+    activeWills: a.activeWills + sign * b.activeWills,
+    executedWills: a.executedWills + sign * b.executedWills,
+    cancelledWills: a.cancelledWills + sign * b.cancelledWills,
+    registeredNotaries: a.registeredNotaries + sign * b.registeredNotaries,
+    totalValueSecured: a.totalValueSecured + BigInt(sign) * b.totalValueSecured,
+    totalDistributed: a.totalDistributed + BigInt(sign) * b.totalDistributed,
+    activeValueBuckets: buckets,
+  };
+}
+
+function isZero(totals: StatsTotals): boolean {
+  return totals.totalWillsCreated === 0
+    && totals.activeWills === 0
+    && totals.executedWills === 0
+    && totals.cancelledWills === 0
+    && totals.registeredNotaries === 0
+    && totals.totalValueSecured === BigInt(0)
+    && totals.totalDistributed === BigInt(0)
+    && Object.values(totals.activeValueBuckets).every(count => count === 0);
+}
+
+export const STATS_MODELS = new Set(['Will', 'Notary']);
+
+// Add the effect of a Will or Notary row changing from before to after.
+// client is the transaction the row was written in.
+export async function applyStatsChange(
+  client: Prisma.TransactionClient,
+  chainId: number,
+  model: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+) {
+  const delta = combine(contribution(model, after), contribution(model, before), -1);
+  if (isZero(delta)) return;
+
+  // Dead-letter retries and reconcile heals write stats alongside the indexer.
+  // The value columns are strings and JSON, so rather than atomic increments
+  // the row is locked until the transaction ends and updated from its locked value.
+  await client.platformStats.createMany({ data: [{ chainId }], skipDuplicates: true });
+  await client.$queryRaw`SELECT 1 FROM "PlatformStats" WHERE "chainId" = ${chainId} FOR UPDATE`;
+
+  const row = await client.platformStats.findUniqueOrThrow({ where: { chainId } });
+  const current: StatsTotals = {
+    ...row,
+    totalValueSecured: BigInt(row.totalValueSecured),
+    totalDistributed: BigInt(row.totalDistributed),
+    activeValueBuckets: { ...emptyBuckets(), ...(row.activeValueBuckets as ValueBuckets) },
+  };
+
+  await client.platformStats.update({
+    where: { chainId },
+    data: toRecord(combine(current, delta, 1)),
+  });
+}
+
+// PlatformStats columns for a set of totals
+export function toRecord(totals: StatsTotals) {
+  return {
+    totalWillsCreated: totals.totalWillsCreated,
+    activeWills: totals.activeWills,
+    executedWills: totals.executedWills,
+    cancelledWills: totals.cancelledWills,
+    registeredNotaries: totals.registeredNotaries,
+    totalValueSecured: totals.totalValueSecured.toString(),
+    totalDistributed: totals.totalDistributed.toString(),
+    activeValueBuckets: totals.activeValueBuckets,
+  };
+}
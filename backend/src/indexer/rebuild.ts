@@ -0,0 +1,137 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { updatePlatformStats } from '../cron/stats.js';
+import { CHAIN_IDS, IndexedContract } from './config.js';
+import { replayEvent } from './eventProcessor.js';
+import { readRawEvents, toLog } from './eventStore.js';
+import { enrichWills } from './enrichment.js';
+import { pruneJournal } from './journal.js';
+import { rollbackToBlock } from './reorg.js';
+
+// Rebuild projections from the raw event store
+//
+//   npm run rebuild              # every indexed chain
+//   npm run rebuild -- 84532     # one chain
+//
+// Stop the indexer (ENABLE_INDEXER=false or stop the backend) first.
+// Unfinalized blocks are rolled back, the chain's projections are wiped, and
+// every stored event up to the finalized block is replayed in chain order. The
+// indexer continues from the finalized block when it starts again.
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const ENRICH_BATCH_SIZE = 100;
+
+async function rebuild(chainId: number) {
+  const state = await prisma.indexerState.findUnique({ where: { chainId } });
+  const finalized = state?.lastBlockNumber ?? BigInt(0);
+
+  // Leave only final history, which has no journal entries to keep consistent
+  await rollbackToBlock(chainId, finalized);
+
+  // Notifications outlive the wipe; will ids are derived from on-chain ids, so links are restored afterwards
+  const links = await prisma.notification.findMany({
+    where: { will: { chainId } },
+    select: { id: true, willId: true },
+  });
+  const pending = await prisma.pendingNotification.findMany({ where: { chainId }, select: { id: true } });
+
+  logger.info(`Wiping projections of chain ${chainId}, replaying stored events up to block ${finalized}`);
+
+  const where = { chainId };
+  await prisma.$transaction([
+    prisma.notification.updateMany({ where: { will: where }, data: { willId: null } }),
+    prisma.activity.deleteMany({ where }),
+    prisma.dispute.deleteMany({ where }),
+    prisma.notaryVerification.deleteMany({ where }),
+    prisma.notaryAssignment.deleteMany({ where }),
+    prisma.willAsset.deleteMany({ where }),
+    prisma.willGuardian.deleteMany({ where }),
+    prisma.vestingRelease.deleteMany({ where }),
+    prisma.willPayout.deleteMany({ where }),
+    prisma.willBeneficiary.deleteMany({ where }),
+    prisma.will.deleteMany({ where }),
+    prisma.notary.deleteMany({ where }),
+  ]);
+
+  let replayed = 0;
+  let failed = 0;
+
+  for await (const event of readRawEvents(chainId, finalized)) {
+    try {
+      await replayEvent(chainId, toLog(event), event.contract as IndexedContract, event.eventName, event.blockTime);
+      replayed++;
+
+      // A dead-lettered event that replays cleanly no longer needs a retry
+      await prisma.deadLetterEvent.deleteMany({
+        where: { chainId: event.chainId, txHash: event.txHash, logIndex: event.logIndex },
+      });
+    } catch (error) {
+      failed++;
+      logger.error(`Failed to replay ${event.eventName} (${event.txHash}:${event.logIndex}):`, error);
+    }
+
+    if ((replayed + failed) % 1000 === 0) {
+      logger.info(`Replayed ${replayed + failed} events`);
+    }
+  }
+
+  // Everything replayed is final
+  await pruneJournal(chainId, finalized);
+
+  // Replayed events queue their notifications again. Only those that were
+  // still waiting before the rebuild should go out.
+  await prisma.pendingNotification.deleteMany({
+    where: { chainId, id: { notIn: pending.map(p => p.id) } },
+  });
+
+  const willIds = new Set((await prisma.will.findMany({ where, select: { id: true } })).map(w => w.id));
+  const linksByWill = new Map<string, string[]>();
+  for (const link of links) {
+    if (link.willId && willIds.has(link.willId)) {
+      linksByWill.set(link.willId, [...(linksByWill.get(link.willId) ?? []), link.id]);
+    }
+  }
+  for (const [willId, ids] of linksByWill) {
+    await prisma.notification.updateMany({ where: { id: { in: ids } }, data: { willId } });
+  }
+
+  // Events alone leave out most of each will's settings; read the current ones
+  const onchainIds = (await prisma.will.findMany({ where, select: { onchainId: true } })).map(w => w.onchainId);
+  for (let i = 0; i < onchainIds.length; i += ENRICH_BATCH_SIZE) {
+    await enrichWills(chainId, onchainIds.slice(i, i + ENRICH_BATCH_SIZE));
+  }
+
+  await updatePlatformStats(chainId);
+
+  logger.info(`Rebuild of chain ${chainId} complete: ${replayed} events replayed, ${failed} failed`);
+  return failed;
+}
+
+async function rebuildChains() {
+  const requested = process.argv[2] ? [parseInt(process.argv[2])] : CHAIN_IDS;
+  const unknown = requested.filter(chainId => !CHAIN_IDS.includes(chainId));
+  if (unknown.length > 0) {
+    throw new Error(`Chain ${unknown.join(', ')} is not indexed (CHAIN_IDS=${CHAIN_IDS.join(',')})`);
+  }
+
+  let failed = 0;
+  for (const chainId of requested) {
+    failed += await rebuild(chainId);
+  }
+  return failed;
+}
+
+rebuildChains()
+  .then(async (failed) => {
+    await prisma.$disconnect();
+    process.exit(failed > 0 ? 1 : 0);
+  })
+  .catch(async (error) => {
+    logger.error('Rebuild failed:', error);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,137 @@
+import { PublicClient } from 'viem';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { sendNotification } from '../notifications/service.js';
+import { updatePlatformStats } from '../cron/stats.js';
+import { deliverDueWebhooks } from '../webhooks/service.js';
+import { rollbackProjections, pruneJournal } from './journal.js';
+
+const prisma = new PrismaClient();
+
+// Remember the hash of a processed block so later batches can detect reorgs
+export async function recordBlockHash(chainId: number, number: bigint, hash: string) {
+  await prisma.indexedBlock.upsert({
+    where: { chainId_number: { chainId, number } },
+    update: { hash },
+    create: { chainId, number, hash },
+  });
+}
+
+// Returns the common ancestor if fromBlock no longer builds on the block we
+// indexed before it, or null when the chain is still consistent
+export async function detectReorg(chainId: number, client: PublicClient, fromBlock: bigint): Promise<bigint | null> {
+  const previous = await prisma.indexedBlock.findUnique({
+    where: { chainId_number: { chainId, number: fromBlock - BigInt(1) } },
+  });
+
+  if (!previous) {
+    return null;
+  }
+
+  const block = await client.getBlock({ blockNumber: fromBlock });
+  if (block.parentHash === previous.hash) {
+    return null;
+  }
+
+  logger.warn(
+    `Reorg detected at block ${fromBlock} on chain ${chainId}: parent ${block.parentHash} does not match indexed ${previous.hash}`
+  );
+
+  return findCommonAncestor(chainId, client, previous.number);
+}
+
+// Walk back through the indexed blocks until one still matches the chain
+export async function findCommonAncestor(chainId: number, client: PublicClient, fromBlock: bigint): Promise<bigint> {
+  const indexedBlocks = await prisma.indexedBlock.findMany({
+    where: { chainId, number: { lte: fromBlock } },
+    orderBy: { number: 'desc' },
+  });
+
+  for (const indexed of indexedBlocks) {
+    const block = await client.getBlock({ blockNumber: indexed.number });
+    if (block.hash === indexed.hash) {
+      return indexed.number;
+    }
+  }
+
+  // Even the finalized block was replaced; nothing older is journaled
+  const state = await prisma.indexerState.findUnique({ where: { chainId } });
+  const finalized = state?.lastBlockNumber ?? BigInt(0);
+  logger.error(`Reorg is deeper than the confirmation depth, rolling back to finalized block ${finalized}`);
+  return finalized;
+}
+
+// Undo everything indexed after ancestorBlock so it can be re-indexed
+export async function rollbackToBlock(chainId: number, ancestorBlock: bigint) {
+  const reverted = await rollbackProjections(chainId, ancestorBlock);
+
+  await prisma.indexedBlock.deleteMany({
+    where: { chainId, number: { gt: ancestorBlock } },
+  });
+
+  await prisma.indexerState.update({
+    where: { chainId },
+    data: { lastIndexedBlock: ancestorBlock },
+  });
+
+  if (reverted > 0) {
+    await updatePlatformStats(chainId);
+  }
+
+  logger.info(`Indexer rolled back to block ${ancestorBlock} on chain ${chainId}`);
+}
+
+// Verify and finalize indexed blocks up to targetBlock. Returns the common
+// ancestor if one of them was reorged out, or null once they are final.
+export async function finalizeBlocks(chainId: number, client: PublicClient, targetBlock: bigint): Promise<bigint | null> {
+  const state = await prisma.indexerState.findUnique({ where: { chainId } });
+  const finalized = state?.lastBlockNumber ?? BigInt(0);
+
+  if (targetBlock <= finalized) {
+    return null;
+  }
+
+  // Nothing becomes final without checking it is still canonical
+  const candidates = await prisma.indexedBlock.findMany({
+    where: { chainId, number: { gt: finalized, lte: targetBlock } },
+    orderBy: { number: 'asc' },
+  });
+
+  for (const indexed of candidates) {
+    const block = await client.getBlock({ blockNumber: indexed.number });
+    if (block.hash !== indexed.hash) {
+      logger.warn(`Reorg detected while finalizing block ${indexed.number} on chain ${chainId}`);
+      return findCommonAncestor(chainId, client, indexed.number - BigInt(1));
+    }
+  }
+
+  await flushPendingNotifications(chainId, targetBlock);
+  await pruneJournal(chainId, targetBlock);
+
+  // Keep the finalized block itself as the anchor for the next parent check
+  await prisma.indexedBlock.deleteMany({
+    where: { chainId, number: { lt: targetBlock } },
+  });
+
+  await prisma.indexerState.update({
+    where: { chainId },
+    data: { lastBlockNumber: targetBlock },
+  });
+
+  // Webhooks for the newly final blocks go out without waiting for the cron job
+  deliverDueWebhooks(chainId).catch(error => logger.error(`Error delivering webhooks on chain ${chainId}:`, error));
+
+  return null;
+}
+
+async function flushPendingNotifications(chainId: number, finalizedBlock: bigint) {
+  const pending = await prisma.pendingNotification.findMany({
+    where: { chainId, blockNumber: { lte: finalizedBlock } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const notification of pending) {
+    await sendNotification(notification.payload as any);
+    await prisma.pendingNotification.delete({ where: { id: notification.id } });
+  }
+}
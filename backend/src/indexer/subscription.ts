@@ -0,0 +1,83 @@
+import { Abi, WatchContractEventReturnType, createPublicClient, webSocket } from 'viem';
+import { logger } from '../utils/logger.js';
+import { rpcErrors } from '../utils/metrics.js';
+import { getChainConfig, indexedContracts } from './config.js';
+
+// WebSocket event subscription
+//
+// Pushes a wake-up to the indexer as soon as an indexed contract emits, so
+// events don't wait for the next poll. Logs are not applied from the socket
+// itself: the indexer fetches them again through getLogs, which keeps ordering,
+// reorg checks and the processed-event ledger in one place. After the socket
+// drops, the subscription is re-created and onResubscribe backfills the gap.
+
+const RESUBSCRIBE_DELAY = 5000;
+
+export interface SubscriptionHandlers {
+  // An indexed contract emitted in this block
+  onEvents: (blockNumber: bigint) => void;
+  // The socket failed; polling should take over until it is back
+  onDisconnect: () => void;
+  // Subscribed again after a failure; events in between were missed
+  onResubscribe: () => void;
+}
+
+// Returns a function that unsubscribes and closes the socket
+export function subscribeToIndexedEvents(chainId: number, handlers: SubscriptionHandlers): () => void {
+  const { chain, wsUrl } = getChainConfig(chainId);
+  const wsClient = createPublicClient({
+    chain,
+    transport: webSocket(wsUrl),
+  });
+
+  let unwatchers: WatchContractEventReturnType[] = [];
+  let resubscribeTimer: NodeJS.Timeout | undefined;
+
+  const subscribe = (isRetry: boolean) => {
+    unwatchers = indexedContracts(chainId).filter(contract => contract.address).map(contract =>
+      wsClient.watchContractEvent({
+        address: contract.address as `0x${string}`,
+        abi: contract.abi as Abi,
+        onLogs: logs => {
+          const blocks = logs.map(log => log.blockNumber).filter((block): block is bigint => block !== null);
+          if (blocks.length > 0) {
+            handlers.onEvents(blocks.reduce((max, block) => (block > max ? block : max)));
+          }
+        },
+        onError: error => {
+          logger.error(`WebSocket subscription to ${contract.name} on chain ${chainId} failed:`, error);
+          rpcErrors.inc({ chain_id: chainId, method: 'eth_subscribe' });
+          scheduleResubscribe();
+        },
+      })
+    );
+
+    logger.info(`Subscribed to indexed events on chain ${chainId} over ${wsUrl}`);
+    if (isRetry) {
+      handlers.onResubscribe();
+    }
+  };
+
+  const scheduleResubscribe = () => {
+    // Every contract's watcher reports the same socket failure
+    if (resubscribeTimer) return;
+
+    unwatchers.forEach(unwatch => unwatch());
+    unwatchers = [];
+    handlers.onDisconnect();
+
+    resubscribeTimer = setTimeout(() => {
+      resubscribeTimer = undefined;
+      subscribe(true);
+    }, RESUBSCRIBE_DELAY);
+  };
+
+  subscribe(false);
+
+  return () => {
+    clearTimeout(resubscribeTimer);
+    unwatchers.forEach(unwatch => unwatch());
+    unwatchers = [];
+    wsClient.transport.getRpcClient().then(rpcClient => rpcClient.close(), () => {});
+  };
+}
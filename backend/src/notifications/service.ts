@@ -2,7 +2,9 @@ import nodemailer from 'nodemailer';
 import webpush from 'web-push';
 import { PrismaClient, NotificationType } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { notificationsSent } from '../utils/metrics.js';
 import { getEmailTemplate } from './templates.js';
+import { onchainWillId } from '../indexer/enums.js';
 
 const prisma = new PrismaClient();
 
@@ -26,17 +28,27 @@ const transporter = nodemailer.createTransport({
   },
 });
 
-interface NotificationPayload {
+export interface NotificationPayload {
   type: NotificationType | string;
   address: string;
   willId?: string;
   data?: Record<string, any>;
+  // Identifies the event that raised the notification; each key is sent at most once
+  dedupeKey?: string;
 }
 
 export async function sendNotification(payload: NotificationPayload) {
-  const { type, address, willId, data } = payload;
+  const { type, address, willId, data, dedupeKey } = payload;
 
   try {
+    if (dedupeKey) {
+      const existing = await prisma.notification.findUnique({ where: { dedupeKey } });
+      if (existing) {
+        logger.info(`Notification ${dedupeKey} already sent, skipping`);
+        return;
+      }
+    }
+
     // Get user
     const user = await prisma.user.findUnique({
       where: { address: address.toLowerCase() },
@@ -61,12 +73,13 @@ export async function sendNotification(payload: NotificationPayload) {
         type: type as NotificationType,
         title: getNotificationTitle(type),
         message: getNotificationMessage(type, data),
+        dedupeKey,
       },
     });
 
     // Send email if configured
     if (user.email) {
-      await sendEmail(user.email, type, willId, data);
+      await sendEmail(user.email, type, willId && onchainWillId(willId), data);
     }
 
     // Send push notification if configured
@@ -158,6 +171,7 @@ async function sendEmail(
 ) {
   if (!process.env.SMTP_USER) {
     logger.warn('Email not configured, skipping email notification');
+    notificationsSent.inc({ channel: 'email', outcome: 'skipped' });
     return;
   }
 
@@ -172,8 +186,10 @@ async function sendEmail(
     });
 
     logger.info(`Email sent to ${to}: ${type}`);
+    notificationsSent.inc({ channel: 'email', outcome: 'sent' });
   } catch (error) {
     logger.error('Error sending email:', error);
+    notificationsSent.inc({ channel: 'email', outcome: 'failed' });
   }
 }
 
@@ -184,6 +200,7 @@ async function sendPushNotification(
 ) {
   if (!process.env.VAPID_PUBLIC_KEY) {
     logger.warn('Web push not configured, skipping push notification');
+    notificationsSent.inc({ channel: 'push', outcome: 'skipped' });
     return;
   }
 
@@ -198,8 +215,10 @@ async function sendPushNotification(
 
     await webpush.sendNotification(subscription, payload);
     logger.info('Push notification sent');
+    notificationsSent.inc({ channel: 'push', outcome: 'sent' });
   } catch (error) {
     logger.error('Error sending push notification:', error);
+    notificationsSent.inc({ channel: 'push', outcome: 'failed' });
   }
 }
 
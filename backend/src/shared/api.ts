@@ -0,0 +1,1077 @@
+// This file is copied from shared/api.ts by scripts/sync-shared.ts.
+// Do not edit it by hand: change the original and run `npm run shared`.
+
+import { z } from 'zod/v4';
+
+// BaseWill API contract
+//
+// Request and response schemas for every route under /api. The backend
+// validates requests and serializes responses through them and serves them as
+// /api/openapi.json; scripts/generate-api-client.ts turns the route table into
+// the frontend's typed client. Response schemas take database rows and output
+// JSON, so BigInt columns come out as decimal strings and dates as ISO 8601.
+
+// Largest page any list endpoint returns
+export const MAX_PAGE_SIZE = 100;
+
+// Scalars
+
+export const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
+// On-chain will id; paths take the id on the chain selected by ?chainId=
+export const willIdSchema = z.string().regex(/^\d+$/);
+export const idSchema = z.uuid();
+
+const uint = z.bigint().transform(value => value.toString()).pipe(z.string().regex(/^\d+$/));
+const timestamp = z.date().transform(date => date.toISOString()).pipe(z.iso.datetime());
+// Wei amounts, stored as decimal strings
+const wei = z.string().regex(/^\d+$/);
+// Query parameter dates, as ISO 8601 dates or date-times
+const queryDate = z.string().pipe(z.coerce.date());
+
+// Enums, mirroring backend/prisma/schema.prisma
+
+export const willStatusSchema = z.enum([
+  'DRAFT', 'ACTIVE', 'TRIGGERED', 'IN_GRACE_PERIOD', 'PENDING_EXECUTION',
+  'EXECUTED', 'CANCELLED', 'DISPUTED', 'REVOKED',
+]);
+const activationModeSchema = z.enum(['INACTIVITY_BASED', 'NOTARY_TRIGGERED', 'HYBRID', 'DEAD_MANS_SWITCH']);
+const privacyModeSchema = z.enum(['PUBLIC', 'ENCRYPTED_BENEFICIARIES', 'FULLY_ENCRYPTED']);
+const vestingTypeSchema = z.enum(['IMMEDIATE', 'LINEAR', 'CLIFF', 'MILESTONE']);
+export const assetTypeSchema = z.enum(['ETH', 'ERC20', 'ERC721', 'ERC1155']);
+const payoutKindSchema = z.enum(['PLATFORM_FEE', 'NOTARY_REWARD', 'EXECUTOR_REWARD']);
+const disputeStatusSchema = z.enum(['PENDING', 'UNDER_REVIEW', 'RESOLVED_IN_FAVOR', 'RESOLVED_AGAINST', 'DISMISSED']);
+export const webhookDeliveryStatusSchema = z.enum(['PENDING', 'DELIVERED', 'FAILED']);
+export const activityTypeSchema = z.enum([
+  'WILL_CREATED', 'WILL_UPDATED', 'WILL_CANCELLED',
+  'BENEFICIARY_ADDED', 'BENEFICIARY_REMOVED', 'BENEFICIARY_UPDATED', 'BENEFICIARY_ACCEPTED', 'BENEFICIARY_REJECTED',
+  'ASSET_DEPOSITED', 'ASSET_REMOVED', 'ASSET_WITHDRAWN',
+  'CHECK_IN', 'DELEGATED_CHECK_IN',
+  'WILL_TRIGGERED', 'GRACE_PERIOD_STARTED', 'TRIGGER_CANCELLED', 'NOTARY_VERIFICATION',
+  'WILL_EXECUTED', 'ASSET_DISTRIBUTED', 'ASSET_CLAIMED',
+  'EMERGENCY_WITHDRAWAL_INITIATED', 'EMERGENCY_WITHDRAWAL_COMPLETED',
+  'DISPUTE_FILED', 'DISPUTE_PERIOD_STARTED', 'DISPUTE_RESOLVED',
+  'GUARDIAN_ADDED', 'GUARDIAN_RECOVERY_VOTE', 'GUARDIAN_RECOVERY_EXECUTED',
+  'FEE_DISTRIBUTED', 'NOTARY_REWARD_PAID', 'EXECUTOR_REWARD_PAID',
+]);
+export const notificationTypeSchema = z.enum([
+  'CHECK_IN_REMINDER_30D', 'CHECK_IN_REMINDER_7D', 'CHECK_IN_REMINDER_24H',
+  'WILL_TRIGGERED', 'GRACE_PERIOD_ENDING', 'WILL_EXECUTED', 'ASSET_DISTRIBUTED',
+  'BENEFICIARY_DESIGNATED', 'BENEFICIARY_ACCEPTED',
+  'NOTARY_VERIFICATION_REQUESTED', 'NOTARY_VERIFICATION_RECEIVED',
+  'DISPUTE_FILED', 'DISPUTE_RESOLVED', 'PLATFORM_UPDATE',
+]);
+
+// Pagination
+//
+// Short lists take ?limit=&offset=. Lists that grow without bound take
+// ?limit=&cursor=&sort=&order= and answer with their items plus `nextCursor`
+// (null on the last page) and `total` (rows matching the filters across all
+// pages). The cursor is the id of the last item.
+
+// ?limit=&offset= with limit capped at MAX_PAGE_SIZE
+export function pageSchema(defaultLimit: number) {
+  return z.object({
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(defaultLimit),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+}
+
+export function cursorSchema<const S extends readonly [string, ...string[]]>(sortFields: S, defaultLimit = 50) {
+  return z.object({
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(defaultLimit),
+    cursor: z.string().min(1).optional(),
+    sort: z.enum(sortFields).default(sortFields[0]),
+    order: z.enum(['asc', 'desc']).default('desc'),
+  });
+}
+
+// ?from=&to= on the list's date field; both ends inclusive
+export const dateRangeSchema = z.object({
+  from: queryDate.optional(),
+  to: queryDate.optional(),
+});
+
+function cursorPage<T extends z.ZodRawShape>(items: T) {
+  return z.object({
+    ...items,
+    nextCursor: z.string().nullable(),
+    total: z.number().int(),
+  });
+}
+
+// Request schemas
+
+export const willsQuerySchema = cursorSchema(['createdAt', 'lastActivityTime', 'onchainId']).extend({
+  ...dateRangeSchema.shape,
+  status: willStatusSchema.optional(),
+  assetType: assetTypeSchema.optional(),
+});
+
+export const willSearchQuerySchema = cursorSchema(['createdAt', 'totalValue', 'onchainId']).extend({
+  // Will ids and addresses match by prefix, Basenames and ENS names anywhere
+  q: z.string().trim().min(1).max(100).optional(),
+  status: willStatusSchema.optional(),
+  // Total value bounds in wei
+  minValue: wei.optional(),
+  maxValue: wei.optional(),
+});
+
+export const activityQuerySchema = cursorSchema(['timestamp']).extend({
+  ...dateRangeSchema.shape,
+  type: activityTypeSchema.optional(),
+});
+
+export const releasesQuerySchema = cursorSchema(['releasedAt']).extend(dateRangeSchema.shape);
+
+export const notariesQuerySchema = cursorSchema(['reputation', 'totalVerifications', 'registeredAt']).extend({
+  status: z.enum(['active', 'inactive', 'all']).default('active'),
+});
+
+export const notificationsQuerySchema = cursorSchema(['createdAt']).extend({
+  ...dateRangeSchema.shape,
+  type: notificationTypeSchema.optional(),
+  unreadOnly: z.enum(['true', 'false']).default('false'),
+});
+
+export const periodQuerySchema = z.object({
+  period: z.enum(['7d', '30d', '90d', '1y']).default('30d'),
+});
+
+const preferencesSchema = z.object({
+  checkInReminders: z.boolean().optional(),
+  willTriggered: z.boolean().optional(),
+  assetDistributed: z.boolean().optional(),
+  platformUpdates: z.boolean().optional(),
+});
+
+export const subscribeSchema = z.object({
+  address: addressSchema,
+  email: z.email().optional(),
+  telegram: z.string().optional(),
+  pushSubscription: z.object({
+    endpoint: z.string(),
+    keys: z.object({
+      p256dh: z.string(),
+      auth: z.string(),
+    }),
+  }).optional(),
+  preferences: preferencesSchema.optional(),
+});
+
+export const markReadSchema = z.object({
+  // Every unread notification when omitted
+  notificationIds: z.array(z.string()).optional(),
+});
+
+export const updatePreferencesSchema = z.object({
+  preferences: preferencesSchema,
+});
+
+export const updateProfileSchema = z.object({
+  email: z.email().optional(),
+  telegram: z.string().optional(),
+});
+
+export const verifySchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/),
+});
+
+export const reconcileSchema = z.object({
+  autoHeal: z.boolean().optional(),
+});
+
+export const webhookDeliveriesQuerySchema = cursorSchema(['createdAt']).extend({
+  status: webhookDeliveryStatusSchema.optional(),
+});
+
+const webhookUrlSchema = z.url({ protocol: /^https?$/ }).max(2048);
+
+// Empty filters match every event; notary registry events have no will id
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  eventTypes: z.array(z.string().min(1)).max(50).default([]),
+  willIds: z.array(willIdSchema).max(100).default([]),
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  eventTypes: z.array(z.string().min(1)).max(50).optional(),
+  willIds: z.array(willIdSchema).max(100).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Response schemas
+
+const successSchema = z.object({ success: z.literal(true) });
+
+export const errorSchema = z.object({ error: z.string() });
+
+const willSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  onchainId: uint,
+  testatorAddress: z.string(),
+  status: willStatusSchema,
+  activationMode: activationModeSchema,
+  inactivityThreshold: uint,
+  gracePeriod: uint,
+  disputePeriod: uint,
+  lastActivityTime: timestamp,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  executedAt: timestamp.nullable(),
+  totalValue: wei,
+  privacyMode: privacyModeSchema,
+  triggeredAt: timestamp.nullable(),
+  triggerReason: z.string().nullable(),
+  gracePeriodEndsAt: timestamp.nullable(),
+  disputePeriodEndsAt: timestamp.nullable(),
+  emergencyWithdrawalAvailableAt: timestamp.nullable(),
+});
+
+const beneficiarySchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  beneficiaryAddress: z.string(),
+  allocationBps: z.number().int(),
+  vestingType: vestingTypeSchema,
+  vestingDuration: uint.nullable(),
+  cliffDuration: uint.nullable(),
+  vestingStartDelay: uint.nullable(),
+  releaseInterval: uint.nullable(),
+  milestoneCondition: z.string().nullable(),
+  isPrimary: z.boolean(),
+  labelHash: z.string().nullable(),
+  hasAccepted: z.boolean(),
+  hasClaimed: z.boolean(),
+  claimedAmount: wei,
+  vestedAmount: wei,
+  nextReleaseAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+const assetSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  assetType: assetTypeSchema,
+  tokenAddress: z.string().nullable(),
+  tokenId: uint.nullable(),
+  amount: z.string(),
+  isIncluded: z.boolean(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+const guardianSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  guardianAddress: z.string(),
+  hasVotedForRecovery: z.boolean(),
+  addedAt: timestamp,
+});
+
+const vestingReleaseSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  beneficiaryAddress: z.string(),
+  amount: wei,
+  releaseNumber: z.number().int(),
+  releasedAt: timestamp,
+  txHash: z.string(),
+});
+
+const payoutSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  kind: payoutKindSchema,
+  recipient: z.string(),
+  amount: wei,
+  paidAt: timestamp,
+  txHash: z.string(),
+});
+
+const activitySchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  type: activityTypeSchema,
+  timestamp,
+  txHash: z.string().nullable(),
+  details: z.unknown(),
+  createdAt: timestamp,
+});
+
+const disputeSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  filer: z.string(),
+  reason: z.string(),
+  bond: wei,
+  status: disputeStatusSchema,
+  filedAt: timestamp,
+  resolvedAt: timestamp.nullable(),
+  resolution: z.string().nullable(),
+});
+
+const notarySchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  address: z.string(),
+  stake: wei,
+  reputation: z.number().int(),
+  isActive: z.boolean(),
+  registeredAt: timestamp,
+  totalVerifications: z.number().int(),
+  successfulVerifications: z.number().int(),
+  rewardsEarned: wei,
+  pendingWithdrawal: wei,
+  withdrawalAvailableAt: timestamp.nullable(),
+});
+
+const notaryAssignmentSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  notaryAddr: z.string(),
+  assignedAt: timestamp,
+  required: z.boolean(),
+});
+
+const notaryVerificationSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  willId: z.string(),
+  notaryAddr: z.string(),
+  verified: z.boolean(),
+  proofHash: z.string().nullable(),
+  submittedAt: timestamp,
+  txHash: z.string(),
+});
+
+const notificationSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  willId: z.string().nullable(),
+  type: notificationTypeSchema,
+  title: z.string(),
+  message: z.string(),
+  sent: z.boolean(),
+  sentAt: timestamp.nullable(),
+  readAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+
+// A will with its beneficiaries and assets, as listed to testators, beneficiaries and notaries
+const willWithPartiesSchema = willSchema.extend({
+  beneficiaries: z.array(beneficiarySchema),
+  assets: z.array(assetSchema),
+});
+
+const willSummarySchema = willSchema.pick({ id: true, testatorAddress: true, status: true });
+
+const withdrawableNotarySchema = notarySchema.extend({
+  // A pending stake withdrawal whose registry cooldown has passed
+  withdrawalReady: z.boolean(),
+});
+
+const platformStatsSchema = z.object({
+  chainId: z.number().int(),
+  totalWillsCreated: z.number().int(),
+  activeWills: z.number().int(),
+  executedWills: z.number().int(),
+  cancelledWills: z.number().int(),
+  totalValueSecured: wei,
+  totalDistributed: wei,
+  registeredNotaries: z.number().int(),
+  // Null until the indexer has recorded anything on the chain
+  lastUpdated: timestamp.nullable(),
+});
+
+// Active wills per value range (in ETH), in ascending order
+const valueDistributionSchema = z.array(z.object({
+  range: z.string(),
+  count: z.number().int(),
+}));
+
+const profileStatsSchema = z.object({
+  totalWills: z.number().int(),
+  activeWills: z.number().int(),
+  totalValueSecured: uint,
+  isNotary: z.boolean(),
+});
+
+const deadLetterSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  contract: z.string(),
+  eventName: z.string(),
+  txHash: z.string(),
+  logIndex: z.number().int(),
+  blockNumber: uint,
+  error: z.string(),
+  attempts: z.number().int(),
+  nextAttemptAt: timestamp,
+  lastAttemptAt: timestamp,
+  createdAt: timestamp,
+});
+
+const reconciliationRunSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  blockNumber: uint,
+  startedAt: timestamp,
+  finishedAt: timestamp.nullable(),
+  willsChecked: z.number().int(),
+  driftCount: z.number().int(),
+  autoHeal: z.boolean(),
+  error: z.string().nullable(),
+});
+
+const reconciliationDriftSchema = z.object({
+  id: z.string(),
+  runId: z.string(),
+  willId: z.string(),
+  field: z.string(),
+  expected: z.string().nullable(),
+  actual: z.string().nullable(),
+  healed: z.boolean(),
+  createdAt: timestamp,
+});
+
+// Body of a webhook delivery. `data` holds the event's arguments, with
+// integers as decimal strings.
+export const webhookEventSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  chainId: z.number().int(),
+  contract: z.enum(['BaseWill', 'NotaryRegistry']),
+  willId: z.string().nullable(),
+  blockNumber: z.string(),
+  blockTime: z.iso.datetime(),
+  txHash: z.string(),
+  logIndex: z.number().int(),
+  data: z.record(z.string(), z.unknown()),
+});
+
+export type WebhookEvent = z.output<typeof webhookEventSchema>;
+
+const webhookSchema = z.object({
+  id: z.string(),
+  chainId: z.number().int(),
+  owner: z.string(),
+  url: z.string(),
+  eventTypes: z.array(z.string()),
+  willIds: z.array(uint),
+  isActive: z.boolean(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+const webhookDeliverySchema = z.object({
+  id: z.string(),
+  subscriptionId: z.string(),
+  eventId: z.string(),
+  eventName: z.string(),
+  blockNumber: uint,
+  payload: webhookEventSchema,
+  status: webhookDeliveryStatusSchema,
+  attempts: z.number().int(),
+  responseStatus: z.number().int().nullable(),
+  error: z.string().nullable(),
+  nextAttemptAt: timestamp,
+  lastAttemptAt: timestamp.nullable(),
+  deliveredAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+
+// Routes
+//
+// Paths are relative to /api and use Express parameters. `auth` marks routes
+// that need a SIWE session (see /api/auth), the admin API key, or either a
+// session or an integrator API key (`integrator`).
+
+export interface Route {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  summary: string;
+  auth?: 'session' | 'admin' | 'integrator';
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodObject;
+  response: z.ZodType;
+}
+
+const addressParams = z.object({ address: addressSchema });
+const willIdParams = z.object({ id: willIdSchema });
+const idParams = z.object({ id: idSchema });
+const deliveryParams = z.object({ id: idSchema, deliveryId: idSchema });
+
+export const routes = {
+  // Wills
+  getTestatorWills: {
+    method: 'GET',
+    path: '/wills/:address',
+    summary: "Get a testator's wills, filtered by status, asset type and creation date",
+    params: addressParams,
+    query: willsQuerySchema,
+    response: cursorPage({
+      wills: z.array(willWithPartiesSchema.extend({
+        notaryAssignments: z.array(notaryAssignmentSchema.extend({ notary: notarySchema })),
+      })),
+    }),
+  },
+  searchWills: {
+    method: 'GET',
+    path: '/wills/search',
+    summary: 'Search wills by id, testator or beneficiary address or name, status and value',
+    query: willSearchQuerySchema,
+    response: cursorPage({
+      wills: z.array(willSchema.extend({
+        testatorName: z.string().nullable(),
+        // Null when the will's privacy mode hides its beneficiaries from the caller
+        beneficiaries: z.array(beneficiarySchema.extend({ beneficiaryName: z.string().nullable() })).nullable(),
+      })),
+    }),
+  },
+  getWill: {
+    method: 'GET',
+    path: '/wills/detail/:id',
+    summary: 'Get a will with its parties, recent activity, disputes and payouts',
+    params: willIdParams,
+    response: z.object({
+      will: willWithPartiesSchema.extend({
+        activities: z.array(activitySchema),
+        notaryAssignments: z.array(notaryAssignmentSchema.extend({ notary: notarySchema })),
+        disputes: z.array(disputeSchema),
+        guardians: z.array(guardianSchema),
+        vestingReleases: z.array(vestingReleaseSchema),
+        payouts: z.array(payoutSchema),
+      }),
+    }),
+  },
+  getWillGuardians: {
+    method: 'GET',
+    path: '/wills/:id/guardians',
+    summary: 'Get guardians and their recovery votes',
+    params: willIdParams,
+    response: z.object({
+      guardians: z.array(guardianSchema),
+      recoveryVotes: z.number().int(),
+    }),
+  },
+  getWillPayouts: {
+    method: 'GET',
+    path: '/wills/:id/payouts',
+    summary: 'Get vesting releases and fee/reward payouts',
+    params: willIdParams,
+    response: z.object({
+      vestingReleases: z.array(vestingReleaseSchema),
+      payouts: z.array(payoutSchema),
+    }),
+  },
+  getGuardedWills: {
+    method: 'GET',
+    path: '/wills/guardian/:address',
+    summary: 'Get wills an address is a guardian of',
+    params: addressParams,
+    response: z.object({
+      wills: z.array(willSummarySchema.extend({
+        hasVotedForRecovery: z.boolean(),
+        addedAt: timestamp,
+      })),
+    }),
+  },
+  getWillActivity: {
+    method: 'GET',
+    path: '/wills/:id/activity',
+    summary: 'Get the activity timeline of a will, filtered by type and date',
+    params: willIdParams,
+    query: activityQuerySchema,
+    response: cursorPage({ activities: z.array(activitySchema) }),
+  },
+  getApproachingWills: {
+    method: 'GET',
+    path: '/wills/status/approaching-threshold',
+    summary: 'Get active wills that reach their inactivity threshold within 30 days',
+    response: z.object({
+      wills: z.array(willSchema.extend({ triggerTime: timestamp })),
+    }),
+  },
+
+  // Beneficiaries
+  getBeneficiaryWills: {
+    method: 'GET',
+    path: '/beneficiary/:address',
+    summary: 'Get the wills naming an address as beneficiary',
+    params: addressParams,
+    response: z.object({
+      beneficiaryWills: z.array(beneficiarySchema.extend({ will: willWithPartiesSchema })),
+      stats: z.object({
+        potentialInheritance: uint,
+        namedInWills: z.number().int(),
+        claimableNow: uint,
+      }),
+    }),
+  },
+  getClaimable: {
+    method: 'GET',
+    path: '/beneficiary/:address/claimable',
+    summary: 'Get allocations in executed wills that are not fully claimed, with their vested and claimable amounts',
+    params: addressParams,
+    response: z.object({
+      claimable: z.array(z.object({
+        willId: z.string(),
+        allocationBps: z.number().int(),
+        vestingType: vestingTypeSchema,
+        willStatus: willStatusSchema,
+        totalWillValue: wei,
+        assets: z.array(assetSchema),
+        // Computed like VestingLib on-chain (see shared/vesting.ts)
+        totalAmount: uint,
+        vestedAmount: uint,
+        claimedAmount: uint,
+        claimableAmount: uint,
+        releaseCount: uint,
+        // Next time more becomes claimable, null when nothing more is scheduled
+        // (continuous linear vesting accrues every second)
+        nextReleaseAt: timestamp.nullable(),
+        nextReleaseAmount: uint,
+      })),
+    }),
+  },
+  getClaimHistory: {
+    method: 'GET',
+    path: '/beneficiary/:address/history',
+    summary: 'Get claims per will and a page of vesting releases',
+    params: addressParams,
+    query: releasesQuerySchema,
+    response: cursorPage({
+      history: z.array(z.object({
+        willId: z.string(),
+        claimedAmount: wei,
+        claimedAt: timestamp,
+        testator: z.string(),
+      })),
+      releases: z.array(vestingReleaseSchema),
+    }),
+  },
+
+  // Notaries
+  getNotary: {
+    method: 'GET',
+    path: '/notary/:address',
+    summary: 'Get a notary with its assignments and recent verifications',
+    params: addressParams,
+    response: z.object({
+      isNotary: z.boolean(),
+      notary: withdrawableNotarySchema.extend({
+        assignments: z.array(notaryAssignmentSchema.extend({ will: willSchema })),
+        verifications: z.array(notaryVerificationSchema),
+      }).nullable(),
+    }),
+  },
+  getPendingVerifications: {
+    method: 'GET',
+    path: '/notary/:address/pending',
+    summary: 'Get triggered wills assigned to a notary that it has not verified yet',
+    params: addressParams,
+    response: z.object({
+      pending: z.array(notaryAssignmentSchema.extend({ will: willWithPartiesSchema })),
+    }),
+  },
+  getNotaryLeaderboard: {
+    method: 'GET',
+    path: '/notary/leaderboard/top',
+    summary: 'Get active notaries by reputation',
+    query: pageSchema(20),
+    response: z.object({ leaderboard: z.array(withdrawableNotarySchema) }),
+  },
+  listNotaries: {
+    method: 'GET',
+    path: '/notary/list/all',
+    summary: 'List notaries (active by default)',
+    query: notariesQuerySchema,
+    response: cursorPage({ notaries: z.array(notarySchema) }),
+  },
+
+  // Stats
+  getPlatformStats: {
+    method: 'GET',
+    path: '/stats',
+    summary: 'Get platform statistics',
+    response: platformStatsSchema,
+  },
+  getWillsOverTime: {
+    method: 'GET',
+    path: '/stats/wills-over-time',
+    summary: 'Get daily will counts, value locked and value distribution',
+    query: periodQuerySchema,
+    response: z.object({
+      data: z.array(z.object({
+        date: z.iso.date(),
+        // Null for the first day on record
+        created: z.number().int().nullable(),
+        activeWills: z.number().int(),
+        executedWills: z.number().int(),
+        cancelledWills: z.number().int(),
+        totalValueSecured: wei,
+        totalDistributed: wei,
+        valueDistribution: valueDistributionSchema,
+      })),
+    }),
+  },
+  getValueDistribution: {
+    method: 'GET',
+    path: '/stats/value-distribution',
+    summary: 'Get active wills per value range',
+    response: z.object({ data: valueDistributionSchema }),
+  },
+  getRecentActivity: {
+    method: 'GET',
+    path: '/stats/activity',
+    summary: 'Get recent activity across the platform',
+    query: pageSchema(20),
+    response: z.object({
+      activities: z.array(activitySchema.extend({ will: willSummarySchema })),
+    }),
+  },
+
+  // Notifications
+  subscribe: {
+    method: 'POST',
+    path: '/notifications/subscribe',
+    summary: 'Subscribe to notifications',
+    auth: 'session',
+    body: subscribeSchema,
+    response: successSchema.extend({
+      user: z.object({ address: z.string(), email: z.string().nullable() }),
+    }),
+  },
+  unsubscribe: {
+    method: 'DELETE',
+    path: '/notifications/unsubscribe',
+    summary: 'Unsubscribe the signed-in address from notifications',
+    auth: 'session',
+    response: successSchema,
+  },
+  getNotifications: {
+    method: 'GET',
+    path: '/notifications/:address',
+    summary: "Get a user's notifications, filtered by type, read state and date",
+    params: addressParams,
+    query: notificationsQuerySchema,
+    response: cursorPage({ notifications: z.array(notificationSchema) }),
+  },
+  markNotificationsRead: {
+    method: 'POST',
+    path: '/notifications/:address/read',
+    summary: 'Mark notifications as read',
+    auth: 'session',
+    params: addressParams,
+    body: markReadSchema,
+    response: successSchema,
+  },
+  updatePreferences: {
+    method: 'PUT',
+    path: '/notifications/:address/preferences',
+    summary: 'Update notification preferences',
+    auth: 'session',
+    params: addressParams,
+    body: updatePreferencesSchema,
+    response: successSchema,
+  },
+
+  // Users
+  getProfile: {
+    method: 'GET',
+    path: '/users/:address',
+    summary: 'Get a user profile',
+    params: addressParams,
+    response: z.discriminatedUnion('isRegistered', [
+      z.object({
+        address: z.string(),
+        isRegistered: z.literal(false),
+        stats: profileStatsSchema,
+      }),
+      z.object({
+        address: z.string(),
+        email: z.string().nullable(),
+        telegram: z.string().nullable(),
+        isRegistered: z.literal(true),
+        createdAt: timestamp,
+        preferences: z.object({
+          checkInReminders: z.boolean(),
+          willTriggered: z.boolean(),
+          assetDistributed: z.boolean(),
+          platformUpdates: z.boolean(),
+        }),
+        stats: profileStatsSchema,
+      }),
+    ]),
+  },
+  updateProfile: {
+    method: 'PUT',
+    path: '/users/:address',
+    summary: 'Update a user profile',
+    auth: 'session',
+    params: addressParams,
+    body: updateProfileSchema,
+    response: successSchema.extend({
+      user: z.object({
+        address: z.string(),
+        email: z.string().nullable(),
+        telegram: z.string().nullable(),
+      }),
+    }),
+  },
+  getUserActivity: {
+    method: 'GET',
+    path: '/users/:address/activity',
+    summary: "Get activity on a user's wills, filtered by type and date",
+    params: addressParams,
+    query: activityQuerySchema,
+    response: cursorPage({
+      activities: z.array(activitySchema.extend({
+        will: willSchema.pick({ id: true, status: true }),
+      })),
+    }),
+  },
+
+  // Authentication
+  getNonce: {
+    method: 'GET',
+    path: '/auth/nonce',
+    summary: 'Get a nonce for a SIWE message',
+    response: z.object({ nonce: z.string() }),
+  },
+  verify: {
+    method: 'POST',
+    path: '/auth/verify',
+    summary: 'Sign in with a signed SIWE message',
+    body: verifySchema,
+    response: z.object({
+      address: z.string(),
+      expiresAt: timestamp,
+      // Also set as an HTTP-only cookie; send as `Authorization: Bearer <token>` from non-browser clients
+      token: z.string(),
+    }),
+  },
+  getSession: {
+    method: 'GET',
+    path: '/auth/session',
+    summary: 'Get the signed-in address',
+    auth: 'session',
+    response: z.object({ address: z.string() }),
+  },
+  logout: {
+    method: 'POST',
+    path: '/auth/logout',
+    summary: 'Sign out',
+    response: successSchema,
+  },
+
+  // Webhooks
+  createWebhook: {
+    method: 'POST',
+    path: '/webhooks',
+    summary: 'Register a webhook for indexed events',
+    auth: 'integrator',
+    body: createWebhookSchema,
+    response: z.object({
+      webhook: webhookSchema,
+      // Signs every delivery; only returned here
+      secret: z.string(),
+    }),
+  },
+  listWebhooks: {
+    method: 'GET',
+    path: '/webhooks',
+    summary: "List the caller's webhooks",
+    auth: 'integrator',
+    response: z.object({ webhooks: z.array(webhookSchema) }),
+  },
+  updateWebhook: {
+    method: 'PUT',
+    path: '/webhooks/:id',
+    summary: "Change a webhook's URL or filters, or pause it",
+    auth: 'integrator',
+    params: idParams,
+    body: updateWebhookSchema,
+    response: z.object({ webhook: webhookSchema }),
+  },
+  deleteWebhook: {
+    method: 'DELETE',
+    path: '/webhooks/:id',
+    summary: 'Delete a webhook and its delivery log',
+    auth: 'integrator',
+    params: idParams,
+    response: successSchema,
+  },
+  listWebhookDeliveries: {
+    method: 'GET',
+    path: '/webhooks/:id/deliveries',
+    summary: "Get a webhook's delivery log",
+    auth: 'integrator',
+    params: idParams,
+    query: webhookDeliveriesQuerySchema,
+    response: cursorPage({ deliveries: z.array(webhookDeliverySchema) }),
+  },
+  replayWebhookDelivery: {
+    method: 'POST',
+    path: '/webhooks/:id/deliveries/:deliveryId/replay',
+    summary: 'Send a logged delivery again now',
+    auth: 'integrator',
+    params: deliveryParams,
+    response: z.object({ delivery: webhookDeliverySchema }),
+  },
+
+  // Admin
+  listDeadLetters: {
+    method: 'GET',
+    path: '/admin/dead-letters',
+    summary: 'List dead-lettered events',
+    auth: 'admin',
+    response: z.array(deadLetterSchema),
+  },
+  retryDeadLetter: {
+    method: 'POST',
+    path: '/admin/dead-letters/:id/retry',
+    summary: 'Retry a dead-lettered event',
+    auth: 'admin',
+    params: idParams,
+    response: z.object({ applied: z.literal(true) }),
+  },
+  discardDeadLetter: {
+    method: 'DELETE',
+    path: '/admin/dead-letters/:id',
+    summary: 'Discard a dead-lettered event',
+    auth: 'admin',
+    params: idParams,
+    response: successSchema,
+  },
+  listReconciliationRuns: {
+    method: 'GET',
+    path: '/admin/reconciliation',
+    summary: 'List reconciliation runs',
+    auth: 'admin',
+    query: pageSchema(20),
+    response: z.object({ runs: z.array(reconciliationRunSchema) }),
+  },
+  runReconciliation: {
+    method: 'POST',
+    path: '/admin/reconciliation',
+    summary: 'Run a reconciliation',
+    auth: 'admin',
+    body: reconcileSchema,
+    response: z.object({ run: reconciliationRunSchema }),
+  },
+  getReconciliationRun: {
+    method: 'GET',
+    path: '/admin/reconciliation/:id',
+    summary: 'Get a reconciliation run and the drift it found',
+    auth: 'admin',
+    params: idParams,
+    response: z.object({
+      run: reconciliationRunSchema.extend({ drifts: z.array(reconciliationDriftSchema) }),
+    }),
+  },
+  getWillDrift: {
+    method: 'GET',
+    path: '/admin/reconciliation/wills/:id',
+    summary: 'Get the drift the latest reconciliation found for a will',
+    auth: 'admin',
+    params: willIdParams,
+    response: z.object({
+      runId: z.string(),
+      checkedAt: timestamp.nullable(),
+      blockNumber: uint,
+      inSync: z.boolean(),
+      drifts: z.array(reconciliationDriftSchema),
+    }),
+  },
+} satisfies Record<string, Route>;
+
+export type Operation = keyof typeof routes;
+
+type RouteOf<K extends Operation> = (typeof routes)[K];
+
+// What the client sends and receives for an operation
+export type ApiParams<K extends Operation> = RouteOf<K> extends { params: infer P extends z.ZodType } ? z.input<P> : never;
+export type ApiQuery<K extends Operation> = RouteOf<K> extends { query: infer Q extends z.ZodType } ? Partial<z.output<Q>> : never;
+export type ApiBody<K extends Operation> = RouteOf<K> extends { body: infer B extends z.ZodType } ? z.input<B> : never;
+export type ApiResponse<K extends Operation> = z.output<RouteOf<K>['response']>;
+
+// What a handler passes to respond(): database rows before serialization
+export type ApiResult<K extends Operation> = z.input<RouteOf<K>['response']>;
+
+// Server-Sent Events on GET /api/stream: one `message` per indexed event that
+// involves the signed-in address on the requested chain
+
+// Will ids are on-chain ids; notary registry events without a will have none
+export const liveEventSchema = z.object({
+  chainId: z.number().int(),
+  contract: z.enum(['BaseWill', 'NotaryRegistry']),
+  event: z.string(),
+  willId: uint.nullable(),
+  // The will's status once the event was applied
+  status: willStatusSchema.nullable(),
+  blockNumber: uint,
+  txHash: z.string(),
+  logIndex: z.number().int(),
+});
+
+export type LiveEvent = z.output<typeof liveEventSchema>;
+
+// Downloads from GET /api/wills/:id/export: the will's full activity timeline
+// as CSV, JSON or a signed PDF summary
+
+export const exportFormatSchema = z.enum(['csv', 'json', 'pdf']);
+
+export const willExportQuerySchema = z.object({
+  format: exportFormatSchema.default('json'),
+});
+
+const exportedActivitySchema = z.object({
+  // <chainId>:<txHash>:<logIndex> of the event that recorded it
+  id: z.string(),
+  type: activityTypeSchema,
+  // Time of the block that included the event
+  timestamp: z.iso.datetime(),
+  txHash: z.string().nullable(),
+  details: z.unknown(),
+});
+
+// EIP-191 signature by the backend's export key over `message`, which names
+// the SHA-256 digest of the exported activities' JSON
+const exportSignatureSchema = z.object({
+  signer: z.string(),
+  message: z.string(),
+  signature: z.string(),
+});
+
+export const willExportSchema = z.object({
+  generatedAt: z.iso.datetime(),
+  will: z.object({
+    chainId: z.number().int(),
+    onchainId: z.string(),
+    testatorAddress: z.string(),
+    status: willStatusSchema,
+    totalValue: wei,
+    createdAt: z.iso.datetime(),
+    beneficiaries: z.array(z.object({ address: z.string(), allocationBps: z.number().int() })),
+    notaries: z.array(z.string()),
+  }),
+  activities: z.array(exportedActivitySchema),
+  digest: z.string(),
+  signature: exportSignatureSchema.nullable(),
+});
+
+export type WillExport = z.output<typeof willExportSchema>;
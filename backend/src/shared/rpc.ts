@@ -0,0 +1,45 @@
+// This file is copied from shared/rpc.ts by scripts/sync-shared.ts.
+// Do not edit it by hand: change the original and run `npm run shared`.
+
+import { Transport, fallback, http } from 'viem';
+
+// RPC transport for the indexer and the keeper
+//
+// BASE_RPC_URL may list several endpoints separated by commas. They are
+// combined into one fallback transport: viem pings each endpoint in the
+// background and ranks them by stability and latency, so requests go to the
+// healthiest one and fail over down the ranking when it errors.
+
+// How often each endpoint is pinged for its health score
+const RANK_INTERVAL = 30000;
+// Pings kept per endpoint when scoring
+const RANK_SAMPLES = 10;
+const RANK_TIMEOUT = 2000;
+
+export function parseRpcUrls(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+}
+
+export function rpcTransport(urls: string[]): Transport {
+  if (urls.length === 0) {
+    throw new Error('At least one RPC URL is required');
+  }
+
+  if (urls.length === 1) {
+    return http(urls[0]);
+  }
+
+  // The fallback moves on to the next endpoint, so each one fails fast instead of retrying itself
+  return fallback(urls.map(url => http(url, { retryCount: 0 })), {
+    rank: {
+      interval: RANK_INTERVAL,
+      sampleCount: RANK_SAMPLES,
+      timeout: RANK_TIMEOUT,
+      weights: { latency: 0.3, stability: 0.7 },
+    },
+    retryCount: 2,
+  });
+}
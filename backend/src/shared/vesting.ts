@@ -0,0 +1,149 @@
+// This file is copied from shared/vesting.ts by scripts/sync-shared.ts.
+// Do not edit it by hand: change the original and run `npm run shared`.
+
+// Vesting schedule math, mirroring contracts/libraries/VestingLib.sol
+//
+// Every function returns exactly what its Solidity counterpart returns for the
+// same inputs (uint256 arithmetic, rounding down), so the API can report vested
+// and claimable amounts without calling the chain. test/VestingLib.test.ts
+// checks them against the library on a Hardhat node; keep both in step.
+//
+// Times are unix seconds. `startTime` is when vesting began, i.e. the will's
+// execution time.
+
+export type VestingType = 'IMMEDIATE' | 'LINEAR' | 'CLIFF' | 'MILESTONE';
+
+export interface VestingSchedule {
+  vestingType: VestingType;
+  startDelay: bigint;
+  duration: bigint;
+  cliffDuration: bigint;
+  releaseInterval: bigint;
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+export function calculateVestedAmount(
+  schedule: VestingSchedule,
+  totalAmount: bigint,
+  startTime: bigint,
+  currentTime: bigint,
+): bigint {
+  const vestingStart = startTime + schedule.startDelay;
+
+  if (currentTime < vestingStart) {
+    return ZERO;
+  }
+
+  switch (schedule.vestingType) {
+    case 'IMMEDIATE':
+      return totalAmount;
+    case 'LINEAR':
+      return linearVestedAmount(schedule, totalAmount, vestingStart, currentTime);
+    case 'CLIFF':
+      return currentTime < vestingStart + schedule.cliffDuration ? ZERO : totalAmount;
+    default:
+      // Milestones only vest when triggered on-chain
+      return ZERO;
+  }
+}
+
+function linearVestedAmount(
+  schedule: VestingSchedule,
+  totalAmount: bigint,
+  vestingStart: bigint,
+  currentTime: bigint,
+): bigint {
+  if (schedule.cliffDuration > ZERO && currentTime < vestingStart + schedule.cliffDuration) {
+    return ZERO;
+  }
+
+  const elapsed = currentTime - vestingStart;
+  if (elapsed >= schedule.duration) {
+    return totalAmount;
+  }
+
+  // Only completed release intervals count
+  if (schedule.releaseInterval > ZERO) {
+    const completedIntervals = elapsed / schedule.releaseInterval;
+    const totalIntervals = schedule.duration / schedule.releaseInterval;
+
+    if (totalIntervals === ZERO) {
+      return totalAmount;
+    }
+    return (totalAmount * completedIntervals) / totalIntervals;
+  }
+
+  return (totalAmount * elapsed) / schedule.duration;
+}
+
+// When more becomes claimable: currentTime if something already is, 0 when
+// nothing more will vest (fully claimed, last interval passed or a milestone)
+export function getNextReleaseTime(
+  schedule: VestingSchedule,
+  startTime: bigint,
+  currentTime: bigint,
+  amountClaimed: bigint,
+  totalAmount: bigint,
+): bigint {
+  if (amountClaimed >= totalAmount) {
+    return ZERO;
+  }
+
+  const vestingStart = startTime + schedule.startDelay;
+
+  switch (schedule.vestingType) {
+    case 'IMMEDIATE':
+      return currentTime < vestingStart ? vestingStart : currentTime;
+
+    case 'LINEAR': {
+      const cliffEnd = vestingStart + schedule.cliffDuration;
+      if (currentTime < vestingStart) {
+        return schedule.cliffDuration > ZERO ? cliffEnd : vestingStart;
+      }
+      if (schedule.cliffDuration > ZERO && currentTime < cliffEnd) {
+        return cliffEnd;
+      }
+
+      if (schedule.releaseInterval > ZERO) {
+        const elapsed = currentTime - vestingStart;
+        const nextInterval = (elapsed / schedule.releaseInterval + ONE) * schedule.releaseInterval;
+        return nextInterval > schedule.duration ? ZERO : vestingStart + nextInterval;
+      }
+
+      // Continuous vesting releases all the time
+      return currentTime;
+    }
+
+    case 'CLIFF': {
+      const cliffEnd = vestingStart + schedule.cliffDuration;
+      return currentTime < cliffEnd ? cliffEnd : currentTime;
+    }
+
+    default:
+      return ZERO;
+  }
+}
+
+// Number of releases over the schedule; 1 unless it's linear with intervals
+export function getReleaseCount(schedule: VestingSchedule): bigint {
+  if (schedule.vestingType !== 'LINEAR') {
+    return ONE;
+  }
+  if (schedule.releaseInterval === ZERO || schedule.duration === ZERO) {
+    return ONE;
+  }
+  return schedule.duration / schedule.releaseInterval;
+}
+
+export function getClaimableAmount(
+  schedule: VestingSchedule,
+  totalAmount: bigint,
+  startTime: bigint,
+  currentTime: bigint,
+  amountClaimed: bigint,
+): bigint {
+  const vested = calculateVestedAmount(schedule, totalAmount, startTime, currentTime);
+  return vested <= amountClaimed ? ZERO : vested - amountClaimed;
+}
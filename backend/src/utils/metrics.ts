@@ -0,0 +1,161 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { PrismaClient } from '@prisma/client';
+import { CHAIN_IDS } from '../indexer/config.js';
+
+// Prometheus metrics, served on GET /metrics
+
+const prisma = new PrismaClient();
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+// A head older than this means the indexer stopped polling or its RPC fails
+const HEAD_MAX_AGE_MS = parseInt(process.env.INDEXER_HEAD_MAX_AGE || '300') * 1000;
+
+// The indexer may run in another process than the API, so the head it last
+// saw is stored with the indexer state rather than kept in memory
+export async function recordHeadBlock(chainId: number, blockNumber: bigint) {
+  const head = { headBlockNumber: blockNumber, headSeenAt: new Date() };
+  await prisma.indexerState.upsert({
+    where: { chainId },
+    update: head,
+    create: { chainId, ...head },
+  });
+}
+
+export interface IndexerLag {
+  chainId: number;
+  headBlock: bigint | null;
+  headSeenAt: Date | null;
+  lastBlockNumber: bigint;
+  // Null while the head is unknown
+  lag: bigint | null;
+  // No head recorded within INDEXER_HEAD_MAX_AGE
+  stale: boolean;
+}
+
+// Blocks between the head and the last finalized block for every indexed chain
+export async function getIndexerLag(): Promise<IndexerLag[]> {
+  const states = await prisma.indexerState.findMany({ where: { chainId: { in: CHAIN_IDS } } });
+  const byChain = new Map(states.map(state => [state.chainId, state]));
+
+  return CHAIN_IDS.map(chainId => {
+    const state = byChain.get(chainId);
+    const headBlock = state?.headBlockNumber ?? null;
+    const headSeenAt = state?.headSeenAt ?? null;
+    const lastBlockNumber = state?.lastBlockNumber ?? BigInt(0);
+    return {
+      chainId,
+      headBlock,
+      headSeenAt,
+      lastBlockNumber,
+      lag: headBlock === null ? null : headBlock - lastBlockNumber,
+      stale: headSeenAt === null || Date.now() - headSeenAt.getTime() > HEAD_MAX_AGE_MS,
+    };
+  });
+}
+
+// Alert on `basewill_indexer_lag_blocks > INDEXER_LAG_THRESHOLD`
+new Gauge({
+  name: 'basewill_indexer_lag_blocks',
+  help: 'Blocks between the chain head and the last finalized indexed block',
+  labelNames: ['chain_id'],
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const { chainId, lag } of await getIndexerLag()) {
+      if (lag !== null) this.set({ chain_id: chainId }, Number(lag));
+    }
+  },
+});
+
+new Gauge({
+  name: 'basewill_indexer_head_block',
+  help: 'Latest block reported by the RPC endpoint',
+  labelNames: ['chain_id'],
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const { chainId, headBlock } of await getIndexerLag()) {
+      if (headBlock !== null) this.set({ chain_id: chainId }, Number(headBlock));
+    }
+  },
+});
+
+new Gauge({
+  name: 'basewill_indexer_head_age_seconds',
+  help: 'Seconds since the indexer last got the head block from its RPC endpoint',
+  labelNames: ['chain_id'],
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const { chainId, headSeenAt } of await getIndexerLag()) {
+      if (headSeenAt !== null) this.set({ chain_id: chainId }, (Date.now() - headSeenAt.getTime()) / 1000);
+    }
+  },
+});
+
+export const eventsProcessed = new Counter({
+  name: 'basewill_events_processed_total',
+  help: 'Indexed events by outcome: applied, dead_lettered or skipped (already processed)',
+  labelNames: ['chain_id', 'contract', 'event', 'outcome'],
+  registers: [registry],
+});
+
+export const eventHandlerDuration = new Histogram({
+  name: 'basewill_event_handler_duration_seconds',
+  help: 'Time to apply one event, including its transaction',
+  labelNames: ['contract', 'event'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+export const rpcErrors = new Counter({
+  name: 'basewill_rpc_errors_total',
+  help: 'Failed RPC requests made by the indexer',
+  labelNames: ['chain_id', 'method'],
+  registers: [registry],
+});
+
+// Alert on `basewill_dead_letter_events > 0`
+new Gauge({
+  name: 'basewill_dead_letter_events',
+  help: 'Events in the dead-letter queue',
+  labelNames: ['chain_id'],
+  registers: [registry],
+  async collect() {
+    this.reset();
+    const counts = await prisma.deadLetterEvent.groupBy({ by: ['chainId'], _count: true });
+    for (const { chainId, _count } of counts) {
+      this.set({ chain_id: chainId }, _count);
+    }
+  },
+});
+
+export const cronJobDuration = new Histogram({
+  name: 'basewill_cron_job_duration_seconds',
+  help: 'Cron job run time by outcome',
+  labelNames: ['job', 'outcome'],
+  buckets: [0.1, 0.5, 1, 5, 15, 30, 60, 120, 300],
+  registers: [registry],
+});
+
+export const notificationsSent = new Counter({
+  name: 'basewill_notifications_sent_total',
+  help: 'Notification deliveries by channel (email, push) and outcome (sent, failed, skipped)',
+  labelNames: ['channel', 'outcome'],
+  registers: [registry],
+});
+
+export const webhookDeliveries = new Counter({
+  name: 'basewill_webhook_deliveries_total',
+  help: 'Webhook delivery attempts by outcome: delivered, pending (will be retried) or failed (out of attempts)',
+  labelNames: ['outcome'],
+  registers: [registry],
+});
+
+export const liveStreams = new Gauge({
+  name: 'basewill_live_streams',
+  help: 'Open GET /api/stream connections on this instance',
+  registers: [registry],
+});
@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { Request } from 'express';
+
+// Session tokens
+//
+// A session is a JWT (HS256) naming the address that signed in with SIWE,
+// signed with SESSION_SECRET. It is sent back as an HttpOnly cookie and in
+// the response body for clients that prefer `Authorization: Bearer`.
+
+export const SESSION_COOKIE = 'basewill_session';
+
+// Seconds a session stays valid
+export const SESSION_TTL = parseInt(process.env.SESSION_TTL || '86400');
+
+export interface Session {
+  address: string;
+  expiresAt: Date;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(input: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(input).digest();
+}
+
+export function issueSession(address: string, secret: string): { token: string; session: Session } {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + SESSION_TTL;
+  const payload = base64url(JSON.stringify({ sub: address.toLowerCase(), iat: issuedAt, exp: expiresAt }));
+  const signature = base64url(sign(`${HEADER}.${payload}`, secret));
+
+  return {
+    token: `${HEADER}.${payload}.${signature}`,
+    session: { address: address.toLowerCase(), expiresAt: new Date(expiresAt * 1000) },
+  };
+}
+
+// The session in token, or null if it is malformed, forged or expired
+export function readSession(token: string, secret: string): Session | null {
+  const [header, payload, signature] = token.split('.');
+  if (header !== HEADER || !payload || !signature) return null;
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const provided = Buffer.from(signature, 'base64url');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return null;
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof sub !== 'string' || typeof exp !== 'number' || exp * 1000 <= Date.now()) return null;
+    return { address: sub, expiresAt: new Date(exp * 1000) };
+  } catch {
+    return null;
+  }
+}
+
+function sessionToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length);
+  }
+
+  const cookie = (req.headers.cookie ?? '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${SESSION_COOKIE}=`));
+  return cookie && decodeURIComponent(cookie.slice(SESSION_COOKIE.length + 1));
+}
+
+// The request's valid session, if it has one
+export function requestSession(req: Request): Session | null {
+  const secret = process.env.SESSION_SECRET;
+  const token = sessionToken(req);
+  return secret && token ? readSession(token, secret) : null;
+}
+
+// Address of the request's valid session, if it has one
+export function sessionAddress(req: Request): string | null {
+  return requestSession(req)?.address ?? null;
+}
@@ -0,0 +1,87 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+
+// Webhook destinations
+//
+// Deliveries are sent from inside our network, so a webhook URL must not reach
+// private, loopback, link-local or cloud metadata addresses. The host is
+// resolved and checked when a webhook is saved and again before each delivery,
+// which then connects to the checked address rather than resolving the name a
+// second time (DNS rebinding).
+
+const BLOCKED = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+
+// IPv4-mapped addresses (::ffff:10.0.0.1) are checked against the IPv4 rules
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7], // Unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface Destination {
+  address: string;
+  family: 4 | 6;
+}
+
+// Local development and tests deliver to receivers on this machine
+function allowPrivate(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+}
+
+// Resolve a webhook URL's host to the address deliveries connect to. Throws if
+// the host doesn't resolve or any of its addresses is private.
+export async function resolveDestination(url: string): Promise<Destination> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw new Error('Webhook URLs must use http or https');
+  }
+
+  // [::1] -> ::1
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Webhook host ${host} could not be resolved`);
+  }
+  if (addresses.length === 0) {
+    throw new Error(`Webhook host ${host} could not be resolved`);
+  }
+
+  if (!allowPrivate()) {
+    const blocked = addresses.find(({ address, family }) => BLOCKED.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+    if (blocked) {
+      throw new Error(`Webhook host ${host} resolves to the private address ${blocked.address}`);
+    }
+  }
+
+  const [{ address, family }] = addresses;
+  return { address, family: family === 6 ? 6 : 4 };
+}
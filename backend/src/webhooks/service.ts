@@ -0,0 +1,243 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import http from 'node:http';
+import https from 'node:https';
+import { LookupFunction } from 'node:net';
+import { Log, decodeEventLog } from 'viem';
+import { PrismaClient, WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { webhookDeliveries } from '../utils/metrics.js';
+import { WebhookEvent } from '../shared/api.js';
+import { IndexedContract, contractAbi } from '../indexer/config.js';
+import { journaledPrisma, currentBlockNumber, currentChainId } from '../indexer/journal.js';
+import { eventRowId } from '../indexer/ledger.js';
+import { Destination, resolveDestination } from './destination.js';
+
+// Outbound webhooks
+//
+// Applying an event queues one delivery per matching subscription in the same
+// transaction, so a reorg rolls the deliveries back with the event. Deliveries
+// are only sent once their block is final, signed with the subscription's
+// secret, and retried with exponential backoff until they succeed or run out
+// of attempts. Every delivery stays in the log and can be replayed. Private
+// and internal hosts are refused (see destination.ts).
+
+const prisma = new PrismaClient();
+
+export const SIGNATURE_HEADER = 'X-BaseWill-Signature';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Receivers must answer within this long
+const TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is left alone by other workers for this long
+const LEASE_MS = 60 * 1000;
+
+// Deliveries sent per chain per run
+const BATCH_SIZE = 100;
+
+function nextAttemptAt(attempts: number): Date {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return new Date(Date.now() + delay);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`;
+}
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`; receivers should
+// recompute it and reject old timestamps
+export function signatureHeader(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Event arguments as JSON, integers as decimal strings
+function jsonArgs(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(jsonArgs);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, jsonArgs(item)]));
+  }
+  return value;
+}
+
+// Called while the event is applied, inside its transaction (see eventProcessor.ts)
+export async function queueWebhooks(log: Log, contract: IndexedContract, eventName: string, blockTime: Date) {
+  const chainId = currentChainId();
+  const { args } = decodeEventLog({ abi: contractAbi(contract), data: log.data, topics: log.topics });
+  const named = (args ?? {}) as Record<string, unknown>;
+  const willId = typeof named.willId === 'bigint' ? named.willId : null;
+
+  const subscriptions = await journaledPrisma.webhookSubscription.findMany({
+    where: {
+      chainId,
+      isActive: true,
+      AND: [
+        { OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: eventName } }] },
+        { OR: [{ willIds: { isEmpty: true } }, ...(willId !== null ? [{ willIds: { has: willId } }] : [])] },
+      ],
+    },
+    select: { id: true },
+  });
+  if (subscriptions.length === 0) return;
+
+  const eventId = eventRowId(log);
+  const payload: WebhookEvent = {
+    id: eventId,
+    type: eventName,
+    chainId,
+    contract,
+    willId: willId?.toString() ?? null,
+    blockNumber: currentBlockNumber().toString(),
+    blockTime: blockTime.toISOString(),
+    txHash: log.transactionHash ?? '',
+    logIndex: log.logIndex ?? 0,
+    data: jsonArgs(named) as Record<string, unknown>,
+  };
+
+  for (const { id: subscriptionId } of subscriptions) {
+    await journaledPrisma.webhookDelivery.upsert({
+      where: { subscriptionId_eventId: { subscriptionId, eventId } },
+      update: {},
+      create: {
+        subscriptionId,
+        chainId,
+        eventId,
+        eventName,
+        blockNumber: currentBlockNumber(),
+        payload,
+      },
+    });
+  }
+}
+
+// POST `body` to `url`, connecting to `destination` whatever the host resolves
+// to by now, and return the response status. Redirects are not followed.
+function post(url: string, destination: Destination, headers: Record<string, string>, body: string): Promise<number> {
+  const lookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [destination]);
+    } else {
+      callback(null, destination.address, destination.family);
+    }
+  };
+  const request = new URL(url).protocol === 'https:' ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+// POST the delivery once and record the outcome
+async function send(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Checked again in case the host now resolves somewhere internal
+    const destination = await resolveDestination(subscription.url);
+    responseStatus = await post(subscription.url, destination, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'BaseWill-Webhooks/1.0',
+      'X-BaseWill-Event': delivery.eventName,
+      'X-BaseWill-Delivery': delivery.id,
+      [SIGNATURE_HEADER]: signatureHeader(subscription.secret, Math.floor(Date.now() / 1000), body),
+    }, body);
+
+    // A redirect counts as a failure rather than being followed to another host
+    if (responseStatus < 200 || responseStatus > 299) {
+      error = `Receiver answered ${responseStatus}`;
+    }
+  } catch (e) {
+    error = errorMessage(e);
+  }
+
+  const status = error === null
+    ? WebhookDeliveryStatus.DELIVERED
+    : attempts >= MAX_ATTEMPTS ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING;
+
+  webhookDeliveries.inc({ outcome: status.toLowerCase() });
+  if (error) {
+    logger.warn(`Webhook delivery ${delivery.id} to ${subscription.url} failed (attempt ${attempts}): ${error}`);
+  }
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: status === WebhookDeliveryStatus.PENDING ? nextAttemptAt(attempts) : new Date(),
+      ...(status === WebhookDeliveryStatus.DELIVERED && { deliveredAt: new Date() }),
+    },
+  });
+}
+
+// Highest block whose deliveries may go out
+async function finalizedBlock(chainId: number): Promise<bigint> {
+  const state = await prisma.indexerState.findUnique({ where: { chainId } });
+  return state?.lastBlockNumber ?? BigInt(-1);
+}
+
+// Send due deliveries of final blocks, oldest event first. Several instances
+// can run this at once: each delivery is claimed before it is sent.
+export async function deliverDueWebhooks(chainId: number) {
+  const finalized = await finalizedBlock(chainId);
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      chainId,
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: { lte: new Date() },
+      blockNumber: { lte: finalized },
+      subscription: { isActive: true },
+    },
+    include: { subscription: true },
+    orderBy: [{ blockNumber: 'asc' }, { createdAt: 'asc' }],
+    take: BATCH_SIZE,
+  });
+
+  for (const { subscription, ...delivery } of due) {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: WebhookDeliveryStatus.PENDING, nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + LEASE_MS) },
+    });
+    if (count === 1) {
+      await send(delivery, subscription);
+    }
+  }
+}
+
+// Send a logged delivery again now, whatever its status. Returns null while
+// its block can still be reorged.
+export async function replayDelivery(id: string): Promise<WebhookDelivery | null> {
+  const { subscription, ...delivery } = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id },
+    include: { subscription: true },
+  });
+
+  if (delivery.blockNumber > await finalizedBlock(delivery.chainId)) {
+    return null;
+  }
+  return send(delivery, subscription);
+}
@@ -0,0 +1,200 @@
+import { needsDatabase, needsDatabaseAndNode, listen, resetDatabase } from './helpers.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { Address, parseEther, zeroHash } from 'viem';
+import { baseWillAbi } from '../src/generated/abis.js';
+import { ApiResponse } from '../src/shared/api.js';
+import { CHAIN_ID, Deployment, createWill, deployContracts, depositETH, indexToHead, mined, testClient, walletClient } from './chain.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const TESTATOR = '0x1111111111111111111111111111111111111111';
+const BENEFICIARY = '0x2222222222222222222222222222222222222222';
+const CONTINGENT = '0x3333333333333333333333333333333333333333';
+
+// The API is imported once contracts are deployed: the indexer settings it
+// loads are read on import. The chain suite therefore runs first.
+async function startApi() {
+  const { apiRouter } = await import('../src/api/index.js');
+  return listen(express().use('/api', apiRouter));
+}
+
+function claimableOf(server: Awaited<ReturnType<typeof listen>>) {
+  return async (address: string) => {
+    const res = await fetch(`${server.url}/api/beneficiary/${address}/claimable?chainId=${CHAIN_ID}`);
+    assert.equal(res.status, 200);
+    return ((await res.json()) as ApiResponse<'getClaimable'>).claimable;
+  };
+}
+
+describe('beneficiary shares of an executed will', { skip: needsDatabaseAndNode }, () => {
+  const prisma = new PrismaClient();
+  let deployment: Deployment;
+  let server: Awaited<ReturnType<typeof listen>>;
+
+  before(async () => {
+    deployment = await deployContracts();
+    server = await startApi();
+  });
+
+  after(async () => {
+    await server.close();
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await prisma.indexerState.create({ data: { chainId: CHAIN_ID } });
+  });
+
+  function addBeneficiary(willId: bigint, beneficiary: Address, allocationBps: number, vestingType: number, isPrimary: boolean) {
+    const { baseWill, accounts: [testator] } = deployment;
+    return walletClient.writeContract({
+      account: testator,
+      address: baseWill,
+      abi: baseWillAbi,
+      functionName: 'addBeneficiary',
+      args: [
+        willId,
+        beneficiary,
+        BigInt(allocationBps),
+        {
+          vestingType,
+          startDelay: BigInt(0),
+          duration: BigInt(vestingType === 0 ? 0 : 360 * 24 * 60 * 60),
+          cliffDuration: BigInt(0),
+          releaseInterval: BigInt(vestingType === 0 ? 0 : 30 * 24 * 60 * 60),
+          milestoneCondition: zeroHash,
+        },
+        isPrimary,
+        zeroHash,
+      ],
+    }).then(mined);
+  }
+
+  it('vests the share left after fees, without paid or contingent beneficiaries', async () => {
+    const { baseWill, deploymentBlock, accounts: [testator, immediate, linear, contingent] } = deployment;
+    const getClaimable = claimableOf(server);
+
+    const willId = await createWill(baseWill, testator);
+    await addBeneficiary(willId, immediate, 5000, 0, true);
+    await addBeneficiary(willId, linear, 5000, 1, true);
+    await addBeneficiary(willId, contingent, 10000, 1, false);
+    await depositETH(baseWill, testator, willId, parseEther('10'));
+    for (const [account, functionName] of [[testator, 'activateWill'], [immediate, 'triggerWill'], [immediate, 'executeWill']] as const) {
+      if (functionName === 'triggerWill') await testClient.increaseTime({ seconds: 366 * 24 * 60 * 60 });
+      if (functionName === 'executeWill') await testClient.increaseTime({ seconds: 31 * 24 * 60 * 60 });
+      await mined(await walletClient.writeContract({ account, address: baseWill, abi: baseWillAbi, functionName, args: [willId] }));
+    }
+    await indexToHead(deploymentBlock);
+
+    // 1.6% of fees (100 bps platform, 50 notary, 10 executor) leave 9.84 ETH
+    const share = parseEther('4.92');
+
+    // Paid in full at execution
+    assert.deepEqual(await getClaimable(immediate), []);
+    const paid = await prisma.willBeneficiary.findFirstOrThrow({ where: { beneficiaryAddress: immediate.toLowerCase() } });
+    assert.equal(paid.claimedAmount, share.toString());
+
+    const [entry] = await getClaimable(linear);
+    assert.equal(entry.totalWillValue, parseEther('10').toString());
+    assert.equal(entry.totalAmount, share.toString());
+
+    // Contingent beneficiaries get nothing while the primary ones are paid
+    assert.deepEqual(await getClaimable(contingent), []);
+
+    for (const address of [immediate, contingent]) {
+      const res = await fetch(`${server.url}/api/beneficiary/${address}?chainId=${CHAIN_ID}`);
+      const { stats } = (await res.json()) as ApiResponse<'getBeneficiaryWills'>;
+      assert.equal(stats.claimableNow, '0');
+    }
+  });
+});
+
+describe('GET /api/beneficiary/:address/claimable', { skip: needsDatabase }, () => {
+  const prisma = new PrismaClient();
+  let server: Awaited<ReturnType<typeof listen>>;
+  let getClaimable: ReturnType<typeof claimableOf>;
+
+  before(async () => {
+    server = await startApi();
+    getClaimable = claimableOf(server);
+  });
+
+  after(async () => {
+    await server.close();
+    await prisma.$disconnect();
+  });
+
+  beforeEach(resetDatabase);
+
+  // A 10 ETH will executed at `executedAt`, half of what is left after 1.6% of
+  // fees vesting monthly over 360 days
+  async function seedExecutedWill(executedAt: Date, claimedAmount: bigint) {
+    await prisma.user.createMany({ data: [{ address: TESTATOR }, { address: BENEFICIARY }, { address: CONTINGENT }] });
+    const schedule = {
+      chainId: 31337,
+      vestingType: 'LINEAR' as const,
+      vestingDuration: BigInt(360 * 24 * 60 * 60),
+      cliffDuration: BigInt(0),
+      vestingStartDelay: BigInt(0),
+      releaseInterval: BigInt(30 * 24 * 60 * 60),
+      hasAccepted: true,
+    };
+    await prisma.will.create({
+      data: {
+        id: '31337:1',
+        chainId: 31337,
+        onchainId: BigInt(1),
+        testatorAddress: TESTATOR,
+        status: 'EXECUTED',
+        activationMode: 'INACTIVITY_BASED',
+        inactivityThreshold: BigInt(180 * 24 * 60 * 60),
+        gracePeriod: BigInt(30 * 24 * 60 * 60),
+        lastActivityTime: new Date(executedAt.getTime() - 200 * DAY),
+        createdAt: new Date(executedAt.getTime() - 400 * DAY),
+        executedAt,
+        totalValue: parseEther('10').toString(),
+        beneficiaries: {
+          create: [
+            {
+              ...schedule,
+              beneficiaryAddress: BENEFICIARY,
+              allocationBps: 5000,
+              distributedAmount: parseEther('4.92').toString(),
+              claimedAmount: claimedAmount.toString(),
+            },
+            { ...schedule, beneficiaryAddress: CONTINGENT, allocationBps: 10000, isPrimary: false },
+          ],
+        },
+      },
+    });
+  }
+
+  it('reports vested and claimable amounts of the distributed share', async () => {
+    const executedAt = new Date(Math.floor((Date.now() - 100 * DAY) / 1000) * 1000);
+    await seedExecutedWill(executedAt, parseEther('0.5'));
+
+    const [entry] = await getClaimable(BENEFICIARY);
+
+    // 3 of 12 monthly releases of 4.92 ETH have vested, 0.5 ETH of them claimed
+    assert.equal(entry.willId, '31337:1');
+    assert.equal(entry.totalWillValue, parseEther('10').toString());
+    assert.equal(entry.totalAmount, parseEther('4.92').toString());
+    assert.equal(entry.vestedAmount, parseEther('1.23').toString());
+    assert.equal(entry.claimedAmount, parseEther('0.5').toString());
+    assert.equal(entry.claimableAmount, parseEther('0.73').toString());
+    assert.equal(entry.releaseCount, '12');
+    assert.equal(entry.nextReleaseAt, new Date(executedAt.getTime() + 120 * DAY).toISOString());
+    assert.equal(entry.nextReleaseAmount, parseEther('0.41').toString());
+  });
+
+  it('leaves out fully claimed and contingent allocations', async () => {
+    await seedExecutedWill(new Date(Date.now() - 100 * DAY), parseEther('4.92'));
+
+    assert.deepEqual(await getClaimable(BENEFICIARY), []);
+    assert.deepEqual(await getClaimable(CONTINGENT), []);
+  });
+});
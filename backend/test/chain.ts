@@ -0,0 +1,117 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  Abi,
+  Address,
+  Hex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  parseEther,
+  parseEventLogs,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import { baseWillAbi, notaryRegistryAbi } from '../src/generated/abis.js';
+import { rpcUrl } from './helpers.js';
+
+// Contracts on the Hardhat node from TEST_RPC_URL
+//
+// BaseWill is over the contract size limit, so start the node from the repo
+// root with HARDHAT_UNLIMITED_CONTRACT_SIZE=true npx hardhat node.
+
+export const CHAIN_ID = 31337;
+
+const DAY = BigInt(24 * 60 * 60);
+
+export const publicClient = createPublicClient({ chain: hardhat, transport: http(rpcUrl) });
+export const testClient = createTestClient({ chain: hardhat, mode: 'hardhat', transport: http(rpcUrl) });
+export const walletClient = createWalletClient({ chain: hardhat, transport: http(rpcUrl) });
+
+// Bytecode from the root project's `npx hardhat compile`
+function artifact(name: string): { abi: Abi; bytecode: Hex } {
+  const file = path.join(__dirname, '../../artifacts/contracts', `${name}.sol`, `${name}.json`);
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+async function deploy(account: Address, name: string, args: unknown[]): Promise<Address> {
+  const { abi, bytecode } = artifact(name);
+  const hash = await walletClient.deployContract({ account, abi, bytecode, args });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  return receipt.contractAddress!;
+}
+
+export async function mined(hash: Hex) {
+  return publicClient.waitForTransactionReceipt({ hash });
+}
+
+export interface Deployment {
+  baseWill: Address;
+  notaryRegistry: Address;
+  deploymentBlock: bigint;
+  // Unlocked node accounts other than the deployer
+  accounts: Address[];
+}
+
+// Deploy NotaryRegistry and BaseWill and point the indexer's settings at them.
+// Modules under src must be imported after this: they read the settings on import.
+export async function deployContracts(): Promise<Deployment> {
+  const [owner, ...accounts] = await walletClient.getAddresses();
+
+  const notaryRegistry = await deploy(owner, 'NotaryRegistry', [parseEther('0.1'), BigInt(7) * DAY]);
+  const baseWill = await deploy(owner, 'BaseWill', [notaryRegistry, [owner], BigInt(100), BigInt(50), BigInt(10)]);
+  await mined(await walletClient.writeContract({
+    account: owner,
+    address: notaryRegistry,
+    abi: notaryRegistryAbi,
+    functionName: 'setBaseWillContract',
+    args: [baseWill],
+  }));
+  const deploymentBlock = await publicClient.getBlockNumber({ cacheTime: 0 });
+
+  process.env.BASE_RPC_URL = rpcUrl;
+  process.env.BASEWILL_CONTRACT_ADDRESS = baseWill;
+  process.env.NOTARY_REGISTRY_ADDRESS = notaryRegistry;
+  process.env.CONTRACT_DEPLOYMENT_BLOCK = deploymentBlock.toString();
+
+  return { baseWill, notaryRegistry, deploymentBlock, accounts };
+}
+
+// Create a will with a year's inactivity threshold and return its id
+export async function createWill(baseWill: Address, testator: Address): Promise<bigint> {
+  const receipt = await mined(await walletClient.writeContract({
+    account: testator,
+    address: baseWill,
+    abi: baseWillAbi,
+    functionName: 'createWill',
+    args: [0, BigInt(365) * DAY, BigInt(30) * DAY, BigInt(90) * DAY, zeroHash, zeroAddress],
+  }));
+  const [created] = parseEventLogs({ abi: baseWillAbi, logs: receipt.logs, eventName: 'WillCreated' });
+  return created.args.willId;
+}
+
+export async function depositETH(baseWill: Address, testator: Address, willId: bigint, value: bigint) {
+  return mined(await walletClient.writeContract({
+    account: testator,
+    address: baseWill,
+    abi: baseWillAbi,
+    functionName: 'depositETH',
+    args: [willId],
+    value,
+  }));
+}
+
+// Run the indexer's batches from fromBlock up to the head, as its poll loop
+// does, and return the next block to index
+export async function indexToHead(fromBlock: bigint): Promise<bigint> {
+  const { indexNextRange } = await import('../src/indexer/index.js');
+  const latestBlock = await publicClient.getBlockNumber({ cacheTime: 0 });
+
+  let nextBlock = fromBlock;
+  while (nextBlock <= latestBlock) {
+    nextBlock = await indexNextRange(CHAIN_ID, nextBlock, latestBlock);
+  }
+  return nextBlock;
+}
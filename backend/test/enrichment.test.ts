@@ -0,0 +1,111 @@
+import { needsDatabaseAndNode, resetDatabase } from './helpers.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PrismaClient } from '@prisma/client';
+import { Address, parseEther, zeroHash } from 'viem';
+import { baseWillAbi } from '../src/generated/abis.js';
+import {
+  CHAIN_ID,
+  Deployment,
+  createWill,
+  deployContracts,
+  depositETH,
+  indexToHead,
+  mined,
+  publicClient,
+  testClient,
+  walletClient,
+} from './chain.js';
+
+const DAY = 24 * 60 * 60;
+
+describe('will value enrichment', { skip: needsDatabaseAndNode }, () => {
+  const prisma = new PrismaClient();
+  let deployment: Deployment;
+
+  before(async () => {
+    deployment = await deployContracts();
+  });
+
+  after(() => prisma.$disconnect());
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await prisma.indexerState.create({ data: { chainId: CHAIN_ID } });
+  });
+
+  function send(account: Address, functionName: 'activateWill' | 'triggerWill' | 'executeWill', willId: bigint) {
+    return walletClient.writeContract({ account, address: deployment.baseWill, abi: baseWillAbi, functionName, args: [willId] })
+      .then(mined);
+  }
+
+  async function totalValue(willId: bigint) {
+    return (await prisma.will.findUniqueOrThrow({ where: { id: `${CHAIN_ID}:${willId}` } })).totalValue;
+  }
+
+  it('stores the ETH balance, and keeps the executed value once it is paid out', async () => {
+    const { baseWill, deploymentBlock, accounts: [testator, beneficiary] } = deployment;
+
+    const willId = await createWill(baseWill, testator);
+    await mined(await walletClient.writeContract({
+      account: testator,
+      address: baseWill,
+      abi: baseWillAbi,
+      functionName: 'addBeneficiary',
+      args: [
+        willId,
+        beneficiary,
+        BigInt(10000),
+        { vestingType: 1, startDelay: BigInt(0), duration: BigInt(360 * DAY), cliffDuration: BigInt(0), releaseInterval: BigInt(30 * DAY), milestoneCondition: zeroHash },
+        true,
+        zeroHash,
+      ],
+    }));
+    await depositETH(baseWill, testator, willId, parseEther('1.5'));
+    let nextBlock = await indexToHead(deploymentBlock);
+
+    assert.equal(await totalValue(willId), parseEther('1.5').toString());
+
+    await depositETH(baseWill, testator, willId, parseEther('0.5'));
+    await send(testator, 'activateWill', willId);
+    nextBlock = await indexToHead(nextBlock);
+
+    assert.equal(await totalValue(willId), parseEther('2').toString());
+    const stats = await prisma.platformStats.findUniqueOrThrow({ where: { chainId: CHAIN_ID } });
+    assert.equal(stats.totalValueSecured, parseEther('2').toString());
+
+    // A year of inactivity, then the grace period
+    await testClient.increaseTime({ seconds: 366 * DAY });
+    await send(beneficiary, 'triggerWill', willId);
+    await testClient.increaseTime({ seconds: 31 * DAY });
+    await send(beneficiary, 'executeWill', willId);
+    await indexToHead(nextBlock);
+
+    const [balance] = await publicClient.readContract({ address: baseWill, abi: baseWillAbi, functionName: 'getWillValue', args: [willId] });
+    assert.equal(balance, BigInt(0));
+    const executed = await prisma.will.findUniqueOrThrow({ where: { id: `${CHAIN_ID}:${willId}` } });
+    assert.equal(executed.status, 'EXECUTED');
+    assert.equal(executed.totalValue, parseEther('2').toString());
+  });
+
+  it('zeroes the value of a cancelled will', async () => {
+    const { baseWill, accounts: [testator] } = deployment;
+    const fromBlock = await publicClient.getBlockNumber({ cacheTime: 0 }) + BigInt(1);
+
+    const willId = await createWill(baseWill, testator);
+    await depositETH(baseWill, testator, willId, parseEther('1'));
+    const nextBlock = await indexToHead(fromBlock);
+    assert.equal(await totalValue(willId), parseEther('1').toString());
+
+    await mined(await walletClient.writeContract({
+      account: testator,
+      address: baseWill,
+      abi: baseWillAbi,
+      functionName: 'cancelWill',
+      args: [willId, 'moved the funds'],
+    }));
+    await indexToHead(nextBlock);
+
+    assert.equal(await totalValue(willId), '0');
+  });
+});
@@ -0,0 +1,54 @@
+import { AddressInfo } from 'node:net';
+import type { Express } from 'express';
+
+// Shared setup for the backend tests
+//
+// Integration tests need services the suite doesn't start:
+//   TEST_DATABASE_URL  a scratch Postgres database with the schema pushed
+//                      (DATABASE_URL=... npx prisma db push); every table is emptied
+//   TEST_RPC_URL       a Hardhat node, e.g. `npx hardhat node` at the repo root
+//                      after `npx hardhat compile`
+// Suites skip themselves when what they need isn't configured.
+//
+// Import this module first: modules under src read their settings on import.
+
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+}
+process.env.CHAIN_IDS = '31337';
+process.env.LOG_LEVEL ??= 'error';
+
+export const databaseUrl = process.env.TEST_DATABASE_URL;
+export const rpcUrl = process.env.TEST_RPC_URL;
+
+// For test options: `{ skip: needsDatabase }` skips with the reason
+export const needsDatabase = databaseUrl ? false : 'TEST_DATABASE_URL is not set';
+export const needsNode = rpcUrl ? false : 'TEST_RPC_URL is not set';
+export const needsDatabaseAndNode = needsDatabase || needsNode;
+
+// Empty every table of the test database
+export async function resetDatabase() {
+  const { PrismaClient } = await import('@prisma/client');
+  const prisma = new PrismaClient();
+  try {
+    const tables = await prisma.$queryRaw<{ tablename: string }[]>`
+      SELECT tablename::text FROM pg_tables WHERE schemaname = current_schema()`;
+    if (tables.length > 0) {
+      await prisma.$executeRawUnsafe(`TRUNCATE ${tables.map(t => `"${t.tablename}"`).join(', ')} CASCADE`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+
+// Serve an app on a free local port
+export async function listen(app: Express): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
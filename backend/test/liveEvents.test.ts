@@ -0,0 +1,99 @@
+import { needsDatabase, resetDatabase } from './helpers.js';
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PrismaClient } from '@prisma/client';
+import { Log, encodeAbiParameters, encodeEventTopics, parseEther } from 'viem';
+import { baseWillAbi } from '../src/generated/abis.js';
+import { LiveEvent } from '../src/shared/api.js';
+import { publishLiveEvent, subscribeLiveEvents } from '../src/indexer/liveEvents.js';
+
+const TESTATOR = '0x1111111111111111111111111111111111111111';
+const BENEFICIARY = '0x2222222222222222222222222222222222222222';
+const NOTARY = '0x4444444444444444444444444444444444444444';
+const STRANGER = '0x5555555555555555555555555555555555555555';
+
+// A WillTriggered log for will 1; the event names no addresses of its own
+function willTriggeredLog(): Log {
+  return {
+    address: '0x0000000000000000000000000000000000000001',
+    topics: encodeEventTopics({ abi: baseWillAbi, eventName: 'WillTriggered', args: { willId: BigInt(1) } }) as Log['topics'],
+    data: encodeAbiParameters(
+      [{ type: 'string' }, { type: 'uint256' }, { type: 'uint256' }],
+      ['inactivity', BigInt(1_700_000_000), BigInt(1_702_592_000)],
+    ),
+    blockNumber: BigInt(10),
+    blockHash: '0x0000000000000000000000000000000000000000000000000000000000000001',
+    transactionHash: '0x0000000000000000000000000000000000000000000000000000000000000002',
+    transactionIndex: 0,
+    logIndex: 3,
+    removed: false,
+  };
+}
+
+describe('live events', { skip: needsDatabase }, () => {
+  const prisma = new PrismaClient();
+  // Events each address received
+  let received: Map<string, LiveEvent[]>;
+  let unsubscribes: (() => void)[];
+
+  after(() => prisma.$disconnect());
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await prisma.user.createMany({ data: [TESTATOR, BENEFICIARY, NOTARY].map(address => ({ address })) });
+    await prisma.will.create({
+      data: {
+        id: '31337:1',
+        chainId: 31337,
+        onchainId: BigInt(1),
+        testatorAddress: TESTATOR,
+        status: 'TRIGGERED',
+        activationMode: 'INACTIVITY_BASED',
+        inactivityThreshold: BigInt(180 * 24 * 60 * 60),
+        gracePeriod: BigInt(30 * 24 * 60 * 60),
+        lastActivityTime: new Date('2025-01-01T00:00:00Z'),
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        beneficiaries: {
+          create: { chainId: 31337, beneficiaryAddress: BENEFICIARY, allocationBps: 10000, vestingType: 'IMMEDIATE' },
+        },
+      },
+    });
+    await prisma.notary.create({ data: { chainId: 31337, address: NOTARY, stake: parseEther('0.1').toString() } });
+    await prisma.notaryVerification.create({
+      data: { chainId: 31337, willId: '31337:1', notaryAddr: NOTARY, verified: true, txHash: '0x01' },
+    });
+
+    received = new Map();
+    unsubscribes = [TESTATOR, BENEFICIARY, NOTARY, STRANGER].map(address => {
+      received.set(address, []);
+      return subscribeLiveEvents(address, event => received.get(address)!.push(event));
+    });
+  });
+
+  afterEach(() => unsubscribes.forEach(unsubscribe => unsubscribe()));
+
+  it("pushes a will's events to its testator, beneficiaries and notaries", async () => {
+    await publishLiveEvent(31337, willTriggeredLog(), 'BaseWill', 'WillTriggered', new Date());
+
+    const expected: LiveEvent = {
+      chainId: 31337,
+      contract: 'BaseWill',
+      event: 'WillTriggered',
+      willId: '1',
+      status: 'TRIGGERED',
+      blockNumber: '10',
+      txHash: '0x0000000000000000000000000000000000000000000000000000000000000002',
+      logIndex: 3,
+    };
+    for (const address of [TESTATOR, BENEFICIARY, NOTARY]) {
+      assert.deepEqual(received.get(address), [expected], address);
+    }
+    assert.deepEqual(received.get(STRANGER), []);
+  });
+
+  it('does not push backfilled events', async () => {
+    await publishLiveEvent(31337, willTriggeredLog(), 'BaseWill', 'WillTriggered', new Date(Date.now() - 60 * 60 * 1000));
+
+    assert.ok([...received.values()].every(events => events.length === 0));
+  });
+});
@@ -0,0 +1,83 @@
+import { needsDatabaseAndNode, resetDatabase } from './helpers.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PrismaClient } from '@prisma/client';
+import { baseWillAbi } from '../src/generated/abis.js';
+import { CHAIN_ID, Deployment, createWill, deployContracts, indexToHead, mined, publicClient, testClient, walletClient } from './chain.js';
+
+describe('indexer reorg handling', { skip: needsDatabaseAndNode }, () => {
+  const prisma = new PrismaClient();
+  let deployment: Deployment;
+
+  before(async () => {
+    deployment = await deployContracts();
+  });
+
+  after(() => prisma.$disconnect());
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await prisma.indexerState.create({ data: { chainId: CHAIN_ID } });
+  });
+
+  it('rolls back the projections and the event ledger of orphaned blocks', async () => {
+    const { indexNextRange } = await import('../src/indexer/index.js');
+    const { baseWill, deploymentBlock, accounts: [testator, otherTestator] } = deployment;
+
+    // A will indexed before the fork point
+    const firstWill = await createWill(baseWill, testator);
+    const nextBlock = await indexToHead(deploymentBlock);
+    const ancestor = nextBlock - BigInt(1);
+    const firstWillRow = `${CHAIN_ID}:${firstWill}`;
+    const ledgerBefore = await prisma.processedEvent.findMany({ orderBy: { id: 'asc' } });
+
+    const snapshot = await testClient.snapshot();
+
+    // Blocks that will be orphaned: the first will is cancelled and a second one created
+    await mined(await walletClient.writeContract({
+      account: testator,
+      address: baseWill,
+      abi: baseWillAbi,
+      functionName: 'cancelWill',
+      args: [firstWill, 'changed my mind'],
+    }));
+    const orphanedWill = await createWill(baseWill, testator);
+    const orphanedNext = await indexToHead(nextBlock);
+
+    assert.equal((await prisma.will.findUniqueOrThrow({ where: { id: firstWillRow } })).status, 'CANCELLED');
+    assert.ok(await prisma.will.findUnique({ where: { id: `${CHAIN_ID}:${orphanedWill}` } }));
+    const orphanedTxs = new Set((await prisma.processedEvent.findMany({ where: { blockNumber: { gt: ancestor } } }))
+      .map(event => event.txHash));
+    assert.ok(orphanedTxs.size > 0);
+
+    // Replace those blocks with a longer branch where someone else creates the second will
+    await testClient.revert({ id: snapshot });
+    const replacementWill = await createWill(baseWill, otherTestator);
+    assert.equal(replacementWill, orphanedWill);
+    await testClient.mine({ blocks: 3 });
+
+    // The next batch no longer builds on the indexed blocks
+    const latestBlock = await publicClient.getBlockNumber({ cacheTime: 0 });
+    assert.equal(await indexNextRange(CHAIN_ID, orphanedNext, latestBlock), ancestor + BigInt(1));
+
+    const firstWillAfter = await prisma.will.findUniqueOrThrow({ where: { id: firstWillRow } });
+    assert.equal(firstWillAfter.status, 'ACTIVE');
+    assert.equal(await prisma.will.findUnique({ where: { id: `${CHAIN_ID}:${orphanedWill}` } }), null);
+    assert.equal(await prisma.activity.count({ where: { type: 'WILL_CANCELLED' } }), 0);
+    assert.deepEqual(await prisma.processedEvent.findMany({ orderBy: { id: 'asc' } }), ledgerBefore);
+    assert.equal(await prisma.rawEvent.count({ where: { blockNumber: { gt: ancestor } } }), 0);
+    assert.equal(await prisma.projectionChange.count({ where: { blockNumber: { gt: ancestor } } }), 0);
+    assert.equal(await prisma.indexedBlock.count({ where: { number: { gt: ancestor } } }), 0);
+    assert.equal((await prisma.indexerState.findUniqueOrThrow({ where: { chainId: CHAIN_ID } })).lastIndexedBlock, ancestor);
+
+    // Indexing again follows the new branch
+    await indexToHead(ancestor + BigInt(1));
+
+    const replacementRow = await prisma.will.findUniqueOrThrow({ where: { id: `${CHAIN_ID}:${replacementWill}` } });
+    assert.equal(replacementRow.testatorAddress, otherTestator.toLowerCase());
+    assert.equal((await prisma.will.findUniqueOrThrow({ where: { id: firstWillRow } })).status, 'ACTIVE');
+    const ledger = await prisma.processedEvent.findMany({ where: { blockNumber: { gt: ancestor } } });
+    assert.ok(ledger.length > 0);
+    assert.ok(ledger.every(event => !orphanedTxs.has(event.txHash)));
+  });
+});
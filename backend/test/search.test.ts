@@ -0,0 +1,73 @@
+import { needsDatabase, listen, resetDatabase } from './helpers.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { parseEther } from 'viem';
+import { apiRouter } from '../src/api/index.js';
+import { ApiResponse } from '../src/shared/api.js';
+
+const TESTATOR = '0x1111111111111111111111111111111111111111';
+
+describe('GET /api/wills/search by value', { skip: needsDatabase }, () => {
+  const prisma = new PrismaClient();
+  let server: Awaited<ReturnType<typeof listen>>;
+
+  before(async () => {
+    server = await listen(express().use('/api', apiRouter));
+  });
+
+  after(async () => {
+    await server.close();
+    await prisma.$disconnect();
+  });
+
+  // Values whose decimal strings sort differently from the numbers
+  const VALUES = { 1: parseEther('0.5'), 2: parseEther('2'), 3: parseEther('10') };
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await prisma.user.create({ data: { address: TESTATOR } });
+    for (const [onchainId, value] of Object.entries(VALUES)) {
+      await prisma.will.create({
+        data: {
+          id: `31337:${onchainId}`,
+          chainId: 31337,
+          onchainId: BigInt(onchainId),
+          testatorAddress: TESTATOR,
+          status: 'ACTIVE',
+          activationMode: 'INACTIVITY_BASED',
+          inactivityThreshold: BigInt(180 * 24 * 60 * 60),
+          gracePeriod: BigInt(30 * 24 * 60 * 60),
+          lastActivityTime: new Date(),
+          createdAt: new Date(),
+          totalValue: value.toString(),
+        },
+      });
+    }
+  });
+
+  async function search(query: Record<string, string>) {
+    const params = new URLSearchParams({ chainId: '31337', ...query });
+    const res = await fetch(`${server.url}/api/wills/search?${params}`);
+    assert.equal(res.status, 200);
+    return (await res.json()) as ApiResponse<'searchWills'>;
+  }
+
+  it('filters on the value range in wei', async () => {
+    const { wills, total } = await search({ minValue: parseEther('1').toString(), maxValue: parseEther('5').toString() });
+
+    assert.deepEqual(wills.map(will => will.onchainId), ['2']);
+    assert.equal(total, 1);
+  });
+
+  it('sorts and pages by value numerically', async () => {
+    const first = await search({ sort: 'totalValue', order: 'desc', limit: '2' });
+    assert.deepEqual(first.wills.map(will => will.totalValue), [VALUES[3].toString(), VALUES[2].toString()]);
+    assert.ok(first.nextCursor);
+
+    const second = await search({ sort: 'totalValue', order: 'desc', limit: '2', cursor: first.nextCursor });
+    assert.deepEqual(second.wills.map(will => will.totalValue), [VALUES[1].toString()]);
+    assert.equal(second.nextCursor, null);
+  });
+});
@@ -0,0 +1,134 @@
+import { needsDatabaseAndNode, resetDatabase, rpcUrl } from './helpers.js';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'node:net';
+import { PrismaClient } from '@prisma/client';
+import { CHAIN_ID, Deployment, createWill, deployContracts, publicClient } from './chain.js';
+
+// A TCP proxy in front of the node's WebSocket endpoint that can be cut to
+// drop the indexer's socket
+class SocketProxy {
+  private server = net.createServer(client => this.pipe(client));
+  private connections = new Set<net.Socket>();
+  port = 0;
+
+  constructor(private target: URL) {}
+
+  private pipe(client: net.Socket) {
+    const upstream = net.connect(Number(this.target.port), this.target.hostname);
+    for (const socket of [client, upstream]) {
+      this.connections.add(socket);
+      socket.on('close', () => this.connections.delete(socket));
+      socket.on('error', () => {});
+    }
+    client.pipe(upstream).pipe(client);
+  }
+
+  async start() {
+    await new Promise<void>(resolve => this.server.listen(this.port, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  // Drop open connections and refuse new ones until start() is called again
+  async cut() {
+    const closed = new Promise(resolve => this.server.close(resolve));
+    this.connections.forEach(socket => socket.destroy());
+    await closed;
+    this.server = net.createServer(client => this.pipe(client));
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Wait until check() passes
+async function eventually(check: () => Promise<boolean> | boolean, timeoutMs = 20000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    assert.ok(Date.now() < deadline, 'timed out');
+    await sleep(100);
+  }
+}
+
+// The subscription's eth_subscribe calls are not awaited; give them time to land
+const SUBSCRIBE_TIME = 1000;
+
+describe('websocket indexing', { skip: needsDatabaseAndNode }, () => {
+  const prisma = new PrismaClient();
+  const proxy = new SocketProxy(new URL(rpcUrl ?? 'http://127.0.0.1:8545'));
+  let deployment: Deployment;
+  let indexer: typeof import('../src/indexer/index.js');
+  let chainIndexer: import('../src/indexer/index.js').ChainIndexer;
+  let unsubscribe: (() => void) | undefined;
+
+  before(async () => {
+    await proxy.start();
+    process.env.BASE_WS_URL = `ws://127.0.0.1:${proxy.port}`;
+    deployment = await deployContracts();
+    indexer = await import('../src/indexer/index.js');
+  });
+
+  after(async () => {
+    await proxy.cut();
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await prisma.indexerState.create({ data: { chainId: CHAIN_ID } });
+    const head = await publicClient.getBlockNumber({ cacheTime: 0 });
+    chainIndexer = { chainId: CHAIN_ID, nextBlock: head + BigInt(1), indexing: Promise.resolve(true), subscribed: false };
+  });
+
+  afterEach(async () => {
+    unsubscribe?.();
+    unsubscribe = undefined;
+    await chainIndexer.indexing;
+  });
+
+  function isIndexed(willId: bigint) {
+    return prisma.will.findUnique({ where: { id: `${CHAIN_ID}:${willId}` } }).then(will => will !== null);
+  }
+
+  it('indexes events as soon as the subscription reports them', async () => {
+    unsubscribe = indexer.startSubscription(chainIndexer);
+    await sleep(SUBSCRIBE_TIME);
+
+    const willId = await createWill(deployment.baseWill, deployment.accounts[0]);
+
+    await eventually(() => isIndexed(willId));
+    // Polling only backs the subscription up
+    assert.equal(indexer.pollingDelay(chainIndexer, true), 60000);
+  });
+
+  it('falls back to polling while the socket is down and backfills the gap on reconnect', async () => {
+    const [testator] = deployment.accounts;
+    unsubscribe = indexer.startSubscription(chainIndexer);
+    await sleep(SUBSCRIBE_TIME);
+
+    await proxy.cut();
+    await eventually(() => !chainIndexer.subscribed);
+    assert.equal(indexer.pollingDelay(chainIndexer, true), 12000);
+
+    // Nothing arrives over the socket, but the poll loop's next pass indexes it
+    const polledWill = await createWill(deployment.baseWill, testator);
+    await sleep(SUBSCRIBE_TIME);
+    assert.equal(await isIndexed(polledWill), false);
+    assert.equal(await indexer.catchUp(chainIndexer), true);
+    assert.equal(await isIndexed(polledWill), true);
+
+    // Emitted after the last poll, before the socket is back
+    const missedWill = await createWill(deployment.baseWill, testator);
+
+    await proxy.start();
+    await eventually(() => chainIndexer.subscribed);
+    await eventually(() => isIndexed(missedWill));
+    assert.equal(indexer.pollingDelay(chainIndexer, true), 60000);
+
+    // And the new subscription delivers again
+    await sleep(SUBSCRIBE_TIME);
+    const liveWill = await createWill(deployment.baseWill, testator);
+    await eventually(() => isIndexed(liveWill));
+  });
+});
@@ -0,0 +1,273 @@
+import { needsDatabase, listen, resetDatabase } from './helpers.js';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import http, { IncomingHttpHeaders } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { WebhookEvent } from '../src/shared/api.js';
+import { resolveDestination } from '../src/webhooks/destination.js';
+import { SIGNATURE_HEADER, deliverDueWebhooks, replayDelivery } from '../src/webhooks/service.js';
+
+const API_KEY = 'test-key';
+const SECRET = 'whsec_test';
+const SECOND = 1000;
+
+describe('webhook destinations', () => {
+  for (const url of [
+    'http://127.0.0.1/hook',
+    'http://localhost:8080/hook',
+    'http://10.1.2.3/hook',
+    'http://172.20.0.1/hook',
+    'http://192.168.1.1/hook',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://0.0.0.0/hook',
+    'http://[::1]/hook',
+    'http://[fd00:ec2::254]/hook',
+    'http://[fe80::1]/hook',
+    'http://[::ffff:10.0.0.1]/hook',
+  ]) {
+    it(`refuses ${url}`, async () => {
+      await assert.rejects(resolveDestination(url), /private address/);
+    });
+  }
+
+  it('accepts public addresses', async () => {
+    assert.deepEqual(await resolveDestination('https://93.184.215.14/hook'), { address: '93.184.215.14', family: 4 });
+  });
+
+  it('accepts private addresses when allowed', async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    try {
+      assert.deepEqual(await resolveDestination('http://127.0.0.1:8080/hook'), { address: '127.0.0.1', family: 4 });
+    } finally {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+    }
+  });
+});
+
+describe('webhook API', { skip: needsDatabase }, () => {
+  const prisma = new PrismaClient();
+  let server: Awaited<ReturnType<typeof listen>>;
+
+  before(async () => {
+    // Integrator keys are read when the API is loaded
+    process.env.WEBHOOK_API_KEYS = `tests:${API_KEY}`;
+    const { apiRouter } = await import('../src/api/index.js');
+    server = await listen(express().use(express.json()).use('/api', apiRouter));
+  });
+
+  after(async () => {
+    await server.close();
+    await prisma.$disconnect();
+  });
+
+  beforeEach(resetDatabase);
+
+  function request(method: string, path: string, body: object) {
+    return fetch(`${server.url}/api/webhooks${path}?chainId=31337`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-Api-Key': API_KEY },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('refuses to register a webhook to the metadata service', async () => {
+    const res = await request('POST', '', { url: 'http://169.254.169.254/latest/meta-data/' });
+
+    assert.equal(res.status, 400);
+    assert.match(((await res.json()) as { error: string }).error, /private address 169\.254\.169\.254/);
+    assert.equal(await prisma.webhookSubscription.count(), 0);
+  });
+
+  it('refuses to move a webhook to a private address', async () => {
+    const created = await request('POST', '', { url: 'https://93.184.215.14/hook' });
+    assert.equal(created.status, 200);
+    const { webhook } = (await created.json()) as { webhook: { id: string } };
+
+    const res = await request('PUT', `/${webhook.id}`, { url: 'http://localhost:3000/hook' });
+
+    assert.equal(res.status, 400);
+    const stored = await prisma.webhookSubscription.findUniqueOrThrow({ where: { id: webhook.id } });
+    assert.equal(stored.url, 'https://93.184.215.14/hook');
+  });
+});
+
+describe('webhook delivery', { skip: needsDatabase }, () => {
+  const prisma = new PrismaClient();
+  let receiver: http.Server;
+  let receiverUrl: string;
+  // Requests the receiver got, and the statuses it answers with next (200 after these)
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+  let answers: number[];
+
+  before(async () => {
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(answers.shift() ?? 200, { Location: 'http://127.0.0.1:1/elsewhere' }).end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+    await prisma.$disconnect();
+  });
+
+  const payload = {
+    id: '31337:0x01:0',
+    type: 'WillCreated',
+    chainId: 31337,
+    contract: 'BaseWill',
+    willId: '1',
+    blockNumber: '10',
+    blockTime: '2025-01-01T00:00:00.000Z',
+    txHash: '0x01',
+    logIndex: 0,
+    data: { willId: '1' },
+  } satisfies WebhookEvent;
+
+  // A delivery of block 10 with block 100 final
+  async function seedDelivery(blockNumber = BigInt(10)) {
+    await prisma.indexerState.create({ data: { chainId: 31337, lastBlockNumber: BigInt(100) } });
+    const subscription = await prisma.webhookSubscription.create({
+      data: { chainId: 31337, owner: 'apikey:tests', url: receiverUrl, secret: SECRET, eventTypes: [], willIds: [] },
+    });
+    return prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: subscription.id,
+        chainId: 31337,
+        eventId: payload.id,
+        eventName: payload.type,
+        blockNumber,
+        payload,
+      },
+    });
+  }
+
+  function reload(id: string) {
+    return prisma.webhookDelivery.findUniqueOrThrow({ where: { id } });
+  }
+
+  // Let the cron job pick the delivery up now
+  function makeDue(id: string) {
+    return prisma.webhookDelivery.update({ where: { id }, data: { nextAttemptAt: new Date() } });
+  }
+
+  function assertDelay(date: Date, from: number, ms: number) {
+    const delay = date.getTime() - from;
+    assert.ok(delay >= ms - SECOND && delay <= ms + 5 * SECOND, `expected a delay of ${ms}ms, got ${delay}ms`);
+  }
+
+  beforeEach(async () => {
+    await resetDatabase();
+    received = [];
+    answers = [];
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+  });
+
+  it('signs the body with the subscription secret', async () => {
+    const delivery = await seedDelivery();
+
+    await deliverDueWebhooks(31337);
+
+    assert.equal(received.length, 1);
+    const [{ headers, body }] = received;
+    assert.deepEqual(JSON.parse(body), payload);
+    assert.equal(headers['x-basewill-event'], 'WillCreated');
+    assert.equal(headers['x-basewill-delivery'], delivery.id);
+
+    const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(headers[SIGNATURE_HEADER.toLowerCase()] as string);
+    assert.ok(match);
+    const [, timestamp, signature] = match;
+    assert.equal(signature, createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex'));
+    assert.ok(Math.abs(Date.now() / SECOND - Number(timestamp)) < 60);
+
+    const sent = await reload(delivery.id);
+    assert.equal(sent.status, 'DELIVERED');
+    assert.equal(sent.attempts, 1);
+    assert.equal(sent.responseStatus, 200);
+  });
+
+  it('retries with exponential backoff until the receiver accepts', async () => {
+    const delivery = await seedDelivery();
+    answers = [500, 302];
+
+    let sentAt = Date.now();
+    await deliverDueWebhooks(31337);
+    let retry = await reload(delivery.id);
+    assert.equal(retry.status, 'PENDING');
+    assert.equal(retry.attempts, 1);
+    assert.equal(retry.error, 'Receiver answered 500');
+    assertDelay(retry.nextAttemptAt, sentAt, 30 * SECOND);
+
+    // Not due yet
+    await deliverDueWebhooks(31337);
+    assert.equal(received.length, 1);
+
+    // A redirect is a failure and isn't followed
+    await makeDue(delivery.id);
+    sentAt = Date.now();
+    await deliverDueWebhooks(31337);
+    retry = await reload(delivery.id);
+    assert.equal(received.length, 2);
+    assert.equal(retry.attempts, 2);
+    assert.equal(retry.error, 'Receiver answered 302');
+    assertDelay(retry.nextAttemptAt, sentAt, 60 * SECOND);
+
+    await makeDue(delivery.id);
+    await deliverDueWebhooks(31337);
+    const delivered = await reload(delivery.id);
+    assert.equal(delivered.status, 'DELIVERED');
+    assert.equal(delivered.attempts, 3);
+    assert.equal(delivered.error, null);
+    assert.equal(received.length, 3);
+    assert.equal(new Set(received.map(({ body }) => body)).size, 1);
+  });
+
+  it('replays a delivered delivery', async () => {
+    const delivery = await seedDelivery();
+    await deliverDueWebhooks(31337);
+
+    const replayed = await replayDelivery(delivery.id);
+
+    assert.equal(replayed?.status, 'DELIVERED');
+    assert.equal(replayed?.attempts, 2);
+    assert.equal(received.length, 2);
+    assert.equal(received[1].headers['x-basewill-delivery'], delivery.id);
+    assert.equal(received[1].body, received[0].body);
+  });
+
+  it('holds deliveries of blocks that are not final', async () => {
+    const delivery = await seedDelivery(BigInt(101));
+
+    await deliverDueWebhooks(31337);
+    assert.equal(await replayDelivery(delivery.id), null);
+
+    assert.equal(received.length, 0);
+    assert.equal((await reload(delivery.id)).attempts, 0);
+  });
+
+  it('refuses a receiver that resolves to a private address at send time', async () => {
+    const delivery = await seedDelivery();
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+
+    await deliverDueWebhooks(31337);
+
+    assert.equal(received.length, 0);
+    const refused = await reload(delivery.id);
+    assert.equal(refused.status, 'PENDING');
+    assert.equal(refused.responseStatus, null);
+    assert.match(refused.error ?? '', /private address 127\.0\.0\.1/);
+  });
+});
@@ -0,0 +1,191 @@
+import { needsDatabase, listen, resetDatabase } from './helpers.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { parseEther } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
+import { apiRouter } from '../src/api/index.js';
+import { WillExport } from '../src/shared/api.js';
+import { buildWillExport, findExportableWill } from '../src/exports/willExport.js';
+import { issueSession } from '../src/utils/session.js';
+
+const TESTATOR = '0x1111111111111111111111111111111111111111';
+const BENEFICIARY = '0x2222222222222222222222222222222222222222';
+const OTHER_BENEFICIARY = '0x3333333333333333333333333333333333333333';
+const NOTARY = '0x4444444444444444444444444444444444444444';
+const STRANGER = '0x5555555555555555555555555555555555555555';
+const TOKEN = '0x6666666666666666666666666666666666666666';
+const SESSION_SECRET = 'test-session-secret';
+
+// The export signer is loaded on first use, by either suite
+process.env.EXPORT_SIGNING_KEY = generatePrivateKey();
+
+// An executed will with two beneficiaries, the activity about each of them and
+// a notary's verification
+async function seedWill(prisma: PrismaClient) {
+  await prisma.user.createMany({
+    data: [TESTATOR, BENEFICIARY, OTHER_BENEFICIARY, NOTARY, STRANGER].map(address => ({ address })),
+  });
+  await prisma.will.create({
+    data: {
+      id: '31337:1',
+      chainId: 31337,
+      onchainId: BigInt(1),
+      testatorAddress: TESTATOR,
+      status: 'EXECUTED',
+      activationMode: 'INACTIVITY_BASED',
+      inactivityThreshold: BigInt(180 * 24 * 60 * 60),
+      gracePeriod: BigInt(30 * 24 * 60 * 60),
+      lastActivityTime: new Date('2025-01-01T00:00:00Z'),
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      totalValue: parseEther('10').toString(),
+      privacyMode: 'ENCRYPTED_BENEFICIARIES',
+      beneficiaries: {
+        create: [BENEFICIARY, OTHER_BENEFICIARY].map(beneficiaryAddress => ({
+          chainId: 31337,
+          beneficiaryAddress,
+          allocationBps: 5000,
+          vestingType: 'IMMEDIATE' as const,
+          hasAccepted: true,
+        })),
+      },
+    },
+  });
+  await prisma.notary.create({ data: { chainId: 31337, address: NOTARY, stake: parseEther('0.1').toString() } });
+  await prisma.notaryVerification.create({
+    data: { chainId: 31337, willId: '31337:1', notaryAddr: NOTARY, verified: true, txHash: '0x01' },
+  });
+
+  let minute = 0;
+  const activity = (type: 'WILL_CREATED' | 'ASSET_REMOVED' | 'BENEFICIARY_ADDED' | 'BENEFICIARY_ACCEPTED' | 'WILL_EXECUTED' | 'ASSET_DISTRIBUTED' | 'EXECUTOR_REWARD_PAID', details: object) => ({
+    chainId: 31337,
+    willId: '31337:1',
+    type,
+    timestamp: new Date(Date.UTC(2025, 0, 1, 0, minute++)),
+    details,
+  });
+  await prisma.activity.createMany({
+    data: [
+      activity('WILL_CREATED', { beneficiaryCount: 0 }),
+      activity('ASSET_REMOVED', { assetType: 'ERC20', contractAddress: TOKEN, tokenId: '0' }),
+      ...[BENEFICIARY, OTHER_BENEFICIARY].flatMap(beneficiary => [
+        activity('BENEFICIARY_ADDED', { beneficiary, allocationBps: 5000 }),
+        activity('BENEFICIARY_ACCEPTED', { beneficiary }),
+      ]),
+      activity('WILL_EXECUTED', { totalValue: parseEther('10').toString(), executor: OTHER_BENEFICIARY }),
+      ...[BENEFICIARY, OTHER_BENEFICIARY].map(beneficiary =>
+        activity('ASSET_DISTRIBUTED', { beneficiary, assetType: 0, amount: parseEther('5').toString(), vestingType: 0 })),
+      // Names the other beneficiary under a key of its own
+      activity('EXECUTOR_REWARD_PAID', { executor: OTHER_BENEFICIARY, amount: parseEther('0.01').toString() }),
+    ],
+  });
+}
+
+describe('will exports', { skip: needsDatabase }, () => {
+  const prisma = new PrismaClient();
+
+  after(() => prisma.$disconnect());
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await seedWill(prisma);
+  });
+
+  async function exportFor(viewer: string) {
+    return buildWillExport((await findExportableWill('31337:1'))!, viewer);
+  }
+
+  it('leaves other beneficiaries out of a private will exported by a beneficiary', async () => {
+    const data = await exportFor(BENEFICIARY);
+
+    assert.deepEqual(data.will.beneficiaries.map(b => b.address), [BENEFICIARY]);
+    // The execution and the executor's reward name the other beneficiary too
+    assert.deepEqual(data.activities.map(activity => activity.type), [
+      'WILL_CREATED',
+      'ASSET_REMOVED',
+      'BENEFICIARY_ADDED',
+      'BENEFICIARY_ACCEPTED',
+      'ASSET_DISTRIBUTED',
+    ]);
+    assert.ok(!JSON.stringify(data).includes(OTHER_BENEFICIARY));
+
+    // The digest covers what was exported, not the full timeline
+    const digest = createHash('sha256').update(JSON.stringify({ will: data.will, activities: data.activities })).digest('hex');
+    assert.equal(data.digest, `0x${digest}`);
+  });
+
+  it('gives the testator the whole timeline', async () => {
+    const data = await exportFor(TESTATOR);
+
+    assert.equal(data.will.beneficiaries.length, 2);
+    assert.equal(data.activities.length, 10);
+  });
+
+  it('lists the notaries that verified the will', async () => {
+    assert.deepEqual((await exportFor(NOTARY)).will.notaries, [NOTARY]);
+  });
+});
+
+describe('GET /api/wills/:id/export', { skip: needsDatabase }, () => {
+  const prisma = new PrismaClient();
+  let server: Awaited<ReturnType<typeof listen>>;
+
+  before(async () => {
+    process.env.SESSION_SECRET = SESSION_SECRET;
+    server = await listen(express().use('/api', apiRouter));
+  });
+
+  after(async () => {
+    await server.close();
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await seedWill(prisma);
+  });
+
+  function exportAs(address: string | null, format = 'json') {
+    const headers: Record<string, string> = address ? { Authorization: `Bearer ${issueSession(address, SESSION_SECRET).token}` } : {};
+    return fetch(`${server.url}/api/wills/1/export?chainId=31337&format=${format}`, { headers });
+  }
+
+  it('requires a session', async () => {
+    assert.equal((await exportAs(null)).status, 401);
+  });
+
+  it('refuses addresses that are not party to the will', async () => {
+    assert.equal((await exportAs(STRANGER)).status, 403);
+  });
+
+  it('lets a notary that verified the will export it', async () => {
+    const res = await exportAs(NOTARY);
+
+    assert.equal(res.status, 200);
+    const data = (await res.json()) as WillExport;
+    assert.deepEqual(data.will.notaries, [NOTARY]);
+    assert.deepEqual(data.will.beneficiaries, []);
+  });
+
+  it('exports the timeline as CSV', async () => {
+    const res = await exportAs(BENEFICIARY, 'csv');
+
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /^text\/csv/);
+    assert.equal(res.headers.get('content-disposition'), 'attachment; filename="basewill-31337-1-activity.csv"');
+    const [header, ...rows] = (await res.text()).trimEnd().split('\r\n');
+    assert.equal(header, 'id,timestamp,type,txHash,details');
+    assert.equal(rows.length, 5);
+    assert.ok(rows.every(row => !row.includes(OTHER_BENEFICIARY)));
+  });
+
+  it('exports a signed PDF summary', async () => {
+    const res = await exportAs(TESTATOR, 'pdf');
+
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('content-type'), 'application/pdf');
+    assert.equal(Buffer.from(await res.arrayBuffer()).subarray(0, 5).toString(), '%PDF-');
+  });
+});
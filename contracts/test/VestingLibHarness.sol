@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IBaseWill.sol";
+import "../libraries/VestingLib.sol";
+
+/**
+ * @title VestingLibHarness
+ * @author BaseWill Team
+ * @notice Exposes VestingLib for tests
+ * @dev Only deployed by test/VestingLib.test.ts, which compares it with shared/vesting.ts
+ */
+contract VestingLibHarness {
+    function calculateVestedAmount(
+        IBaseWill.VestingSchedule memory schedule,
+        uint256 totalAmount,
+        uint256 startTime,
+        uint256 currentTime
+    ) external pure returns (uint256) {
+        return VestingLib.calculateVestedAmount(schedule, totalAmount, startTime, currentTime);
+    }
+
+    function getNextReleaseTime(
+        IBaseWill.VestingSchedule memory schedule,
+        uint256 startTime,
+        uint256 currentTime,
+        uint256 amountClaimed,
+        uint256 totalAmount
+    ) external pure returns (uint256) {
+        return VestingLib.getNextReleaseTime(schedule, startTime, currentTime, amountClaimed, totalAmount);
+    }
+
+    function getReleaseCount(IBaseWill.VestingSchedule memory schedule) external pure returns (uint256) {
+        return VestingLib.getReleaseCount(schedule);
+    }
+
+    function getClaimableAmount(
+        IBaseWill.VestingSchedule memory schedule,
+        uint256 totalAmount,
+        uint256 startTime,
+        uint256 currentTime,
+        uint256 amountClaimed
+    ) external pure returns (uint256) {
+        return VestingLib.getClaimableAmount(schedule, totalAmount, startTime, currentTime, amountClaimed);
+    }
+}
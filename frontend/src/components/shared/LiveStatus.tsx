@@ -0,0 +1,35 @@
+import toast from 'react-hot-toast';
+import { useLiveEvents } from '../../hooks/useLiveEvents';
+import { useSignIn } from '../../hooks/useApi';
+
+// Page header badge that keeps the page's data live, or offers to sign in when
+// there's no session for the connected address
+function LiveStatus() {
+  const { isLive, isSignedIn } = useLiveEvents();
+  const signIn = useSignIn();
+
+  const handleSignIn = async () => {
+    try {
+      await signIn.mutateAsync();
+    } catch (error) {
+      toast.error('Sign in failed. Please try again.');
+    }
+  };
+
+  if (!isSignedIn) {
+    return (
+      <button onClick={handleSignIn} disabled={signIn.isPending} className="btn-ghost btn-sm">
+        {signIn.isPending ? 'Signing in...' : 'Sign in for live updates'}
+      </button>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center text-sm text-gray-500">
+      <span className={`w-2 h-2 rounded-full mr-2 ${isLive ? 'bg-success-500' : 'bg-gray-300'}`} />
+      {isLive ? 'Live' : 'Connecting...'}
+    </span>
+  );
+}
+
+export default LiveStatus;
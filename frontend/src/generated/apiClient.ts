@@ -0,0 +1,275 @@
+// This file is generated by scripts/generate-api-client.ts from shared/api.ts.
+// Do not edit it by hand: run `npm run api-client` after changing the API contract.
+
+import type { ApiBody, ApiParams, ApiQuery, ApiResponse } from '../shared/api';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Absolute URL for an API path; undefined parameters are left out
+export function apiUrl(path: string, params: Record<string, unknown> = {}): URL {
+  const url = new URL(API_URL + path, window.location.origin);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value instanceof Date ? value.toISOString() : String(value));
+    }
+  }
+  return url;
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface RequestOptions {
+  // Chain to read, the API's default chain when omitted
+  chainId?: number;
+  signal?: AbortSignal;
+}
+
+interface RequestInput extends RequestOptions {
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+async function request<T>(method: string, path: string, { query, body, chainId, signal }: RequestInput): Promise<T> {
+  const url = apiUrl(path, { ...query, chainId });
+
+  // Sends the session cookie for routes that need a signed-in address
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    signal,
+    ...(body !== undefined && {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new ApiError(response.status, data.error ?? response.statusText);
+  }
+  return data as T;
+}
+
+// GET /api/wills/:address - Get a testator's wills, filtered by status, asset type and creation date
+export function getTestatorWills(params: ApiParams<'getTestatorWills'>, query: ApiQuery<'getTestatorWills'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getTestatorWills'>> {
+  return request('GET', `/wills/${encodeURIComponent(params.address)}`, { ...options, query });
+}
+
+// GET /api/wills/search - Search wills by id, testator or beneficiary address or name, status and value
+export function searchWills(query: ApiQuery<'searchWills'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'searchWills'>> {
+  return request('GET', `/wills/search`, { ...options, query });
+}
+
+// GET /api/wills/detail/:id - Get a will with its parties, recent activity, disputes and payouts
+export function getWill(params: ApiParams<'getWill'>, options: RequestOptions = {}): Promise<ApiResponse<'getWill'>> {
+  return request('GET', `/wills/detail/${encodeURIComponent(params.id)}`, { ...options });
+}
+
+// GET /api/wills/:id/guardians - Get guardians and their recovery votes
+export function getWillGuardians(params: ApiParams<'getWillGuardians'>, options: RequestOptions = {}): Promise<ApiResponse<'getWillGuardians'>> {
+  return request('GET', `/wills/${encodeURIComponent(params.id)}/guardians`, { ...options });
+}
+
+// GET /api/wills/:id/payouts - Get vesting releases and fee/reward payouts
+export function getWillPayouts(params: ApiParams<'getWillPayouts'>, options: RequestOptions = {}): Promise<ApiResponse<'getWillPayouts'>> {
+  return request('GET', `/wills/${encodeURIComponent(params.id)}/payouts`, { ...options });
+}
+
+// GET /api/wills/guardian/:address - Get wills an address is a guardian of
+export function getGuardedWills(params: ApiParams<'getGuardedWills'>, options: RequestOptions = {}): Promise<ApiResponse<'getGuardedWills'>> {
+  return request('GET', `/wills/guardian/${encodeURIComponent(params.address)}`, { ...options });
+}
+
+// GET /api/wills/:id/activity - Get the activity timeline of a will, filtered by type and date
+export function getWillActivity(params: ApiParams<'getWillActivity'>, query: ApiQuery<'getWillActivity'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getWillActivity'>> {
+  return request('GET', `/wills/${encodeURIComponent(params.id)}/activity`, { ...options, query });
+}
+
+// GET /api/wills/status/approaching-threshold - Get active wills that reach their inactivity threshold within 30 days
+export function getApproachingWills(options: RequestOptions = {}): Promise<ApiResponse<'getApproachingWills'>> {
+  return request('GET', `/wills/status/approaching-threshold`, { ...options });
+}
+
+// GET /api/beneficiary/:address - Get the wills naming an address as beneficiary
+export function getBeneficiaryWills(params: ApiParams<'getBeneficiaryWills'>, options: RequestOptions = {}): Promise<ApiResponse<'getBeneficiaryWills'>> {
+  return request('GET', `/beneficiary/${encodeURIComponent(params.address)}`, { ...options });
+}
+
+// GET /api/beneficiary/:address/claimable - Get allocations in executed wills that are not fully claimed, with their vested and claimable amounts
+export function getClaimable(params: ApiParams<'getClaimable'>, options: RequestOptions = {}): Promise<ApiResponse<'getClaimable'>> {
+  return request('GET', `/beneficiary/${encodeURIComponent(params.address)}/claimable`, { ...options });
+}
+
+// GET /api/beneficiary/:address/history - Get claims per will and a page of vesting releases
+export function getClaimHistory(params: ApiParams<'getClaimHistory'>, query: ApiQuery<'getClaimHistory'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getClaimHistory'>> {
+  return request('GET', `/beneficiary/${encodeURIComponent(params.address)}/history`, { ...options, query });
+}
+
+// GET /api/notary/:address - Get a notary with its assignments and recent verifications
+export function getNotary(params: ApiParams<'getNotary'>, options: RequestOptions = {}): Promise<ApiResponse<'getNotary'>> {
+  return request('GET', `/notary/${encodeURIComponent(params.address)}`, { ...options });
+}
+
+// GET /api/notary/:address/pending - Get triggered wills assigned to a notary that it has not verified yet
+export function getPendingVerifications(params: ApiParams<'getPendingVerifications'>, options: RequestOptions = {}): Promise<ApiResponse<'getPendingVerifications'>> {
+  return request('GET', `/notary/${encodeURIComponent(params.address)}/pending`, { ...options });
+}
+
+// GET /api/notary/leaderboard/top - Get active notaries by reputation
+export function getNotaryLeaderboard(query: ApiQuery<'getNotaryLeaderboard'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getNotaryLeaderboard'>> {
+  return request('GET', `/notary/leaderboard/top`, { ...options, query });
+}
+
+// GET /api/notary/list/all - List notaries (active by default)
+export function listNotaries(query: ApiQuery<'listNotaries'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'listNotaries'>> {
+  return request('GET', `/notary/list/all`, { ...options, query });
+}
+
+// GET /api/stats - Get platform statistics
+export function getPlatformStats(options: RequestOptions = {}): Promise<ApiResponse<'getPlatformStats'>> {
+  return request('GET', `/stats`, { ...options });
+}
+
+// GET /api/stats/wills-over-time - Get daily will counts, value locked and value distribution
+export function getWillsOverTime(query: ApiQuery<'getWillsOverTime'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getWillsOverTime'>> {
+  return request('GET', `/stats/wills-over-time`, { ...options, query });
+}
+
+// GET /api/stats/value-distribution - Get active wills per value range
+export function getValueDistribution(options: RequestOptions = {}): Promise<ApiResponse<'getValueDistribution'>> {
+  return request('GET', `/stats/value-distribution`, { ...options });
+}
+
+// GET /api/stats/activity - Get recent activity across the platform
+export function getRecentActivity(query: ApiQuery<'getRecentActivity'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getRecentActivity'>> {
+  return request('GET', `/stats/activity`, { ...options, query });
+}
+
+// POST /api/notifications/subscribe - Subscribe to notifications
+export function subscribe(body: ApiBody<'subscribe'>, options: RequestOptions = {}): Promise<ApiResponse<'subscribe'>> {
+  return request('POST', `/notifications/subscribe`, { ...options, body });
+}
+
+// DELETE /api/notifications/unsubscribe - Unsubscribe the signed-in address from notifications
+export function unsubscribe(options: RequestOptions = {}): Promise<ApiResponse<'unsubscribe'>> {
+  return request('DELETE', `/notifications/unsubscribe`, { ...options });
+}
+
+// GET /api/notifications/:address - Get a user's notifications, filtered by type, read state and date
+export function getNotifications(params: ApiParams<'getNotifications'>, query: ApiQuery<'getNotifications'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getNotifications'>> {
+  return request('GET', `/notifications/${encodeURIComponent(params.address)}`, { ...options, query });
+}
+
+// POST /api/notifications/:address/read - Mark notifications as read
+export function markNotificationsRead(params: ApiParams<'markNotificationsRead'>, body: ApiBody<'markNotificationsRead'>, options: RequestOptions = {}): Promise<ApiResponse<'markNotificationsRead'>> {
+  return request('POST', `/notifications/${encodeURIComponent(params.address)}/read`, { ...options, body });
+}
+
+// PUT /api/notifications/:address/preferences - Update notification preferences
+export function updatePreferences(params: ApiParams<'updatePreferences'>, body: ApiBody<'updatePreferences'>, options: RequestOptions = {}): Promise<ApiResponse<'updatePreferences'>> {
+  return request('PUT', `/notifications/${encodeURIComponent(params.address)}/preferences`, { ...options, body });
+}
+
+// GET /api/users/:address - Get a user profile
+export function getProfile(params: ApiParams<'getProfile'>, options: RequestOptions = {}): Promise<ApiResponse<'getProfile'>> {
+  return request('GET', `/users/${encodeURIComponent(params.address)}`, { ...options });
+}
+
+// PUT /api/users/:address - Update a user profile
+export function updateProfile(params: ApiParams<'updateProfile'>, body: ApiBody<'updateProfile'>, options: RequestOptions = {}): Promise<ApiResponse<'updateProfile'>> {
+  return request('PUT', `/users/${encodeURIComponent(params.address)}`, { ...options, body });
+}
+
+// GET /api/users/:address/activity - Get activity on a user's wills, filtered by type and date
+export function getUserActivity(params: ApiParams<'getUserActivity'>, query: ApiQuery<'getUserActivity'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'getUserActivity'>> {
+  return request('GET', `/users/${encodeURIComponent(params.address)}/activity`, { ...options, query });
+}
+
+// GET /api/auth/nonce - Get a nonce for a SIWE message
+export function getNonce(options: RequestOptions = {}): Promise<ApiResponse<'getNonce'>> {
+  return request('GET', `/auth/nonce`, { ...options });
+}
+
+// POST /api/auth/verify - Sign in with a signed SIWE message
+export function verify(body: ApiBody<'verify'>, options: RequestOptions = {}): Promise<ApiResponse<'verify'>> {
+  return request('POST', `/auth/verify`, { ...options, body });
+}
+
+// GET /api/auth/session - Get the signed-in address
+export function getSession(options: RequestOptions = {}): Promise<ApiResponse<'getSession'>> {
+  return request('GET', `/auth/session`, { ...options });
+}
+
+// POST /api/auth/logout - Sign out
+export function logout(options: RequestOptions = {}): Promise<ApiResponse<'logout'>> {
+  return request('POST', `/auth/logout`, { ...options });
+}
+
+// POST /api/webhooks - Register a webhook for indexed events
+export function createWebhook(body: ApiBody<'createWebhook'>, options: RequestOptions = {}): Promise<ApiResponse<'createWebhook'>> {
+  return request('POST', `/webhooks`, { ...options, body });
+}
+
+// GET /api/webhooks - List the caller's webhooks
+export function listWebhooks(options: RequestOptions = {}): Promise<ApiResponse<'listWebhooks'>> {
+  return request('GET', `/webhooks`, { ...options });
+}
+
+// PUT /api/webhooks/:id - Change a webhook's URL or filters, or pause it
+export function updateWebhook(params: ApiParams<'updateWebhook'>, body: ApiBody<'updateWebhook'>, options: RequestOptions = {}): Promise<ApiResponse<'updateWebhook'>> {
+  return request('PUT', `/webhooks/${encodeURIComponent(params.id)}`, { ...options, body });
+}
+
+// DELETE /api/webhooks/:id - Delete a webhook and its delivery log
+export function deleteWebhook(params: ApiParams<'deleteWebhook'>, options: RequestOptions = {}): Promise<ApiResponse<'deleteWebhook'>> {
+  return request('DELETE', `/webhooks/${encodeURIComponent(params.id)}`, { ...options });
+}
+
+// GET /api/webhooks/:id/deliveries - Get a webhook's delivery log
+export function listWebhookDeliveries(params: ApiParams<'listWebhookDeliveries'>, query: ApiQuery<'listWebhookDeliveries'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'listWebhookDeliveries'>> {
+  return request('GET', `/webhooks/${encodeURIComponent(params.id)}/deliveries`, { ...options, query });
+}
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/replay - Send a logged delivery again now
+export function replayWebhookDelivery(params: ApiParams<'replayWebhookDelivery'>, options: RequestOptions = {}): Promise<ApiResponse<'replayWebhookDelivery'>> {
+  return request('POST', `/webhooks/${encodeURIComponent(params.id)}/deliveries/${encodeURIComponent(params.deliveryId)}/replay`, { ...options });
+}
+
+// GET /api/admin/dead-letters - List dead-lettered events
+export function listDeadLetters(options: RequestOptions = {}): Promise<ApiResponse<'listDeadLetters'>> {
+  return request('GET', `/admin/dead-letters`, { ...options });
+}
+
+// POST /api/admin/dead-letters/:id/retry - Retry a dead-lettered event
+export function retryDeadLetter(params: ApiParams<'retryDeadLetter'>, options: RequestOptions = {}): Promise<ApiResponse<'retryDeadLetter'>> {
+  return request('POST', `/admin/dead-letters/${encodeURIComponent(params.id)}/retry`, { ...options });
+}
+
+// DELETE /api/admin/dead-letters/:id - Discard a dead-lettered event
+export function discardDeadLetter(params: ApiParams<'discardDeadLetter'>, options: RequestOptions = {}): Promise<ApiResponse<'discardDeadLetter'>> {
+  return request('DELETE', `/admin/dead-letters/${encodeURIComponent(params.id)}`, { ...options });
+}
+
+// GET /api/admin/reconciliation - List reconciliation runs
+export function listReconciliationRuns(query: ApiQuery<'listReconciliationRuns'> = {}, options: RequestOptions = {}): Promise<ApiResponse<'listReconciliationRuns'>> {
+  return request('GET', `/admin/reconciliation`, { ...options, query });
+}
+
+// POST /api/admin/reconciliation - Run a reconciliation
+export function runReconciliation(body: ApiBody<'runReconciliation'>, options: RequestOptions = {}): Promise<ApiResponse<'runReconciliation'>> {
+  return request('POST', `/admin/reconciliation`, { ...options, body });
+}
+
+// GET /api/admin/reconciliation/:id - Get a reconciliation run and the drift it found
+export function getReconciliationRun(params: ApiParams<'getReconciliationRun'>, options: RequestOptions = {}): Promise<ApiResponse<'getReconciliationRun'>> {
+  return request('GET', `/admin/reconciliation/${encodeURIComponent(params.id)}`, { ...options });
+}
+
+// GET /api/admin/reconciliation/wills/:id - Get the drift the latest reconciliation found for a will
+export function getWillDrift(params: ApiParams<'getWillDrift'>, options: RequestOptions = {}): Promise<ApiResponse<'getWillDrift'>> {
+  return request('GET', `/admin/reconciliation/wills/${encodeURIComponent(params.id)}`, { ...options });
+}
@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAccount, useSignMessage } from 'wagmi';
+import { createSiweMessage } from 'viem/siwe';
+import {
+  getNonce,
+  getNotary,
+  getNotifications,
+  getPendingVerifications,
+  getProfile,
+  getSession,
+  getWillActivity,
+  getWillsOverTime,
+  verify,
+} from '../generated/apiClient';
+import type { ApiQuery } from '../shared/api';
+
+// Hooks for data the backend indexes, through the generated API client.
+// Reads go to the chain the wallet is connected to.
+
+// Hook to get a will's activity timeline
+export function useWillActivity(willId: string | undefined, query: ApiQuery<'getWillActivity'> = {}) {
+  const { chain } = useAccount();
+
+  return useQuery({
+    queryKey: ['willActivity', willId, query, chain?.id],
+    queryFn: ({ signal }) => getWillActivity({ id: willId! }, query, { chainId: chain?.id, signal }),
+    enabled: !!willId,
+  });
+}
+
+// Hook to get daily platform stats for the Stats page charts
+export function useWillsOverTime(period: ApiQuery<'getWillsOverTime'>['period'] = '30d') {
+  const { chain } = useAccount();
+
+  return useQuery({
+    queryKey: ['willsOverTime', period, chain?.id],
+    queryFn: ({ signal }) => getWillsOverTime({ period }, { chainId: chain?.id, signal }),
+  });
+}
+
+// Hook to get a user's profile and notification preferences
+export function useUserProfile(address: `0x${string}` | undefined) {
+  const { chain } = useAccount();
+
+  return useQuery({
+    queryKey: ['userProfile', address, chain?.id],
+    queryFn: ({ signal }) => getProfile({ address: address! }, { chainId: chain?.id, signal }),
+    enabled: !!address,
+  });
+}
+
+// Hook to get a user's notifications, newest first
+export function useNotifications(address: `0x${string}` | undefined, unreadOnly = false) {
+  const { chain } = useAccount();
+
+  return useQuery({
+    queryKey: ['notifications', address, unreadOnly, chain?.id],
+    queryFn: ({ signal }) => getNotifications(
+      { address: address! },
+      { unreadOnly: unreadOnly ? 'true' : 'false' },
+      { chainId: chain?.id, signal },
+    ),
+    enabled: !!address,
+  });
+}
+
+// Hook to get a notary's record, assignments and recent verifications
+export function useNotary(address: `0x${string}` | undefined) {
+  const { chain } = useAccount();
+
+  return useQuery({
+    queryKey: ['notary', address, chain?.id],
+    queryFn: ({ signal }) => getNotary({ address: address! }, { chainId: chain?.id, signal }),
+    enabled: !!address,
+  });
+}
+
+// Hook to get triggered wills waiting for a notary's verification
+export function usePendingVerifications(address: `0x${string}` | undefined) {
+  const { chain } = useAccount();
+
+  return useQuery({
+    queryKey: ['pendingVerifications', address, chain?.id],
+    queryFn: ({ signal }) => getPendingVerifications({ address: address! }, { chainId: chain?.id, signal }),
+    enabled: !!address,
+  });
+}
+
+// Hook to get the signed-in address; errors with a 401 when signed out
+export function useSession() {
+  return useQuery({
+    queryKey: ['session'],
+    queryFn: ({ signal }) => getSession({ signal }),
+    retry: false,
+  });
+}
+
+// Hook to sign in with Ethereum as the connected account
+export function useSignIn() {
+  const { address, chain } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!address || !chain) throw new Error('Wallet not connected');
+
+      const { nonce } = await getNonce();
+      const message = createSiweMessage({
+        address,
+        chainId: chain.id,
+        domain: window.location.host,
+        nonce,
+        statement: 'Sign in to BaseWill',
+        uri: window.location.origin,
+        version: '1',
+      });
+      const signature = await signMessageAsync({ message });
+      return verify({ message, signature });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['session'] });
+    },
+  });
+}
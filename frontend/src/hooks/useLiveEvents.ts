@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useAccount } from 'wagmi';
+import toast from 'react-hot-toast';
+import { apiUrl } from '../generated/apiClient';
+import type { LiveEvent } from '../shared/api';
+import { useSession } from './useApi';
+
+// Queries that depend on what happens to the connected address's wills
+const ADDRESS_QUERIES = [
+  ['testatorWills'],
+  ['notary'],
+  ['pendingVerifications'],
+  ['notifications'],
+  ['userProfile'],
+];
+
+// Events worth interrupting the user for
+const ANNOUNCEMENTS: Record<string, (willId: string) => string> = {
+  WillTriggered: (willId) => `Will #${willId} was triggered`,
+  WillExecutionStarted: (willId) => `Will #${willId} is being executed`,
+  NotaryVerificationSubmitted: (willId) => `Will #${willId} received a notary verification`,
+};
+
+// Refetch what an event may have changed; everything when willId is undefined
+function refresh(queryClient: QueryClient, willId?: string | null) {
+  for (const queryKey of ADDRESS_QUERIES) {
+    queryClient.invalidateQueries({ queryKey });
+  }
+  if (willId === undefined) {
+    queryClient.invalidateQueries({ queryKey: ['will'] });
+    queryClient.invalidateQueries({ queryKey: ['willActivity'] });
+  } else if (willId) {
+    queryClient.invalidateQueries({ queryKey: ['will', willId] });
+    queryClient.invalidateQueries({ queryKey: ['willActivity', willId] });
+  }
+}
+
+// Hook to keep the connected address's wills, notary record and notifications
+// current from the backend's event stream. Needs a session for the address;
+// isLive is false until the stream is open.
+export function useLiveEvents() {
+  const { address, chain } = useAccount();
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useState(false);
+
+  const isSignedIn = !!address && session?.address === address.toLowerCase();
+  const chainId = chain?.id;
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    const source = new EventSource(apiUrl('/stream', { chainId }), { withCredentials: true });
+
+    // Events aren't replayed, so catch up on anything missed while disconnected
+    source.onopen = () => {
+      setIsLive(true);
+      refresh(queryClient);
+    };
+
+    // EventSource retries by itself; a closed source means the session was rejected
+    source.onerror = () => {
+      setIsLive(false);
+      if (source.readyState === EventSource.CLOSED) {
+        queryClient.invalidateQueries({ queryKey: ['session'] });
+      }
+    };
+
+    source.onmessage = (message) => {
+      const event: LiveEvent = JSON.parse(message.data);
+      refresh(queryClient, event.willId);
+
+      const announce = ANNOUNCEMENTS[event.event];
+      if (announce && event.willId) {
+        toast(announce(event.willId), { id: `${event.txHash}:${event.logIndex}` });
+      }
+    };
+
+    return () => {
+      source.close();
+      setIsLive(false);
+    };
+  }, [isSignedIn, chainId, queryClient]);
+
+  return { isLive, isSignedIn };
+}
@@ -1,139 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
 import { getContractAddresses } from '../config/wagmi';
-import { formatEther } from 'viem';
-
-// ABI for BaseWillCore contract (deployed on Base Mainnet)
-const baseWillAbi = [
-  // View: read will by id (public mapping getter)
-  {
-    name: 'wills',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'willId', type: 'uint256' }],
-    outputs: [
-      { name: 'testator', type: 'address' },
-      { name: 'status', type: 'uint8' },
-      { name: 'inactivityThreshold', type: 'uint256' },
-      { name: 'lastActivityTime', type: 'uint256' },
-      { name: 'gracePeriod', type: 'uint256' },
-      { name: 'triggeredAt', type: 'uint256' },
-      { name: 'totalValue', type: 'uint256' },
-      { name: 'requiredNotaries', type: 'uint256' },
-      { name: 'verificationCount', type: 'uint256' },
-    ],
-  },
-  // View: get all will IDs for a testator
-  {
-    name: 'getTestatorWills',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'testator', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256[]' }],
-  },
-  // View: get all will IDs for a beneficiary (public mapping getter)
-  {
-    name: 'beneficiaryWills',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'beneficiary', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256[]' }],
-  },
-  // View: get beneficiaries for a will
-  {
-    name: 'getBeneficiaries',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'willId', type: 'uint256' }],
-    outputs: [{
-      name: '',
-      type: 'tuple[]',
-      components: [
-        { name: 'addr', type: 'address' },
-        { name: 'allocationBps', type: 'uint256' },
-        { name: 'vestingType', type: 'uint8' },
-        { name: 'vestingDuration', type: 'uint256' },
-        { name: 'amountClaimed', type: 'uint256' },
-      ],
-    }],
-  },
-  // View: get total ETH value in a will
-  {
-    name: 'getWillTotalValue',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'willId', type: 'uint256' }],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-  // View: global will counter
-  {
-    name: 'willCounter',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-  // Write: create a will
-  {
-    name: 'createWill',
-    type: 'function',
-    stateMutability: 'payable',
-    inputs: [
-      { name: 'inactivityThreshold', type: 'uint256' },
-      { name: 'gracePeriod', type: 'uint256' },
-    ],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-  // Write: cancel a will
-  {
-    name: 'cancelWill',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'willId', type: 'uint256' }],
-    outputs: [],
-  },
-  // Write: add a beneficiary
-  {
-    name: 'addBeneficiary',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'willId', type: 'uint256' },
-      { name: 'beneficiary', type: 'address' },
-      { name: 'allocationBps', type: 'uint256' },
-      { name: 'vestingType', type: 'uint8' },
-      { name: 'vestingDuration', type: 'uint256' },
-    ],
-    outputs: [],
-  },
-  // Write: remove a beneficiary by index
-  {
-    name: 'removeBeneficiary',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'willId', type: 'uint256' },
-      { name: 'index', type: 'uint256' },
-    ],
-    outputs: [],
-  },
-  // Write: deposit ETH into a will
-  {
-    name: 'depositETH',
-    type: 'function',
-    stateMutability: 'payable',
-    inputs: [{ name: 'willId', type: 'uint256' }],
-    outputs: [],
-  },
-  // Write: check in to reset inactivity timer
-  {
-    name: 'checkIn',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'willId', type: 'uint256' }],
-    outputs: [],
-  },
-] as const;
+import { formatEther, PublicClient } from 'viem';
+import { baseWillAbi } from '../generated/abis';
 
 export interface WillData {
   id: bigint;
@@ -144,17 +13,17 @@ export interface WillData {
   gracePeriod: bigint;
   triggeredAt: bigint;
   totalValue: bigint;
-  requiredNotaries: bigint;
   verificationCount: bigint;
   ethBalance?: string;
   beneficiaryCount?: number;
 }
 
 export interface BeneficiaryData {
-  addr: `0x${string}`;
+  beneficiaryAddress: `0x${string}`;
   allocationBps: bigint;
   vestingType: number;
   vestingDuration: bigint;
+  hasAccepted: boolean;
   amountClaimed: bigint;
 }
 
@@ -167,6 +36,50 @@ export interface PlatformStats {
   registeredNotaries: bigint;
 }
 
+// Read a will together with its balance, beneficiaries and verifications
+async function readWill(publicClient: PublicClient, address: `0x${string}`, willId: bigint): Promise<WillData> {
+  const [will, [ethBalance], beneficiaries, verifications] = await Promise.all([
+    publicClient.readContract({
+      address,
+      abi: baseWillAbi,
+      functionName: 'getWill',
+      args: [willId],
+    }),
+    publicClient.readContract({
+      address,
+      abi: baseWillAbi,
+      functionName: 'getWillValue',
+      args: [willId],
+    }),
+    publicClient.readContract({
+      address,
+      abi: baseWillAbi,
+      functionName: 'getBeneficiaries',
+      args: [willId],
+    }),
+    publicClient.readContract({
+      address,
+      abi: baseWillAbi,
+      functionName: 'getNotaryVerifications',
+      args: [willId],
+    }),
+  ]);
+
+  return {
+    id: willId,
+    testator: will.testator,
+    status: will.status,
+    inactivityThreshold: will.inactivityThreshold,
+    lastActivityTime: will.lastActivity,
+    gracePeriod: will.gracePeriod,
+    triggeredAt: will.triggerTime,
+    totalValue: ethBalance,
+    verificationCount: BigInt(verifications.length),
+    ethBalance: formatEther(ethBalance),
+    beneficiaryCount: beneficiaries.length,
+  };
+}
+
 // Hook to get a single will
 export function useWill(willId: string | undefined) {
   const { chain } = useAccount();
@@ -179,43 +92,7 @@ export function useWill(willId: string | undefined) {
       if (!publicClient || !addresses || !willId) return null;
 
       try {
-        const [willRaw, totalValue, beneficiaries] = await Promise.all([
-          publicClient.readContract({
-            address: addresses.baseWill as `0x${string}`,
-            abi: baseWillAbi,
-            functionName: 'wills',
-            args: [BigInt(willId)],
-          }),
-          publicClient.readContract({
-            address: addresses.baseWill as `0x${string}`,
-            abi: baseWillAbi,
-            functionName: 'getWillTotalValue',
-            args: [BigInt(willId)],
-          }),
-          publicClient.readContract({
-            address: addresses.baseWill as `0x${string}`,
-            abi: baseWillAbi,
-            functionName: 'getBeneficiaries',
-            args: [BigInt(willId)],
-          }),
-        ]);
-
-        const [testator, status, inactivityThreshold, lastActivityTime, gracePeriod, triggeredAt, totalValueRaw, requiredNotaries, verificationCount] = willRaw as readonly [string, number, bigint, bigint, bigint, bigint, bigint, bigint, bigint];
-
-        return {
-          id: BigInt(willId),
-          testator: testator as `0x${string}`,
-          status,
-          inactivityThreshold,
-          lastActivityTime,
-          gracePeriod,
-          triggeredAt,
-          totalValue: totalValueRaw,
-          requiredNotaries,
-          verificationCount,
-          ethBalance: formatEther(totalValue as bigint),
-          beneficiaryCount: (beneficiaries as unknown[]).length,
-        };
+        return await readWill(publicClient, addresses.baseWill as `0x${string}`, BigInt(willId));
       } catch (error) {
         console.error('Error fetching will:', error);
         return null;
@@ -242,48 +119,10 @@ export function useTestatorWills(testator: `0x${string}` | undefined) {
           abi: baseWillAbi,
           functionName: 'getTestatorWills',
           args: [testator],
-        }) as bigint[];
+        });
 
         const wills = await Promise.all(
-          willIds.map(async (id) => {
-            const [willRaw, totalValue, beneficiaries] = await Promise.all([
-              publicClient.readContract({
-                address: addresses.baseWill as `0x${string}`,
-                abi: baseWillAbi,
-                functionName: 'wills',
-                args: [id],
-              }),
-              publicClient.readContract({
-                address: addresses.baseWill as `0x${string}`,
-                abi: baseWillAbi,
-                functionName: 'getWillTotalValue',
-                args: [id],
-              }),
-              publicClient.readContract({
-                address: addresses.baseWill as `0x${string}`,
-                abi: baseWillAbi,
-                functionName: 'getBeneficiaries',
-                args: [id],
-              }),
-            ]);
-
-            const [testatorAddr, status, inactivityThreshold, lastActivityTime, gracePeriod, triggeredAt, totalValueRaw, requiredNotaries, verificationCount] = willRaw as readonly [string, number, bigint, bigint, bigint, bigint, bigint, bigint, bigint];
-
-            return {
-              id,
-              testator: testatorAddr as `0x${string}`,
-              status,
-              inactivityThreshold,
-              lastActivityTime,
-              gracePeriod,
-              triggeredAt,
-              totalValue: totalValueRaw,
-              requiredNotaries,
-              verificationCount,
-              ethBalance: formatEther(totalValue as bigint),
-              beneficiaryCount: (beneficiaries as unknown[]).length,
-            };
-          })
+          willIds.map((id) => readWill(publicClient, addresses.baseWill as `0x${string}`, id))
         );
 
         return wills;
@@ -296,7 +135,7 @@ export function useTestatorWills(testator: `0x${string}` | undefined) {
   });
 }
 
-// Hook to get platform statistics (derived from contract state)
+// Hook to get platform statistics
 export function usePlatformStats() {
   const { chain } = useAccount();
   const publicClient = usePublicClient();
@@ -308,20 +147,11 @@ export function usePlatformStats() {
       if (!publicClient || !addresses) return null;
 
       try {
-        const totalWillsCreated = await publicClient.readContract({
+        return await publicClient.readContract({
           address: addresses.baseWill as `0x${string}`,
           abi: baseWillAbi,
-          functionName: 'willCounter',
-        }) as bigint;
-
-        return {
-          totalValueSecured: 0n,
-          totalWillsCreated,
-          activeWills: 0n,
-          executedWills: 0n,
-          totalDistributed: 0n,
-          registeredNotaries: 0n,
-        };
+          functionName: 'getPlatformStats',
+        });
       } catch (error) {
         console.error('Error fetching platform stats:', error);
         return null;
@@ -356,7 +186,14 @@ export function useCreateWill() {
         address: addresses.baseWill as `0x${string}`,
         abi: baseWillAbi,
         functionName: 'createWill',
-        args: [params.inactivityThreshold, params.gracePeriod],
+        args: [
+          params.activationMode,
+          params.inactivityThreshold,
+          params.gracePeriod,
+          params.disputePeriod,
+          params.metadataHash,
+          params.backupExecutor,
+        ],
       });
 
       const receipt = await publicClient.waitForTransactionReceipt({ hash });
@@ -3,6 +3,7 @@ import { useAccount } from 'wagmi';
 import { motion } from 'framer-motion';
 import { formatDistanceToNow } from 'date-fns';
 import WillCard from '../components/will/WillCard';
+import LiveStatus from '../components/shared/LiveStatus';
 import { useTestatorWills } from '../hooks/useWill';
 
 function Dashboard() {
@@ -25,10 +26,13 @@ function Dashboard() {
           <h1 className="text-3xl font-bold text-gray-900">My Wills</h1>
           <p className="text-gray-500 mt-1">Manage your digital estate</p>
         </div>
-        <Link to="/create" className="btn-primary btn-lg mt-4 md:mt-0">
-          <PlusIcon className="w-5 h-5 mr-2" />
-          Create New Will
-        </Link>
+        <div className="flex items-center space-x-4 mt-4 md:mt-0">
+          <LiveStatus />
+          <Link to="/create" className="btn-primary btn-lg">
+            <PlusIcon className="w-5 h-5 mr-2" />
+            Create New Will
+          </Link>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -1,14 +1,37 @@
-import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAccount } from 'wagmi';
+import { formatEther } from 'viem';
+import { formatDistanceToNow } from 'date-fns';
+import LiveStatus from '../components/shared/LiveStatus';
+import { useNotary, usePendingVerifications } from '../hooks/useApi';
 
 function NotaryDashboard() {
-  const [isRegistered] = useState(false);
+  const { address } = useAccount();
+  const { data, isLoading } = useNotary(address);
+  const { data: pendingData } = usePendingVerifications(data?.isNotary ? address : undefined);
 
-  if (!isRegistered) {
+  const notary = data?.notary;
+  const pending = pendingData?.pending ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[400px]">
+        <div className="spinner w-8 h-8" />
+      </div>
+    );
+  }
+
+  if (!notary) {
     return (
       <div className="space-y-8">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Become a Notary</h1>
-          <p className="text-gray-500 mt-1">Verify death claims and earn rewards</p>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Become a Notary</h1>
+            <p className="text-gray-500 mt-1">Verify death claims and earn rewards</p>
+          </div>
+          <div className="mt-4 md:mt-0">
+            <LiveStatus />
+          </div>
         </div>
 
         <div className="card max-w-2xl mx-auto">
@@ -100,37 +123,63 @@ function NotaryDashboard() {
 
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Notary Dashboard</h1>
-        <p className="text-gray-500 mt-1">Manage verifications and track rewards</p>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Notary Dashboard</h1>
+          <p className="text-gray-500 mt-1">Manage verifications and track rewards</p>
+        </div>
+        <div className="mt-4 md:mt-0">
+          <LiveStatus />
+        </div>
       </div>
 
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="card">
           <p className="text-sm text-gray-500">Stake</p>
-          <p className="text-2xl font-bold text-gray-900">0.10 ETH</p>
+          <p className="text-2xl font-bold text-gray-900">{formatEther(BigInt(notary.stake))} ETH</p>
         </div>
         <div className="card">
           <p className="text-sm text-gray-500">Reputation</p>
-          <p className="text-2xl font-bold text-gray-900">50/100</p>
+          <p className="text-2xl font-bold text-gray-900">{notary.reputation}/100</p>
         </div>
         <div className="card">
           <p className="text-sm text-gray-500">Verifications</p>
-          <p className="text-2xl font-bold text-gray-900">0</p>
+          <p className="text-2xl font-bold text-gray-900">{notary.totalVerifications}</p>
         </div>
         <div className="card">
           <p className="text-sm text-gray-500">Rewards Earned</p>
-          <p className="text-2xl font-bold text-gray-900">0.00 ETH</p>
+          <p className="text-2xl font-bold text-gray-900">{formatEther(BigInt(notary.rewardsEarned))} ETH</p>
         </div>
       </div>
 
       {/* Pending Verifications */}
       <div className="card">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Pending Verifications</h2>
-        <div className="text-center py-8 text-gray-500">
-          No pending verification requests
-        </div>
+        {pending.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No pending verification requests
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {pending.map(({ id, will }) => (
+              <Link
+                key={id}
+                to={`/will/${will.onchainId}`}
+                className="flex items-center justify-between py-4 hover:bg-gray-50 -mx-2 px-2 rounded-lg"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">Will #{will.onchainId}</p>
+                  <p className="text-sm text-gray-500">
+                    {will.beneficiaries.length} beneficiaries
+                    {will.triggeredAt && ` · triggered ${formatDistanceToNow(new Date(will.triggeredAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+                <span className="text-sm font-medium text-primary-700">Review</span>
+              </Link>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -2,11 +2,18 @@ import { useParams, Link } from 'react-router-dom';
 import { formatDistanceToNow, differenceInDays } from 'date-fns';
 import { motion } from 'framer-motion';
 import toast from 'react-hot-toast';
+import { useAccount } from 'wagmi';
 import { useWill, useCheckIn, useDepositETH } from '../hooks/useWill';
+import { useSession } from '../hooks/useApi';
+import { apiUrl } from '../generated/apiClient';
+import LiveStatus from '../components/shared/LiveStatus';
 import { useState } from 'react';
 import { parseEther } from 'viem';
 
 const STATUS_LABELS = ['Draft', 'Active', 'Triggered', 'Disputed', 'Executed', 'Cancelled', 'Revoked'];
+// Formats GET /wills/:id/export can produce
+const EXPORT_FORMATS = ['csv', 'json', 'pdf'] as const;
+
 const STATUS_COLORS = {
   0: 'bg-gray-100 text-gray-700', // Draft
   1: 'bg-success-50 text-success-700', // Active
@@ -23,6 +30,8 @@ function WillDetail() {
   const checkInMutation = useCheckIn();
   const depositMutation = useDepositETH();
   const [depositAmount, setDepositAmount] = useState('');
+  const { chain } = useAccount();
+  const { data: session } = useSession();
 
   if (isLoading) {
     return (
@@ -93,6 +102,7 @@ function WillDetail() {
           </div>
         </div>
         <div className="flex items-center space-x-3 mt-4 md:mt-0">
+          <LiveStatus />
           <span className={`px-4 py-2 rounded-full font-medium ${STATUS_COLORS[will.status as keyof typeof STATUS_COLORS]}`}>
             {STATUS_LABELS[will.status]}
           </span>
@@ -307,6 +317,23 @@ function WillDetail() {
                 </button>
               )}
             </div>
+            {/* The backend only lets the testator, beneficiaries and notaries export */}
+            {session && (
+              <div className="mt-4 pt-4 border-t border-gray-100">
+                <p className="text-sm text-gray-500 mb-2">Export activity</p>
+                <div className="flex space-x-2">
+                  {EXPORT_FORMATS.map((format) => (
+                    <a
+                      key={format}
+                      href={apiUrl(`/wills/${id}/export`, { format, chainId: chain?.id }).toString()}
+                      className="btn-ghost btn-sm flex-1 text-center uppercase"
+                    >
+                      {format}
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
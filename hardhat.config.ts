@@ -28,6 +28,9 @@ const config: HardhatUserConfig = {
   networks: {
     hardhat: {
       chainId: 31337,
+      // BaseWill's bytecode is over the 24 KB limit. The backend's integration
+      // tests deploy it to a node started with HARDHAT_UNLIMITED_CONTRACT_SIZE=true.
+      allowUnlimitedContractSize: process.env.HARDHAT_UNLIMITED_CONTRACT_SIZE === "true",
       forking: {
         url: BASE_RPC_URL,
         enabled: process.env.FORKING === "true",
@@ -1,16 +1,18 @@
 import dotenv from 'dotenv';
 import express from 'express';
-import { createPublicClient, createWalletClient, http, parseEther, formatEther } from 'viem';
+import { createPublicClient, createWalletClient, parseEther, formatEther } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { base, baseSepolia } from 'viem/chains';
 import { logger } from './logger.js';
-import { BASE_WILL_ABI, CONTRACT_ADDRESS } from './config.js';
+import { CONTRACT_ADDRESS, WILL_STATUS_ACTIVE, WILL_STATUS_TRIGGERED } from './config.js';
+import { baseWillAbi } from './generated/abis.js';
+import { parseRpcUrls, rpcTransport } from './shared/rpc.js';
 
 dotenv.config();
 
 // Configuration
 const PRIVATE_KEY = process.env.KEEPER_PRIVATE_KEY as `0x${string}`;
-const RPC_URL = process.env.BASE_RPC_URL || 'https://mainnet.base.org';
+const RPC_URLS = parseRpcUrls(process.env.BASE_RPC_URL || 'https://mainnet.base.org'); // Comma-separated for failover
 const CHAIN = process.env.NETWORK === 'testnet' ? baseSepolia : base;
 const MIN_PROFIT_MARGIN = parseEther(process.env.MIN_PROFIT_MARGIN || '0.0001'); // Minimum profit to execute
 const CHECK_INTERVAL = parseInt(process.env.CHECK_INTERVAL || '300000'); // 5 minutes
@@ -27,17 +29,19 @@ if (!CONTRACT_ADDRESS) {
   process.exit(1);
 }
 
-// Create clients
+// Create clients; both share one transport so they agree on the healthiest endpoint
+const transport = rpcTransport(RPC_URLS);
+
 const publicClient = createPublicClient({
   chain: CHAIN,
-  transport: http(RPC_URL),
+  transport,
 });
 
 const account = privateKeyToAccount(PRIVATE_KEY);
 const walletClient = createWalletClient({
   account,
   chain: CHAIN,
-  transport: http(RPC_URL),
+  transport,
 });
 
 logger.info(`Keeper started with address: ${account.address}`);
@@ -93,12 +97,7 @@ async function tryTriggerWill(willId: bigint): Promise<boolean> {
 
   try {
     // Check if will can be triggered
-    const canTrigger = await publicClient.readContract({
-      address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: BASE_WILL_ABI,
-      functionName: 'canTriggerWill',
-      args: [willId],
-    });
+    const canTrigger = await canTriggerWill(willId);
 
     if (!canTrigger) {
       logger.info(`Will ${willId} cannot be triggered`);
@@ -108,7 +107,7 @@ async function tryTriggerWill(willId: bigint): Promise<boolean> {
     // Estimate gas
     const gasEstimate = await publicClient.estimateContractGas({
       address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: BASE_WILL_ABI,
+      abi: baseWillAbi,
       functionName: 'triggerWill',
       args: [willId],
       account: account.address,
@@ -132,7 +131,7 @@ async function tryTriggerWill(willId: bigint): Promise<boolean> {
     // Execute trigger
     const hash = await walletClient.writeContract({
       address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: BASE_WILL_ABI,
+      abi: baseWillAbi,
       functionName: 'triggerWill',
       args: [willId],
     });
@@ -162,7 +161,7 @@ async function tryExecuteWill(willId: bigint): Promise<boolean> {
     // Check if will can be executed
     const canExecute = await publicClient.readContract({
       address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: BASE_WILL_ABI,
+      abi: baseWillAbi,
       functionName: 'canExecuteWill',
       args: [willId],
     });
@@ -175,7 +174,7 @@ async function tryExecuteWill(willId: bigint): Promise<boolean> {
     // Estimate gas
     const gasEstimate = await publicClient.estimateContractGas({
       address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: BASE_WILL_ABI,
+      abi: baseWillAbi,
       functionName: 'executeWill',
       args: [willId],
       account: account.address,
@@ -199,7 +198,7 @@ async function tryExecuteWill(willId: bigint): Promise<boolean> {
     // Execute will
     const hash = await walletClient.writeContract({
       address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: BASE_WILL_ABI,
+      abi: baseWillAbi,
       functionName: 'executeWill',
       args: [willId],
     });
@@ -224,27 +223,44 @@ async function tryExecuteWill(willId: bigint): Promise<boolean> {
 
 async function getExecutorReward(willId: bigint): Promise<bigint> {
   try {
-    const [totalValue, executorRewardBps] = await Promise.all([
+    const [[ethBalance], executorRewardBps] = await Promise.all([
       publicClient.readContract({
         address: CONTRACT_ADDRESS as `0x${string}`,
-        abi: BASE_WILL_ABI,
-        functionName: 'getWillTotalValue',
+        abi: baseWillAbi,
+        functionName: 'getWillValue',
         args: [willId],
-      }) as Promise<bigint>,
+      }),
       publicClient.readContract({
         address: CONTRACT_ADDRESS as `0x${string}`,
-        abi: BASE_WILL_ABI,
-        functionName: 'executorRewardPercent',
-      }) as Promise<bigint>,
+        abi: baseWillAbi,
+        functionName: 'executorRewardBps',
+      }),
     ]);
 
-    return (totalValue * executorRewardBps) / BigInt(10000);
+    return (ethBalance * executorRewardBps) / BigInt(10000);
   } catch (error) {
     logger.error(`Error getting executor reward for will ${willId}:`, error);
     return BigInt(0);
   }
 }
 
+// The contract has no view for trigger conditions (they depend on the
+// activation mode), so simulate the call and treat a revert as "not yet"
+async function canTriggerWill(willId: bigint): Promise<boolean> {
+  try {
+    await publicClient.simulateContract({
+      address: CONTRACT_ADDRESS as `0x${string}`,
+      abi: baseWillAbi,
+      functionName: 'triggerWill',
+      args: [willId],
+      account: account.address,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 async function scanForWills() {
   logger.info('Scanning for triggerable/executable wills...');
 
@@ -252,9 +268,9 @@ async function scanForWills() {
     // Get total will count
     const willCount = await publicClient.readContract({
       address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: BASE_WILL_ABI,
+      abi: baseWillAbi,
       functionName: 'willCounter',
-    }) as bigint;
+    });
 
     logger.info(`Total wills: ${willCount}`);
 
@@ -264,21 +280,16 @@ async function scanForWills() {
     // Check each will (in production, use events or backend API for efficiency)
     for (let i = BigInt(1); i <= willCount; i++) {
       try {
-        const willStatus = await publicClient.readContract({
+        const [willStatus] = await publicClient.readContract({
           address: CONTRACT_ADDRESS as `0x${string}`,
-          abi: BASE_WILL_ABI,
+          abi: baseWillAbi,
           functionName: 'getWillStatus',
           args: [i],
-        }) as number;
+        });
 
-        // Status 1 = ACTIVE, check for triggering
-        if (willStatus === 1) {
-          const canTrigger = await publicClient.readContract({
-            address: CONTRACT_ADDRESS as `0x${string}`,
-            abi: BASE_WILL_ABI,
-            functionName: 'canTriggerWill',
-            args: [i],
-          });
+        // Active wills are checked for triggering
+        if (willStatus === WILL_STATUS_ACTIVE) {
+          const canTrigger = await canTriggerWill(i);
 
           if (canTrigger) {
             const success = await tryTriggerWill(i);
@@ -286,11 +297,11 @@ async function scanForWills() {
           }
         }
 
-        // Status 3 = IN_GRACE_PERIOD, check for execution
-        if (willStatus === 3) {
+        // Triggered wills are checked for execution once the grace period ends
+        if (willStatus === WILL_STATUS_TRIGGERED) {
           const canExecute = await publicClient.readContract({
             address: CONTRACT_ADDRESS as `0x${string}`,
-            abi: BASE_WILL_ABI,
+            abi: baseWillAbi,
             functionName: 'canExecuteWill',
             args: [i],
           });
@@ -0,0 +1,78 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Artifacts } from "hardhat/types";
+
+/**
+ * Shared helpers for generate-abis.ts and check-abis.ts
+ *
+ * The indexer, keeper and frontend each get an identical copy of the
+ * generated module because every package only compiles its own src/.
+ */
+
+// Contract name -> exported constant
+export const ABI_CONTRACTS: Record<string, string> = {
+  BaseWill: "baseWillAbi",
+  NotaryRegistry: "notaryRegistryAbi",
+};
+
+export const ROOT = path.join(__dirname, "..");
+
+// Packages that import the generated module
+export const CONSUMERS = ["backend", "keeper", "frontend"];
+
+export function targetPath(consumer: string): string {
+  return path.join(ROOT, consumer, "src", "generated", "abis.ts");
+}
+
+export async function renderAbiModule(artifacts: Artifacts): Promise<string> {
+  const lines = [
+    "// This file is generated by scripts/generate-abis.ts from the Hardhat artifacts.",
+    "// Do not edit it by hand: run `npm run abis` after changing a contract.",
+    "",
+  ];
+
+  for (const [contractName, exportName] of Object.entries(ABI_CONTRACTS)) {
+    const artifact = await artifacts.readArtifact(contractName);
+    lines.push(`export const ${exportName} = ${JSON.stringify(artifact.abi, null, 2)} as const;`);
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Event and function names each contract exposes, by exported ABI constant
+ */
+export async function abiMemberNames(artifacts: Artifacts): Promise<Map<string, Set<string>>> {
+  const members = new Map<string, Set<string>>();
+
+  for (const [contractName, exportName] of Object.entries(ABI_CONTRACTS)) {
+    const artifact = await artifacts.readArtifact(contractName);
+    const names = new Set<string>();
+    for (const item of artifact.abi) {
+      if ((item.type === "event" || item.type === "function") && item.name) {
+        names.add(item.name);
+      }
+    }
+    members.set(exportName, names);
+  }
+
+  return members;
+}
+
+export function listSourceFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "generated") {
+        files.push(...listSourceFiles(fullPath));
+      }
+    } else if (/\.tsx?$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,112 @@
+import * as path from "path";
+import { ROOT } from "./abis";
+// The backend's copy of shared/api.ts, which can resolve zod and load as CommonJS
+import { Route, routes } from "../backend/src/shared/api";
+
+/**
+ * Shared helpers for generate-api-client.ts and check-api-client.ts
+ *
+ * The frontend's API client has one function per route in shared/api.ts.
+ * Types come from the contract itself, so a change to a response schema
+ * shows up as a type error wherever the frontend relies on the old shape.
+ */
+
+export function clientPath(): string {
+  return path.join(ROOT, "frontend", "src", "generated", "apiClient.ts");
+}
+
+const RUNTIME = `const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Absolute URL for an API path; undefined parameters are left out
+export function apiUrl(path: string, params: Record<string, unknown> = {}): URL {
+  const url = new URL(API_URL + path, window.location.origin);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value instanceof Date ? value.toISOString() : String(value));
+    }
+  }
+  return url;
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface RequestOptions {
+  // Chain to read, the API's default chain when omitted
+  chainId?: number;
+  signal?: AbortSignal;
+}
+
+interface RequestInput extends RequestOptions {
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+async function request<T>(method: string, path: string, { query, body, chainId, signal }: RequestInput): Promise<T> {
+  const url = apiUrl(path, { ...query, chainId });
+
+  // Sends the session cookie for routes that need a signed-in address
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    signal,
+    ...(body !== undefined && {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new ApiError(response.status, data.error ?? response.statusText);
+  }
+  return data as T;
+}
+`;
+
+function renderOperation(operationId: string, route: Route): string {
+  const args: string[] = [];
+  const input: string[] = ["...options"];
+
+  if (route.params) {
+    args.push(`params: ApiParams<'${operationId}'>`);
+  }
+  if (route.body) {
+    args.push(`body: ApiBody<'${operationId}'>`);
+    input.push("body");
+  }
+  if (route.query) {
+    args.push(`query: ApiQuery<'${operationId}'> = {}`);
+    input.push("query");
+  }
+  args.push("options: RequestOptions = {}");
+
+  const urlPath = route.path.replace(/:(\w+)/g, (_, name) => `\${encodeURIComponent(params.${name})}`);
+
+  return [
+    `// ${route.method} /api${route.path} - ${route.summary}`,
+    `export function ${operationId}(${args.join(", ")}): Promise<ApiResponse<'${operationId}'>> {`,
+    `  return request('${route.method}', \`${urlPath}\`, { ${input.join(", ")} });`,
+    "}",
+  ].join("\n");
+}
+
+export function renderApiClient(): string {
+  const operations = Object.entries(routes as Record<string, Route>).map(([operationId, route]) =>
+    renderOperation(operationId, route)
+  );
+
+  return [
+    "// This file is generated by scripts/generate-api-client.ts from shared/api.ts.",
+    "// Do not edit it by hand: run `npm run api-client` after changing the API contract.",
+    "",
+    "import type { ApiBody, ApiParams, ApiQuery, ApiResponse } from '../shared/api';",
+    "",
+    RUNTIME,
+    operations.join("\n\n"),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,93 @@
+import { artifacts } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CONSUMERS,
+  ROOT,
+  abiMemberNames,
+  listSourceFiles,
+  renderAbiModule,
+  targetPath,
+} from "./abis";
+
+/**
+ * Verify the generated ABI modules against the compiled contracts
+ *
+ * Fails when a generated copy is stale, or when consumer code references
+ * (through `functionName` or `eventName`) something the contract it calls
+ * doesn't have. A reference is checked against the generated ABI passed as
+ * `abi` in the same object literal, so it can't pass on another contract's
+ * member of the same name.
+ */
+
+const REFERENCE_PATTERN = /\b(functionName|eventName)\s*:\s*['"](\w+)['"]/g;
+const ABI_PATTERN = /\babi\s*:\s*(\w+)/;
+
+const OPENING = "{([";
+const CLOSING = "})]";
+
+/**
+ * Top level of the object literal around `index`, with nested brackets emptied
+ */
+function enclosingObject(source: string, index: number): string | null {
+  let start = index;
+  for (let depth = 0; start >= 0; start--) {
+    if (CLOSING.includes(source[start])) depth++;
+    else if (OPENING.includes(source[start]) && depth-- === 0) break;
+  }
+  if (start < 0 || source[start] !== "{") return null;
+
+  let text = "";
+  for (let i = start + 1, depth = 0; i < source.length; i++) {
+    if (OPENING.includes(source[i])) depth++;
+    else if (CLOSING.includes(source[i]) && depth-- === 0) return text;
+    else if (depth === 0) text += source[i];
+  }
+  return null;
+}
+
+async function main() {
+  const problems: string[] = [];
+
+  const source = await renderAbiModule(artifacts);
+  for (const consumer of CONSUMERS) {
+    const target = targetPath(consumer);
+    if (!fs.existsSync(target) || fs.readFileSync(target, "utf8") !== source) {
+      problems.push(`${path.relative(ROOT, target)} is out of date, run \`npm run abis\``);
+    }
+  }
+
+  const members = await abiMemberNames(artifacts);
+  for (const consumer of CONSUMERS) {
+    for (const file of listSourceFiles(path.join(ROOT, consumer, "src"))) {
+      const source = fs.readFileSync(file, "utf8");
+      for (const match of source.matchAll(REFERENCE_PATTERN)) {
+        const [, key, name] = match;
+        const kind = key === "eventName" ? "event" : "function";
+        const location = `${path.relative(ROOT, file)}:${source.slice(0, match.index).split("\n").length}`;
+        const abi = ABI_PATTERN.exec(enclosingObject(source, match.index!) ?? "")?.[1];
+
+        // ABIs that aren't generated here (viem's erc20Abi and the like) aren't checked
+        if (!abi) {
+          problems.push(`${location} references ${kind} ${name} without an \`abi\` to check it against`);
+        } else if (members.has(abi) && !members.get(abi)!.has(name)) {
+          problems.push(`${location} references ${kind} ${name}, which ${abi} doesn't have`);
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    process.exit(1);
+  }
+
+  console.log("ABIs are up to date and every reference exists");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,27 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ROOT } from "./abis";
+import { clientPath, renderApiClient } from "./api-client";
+
+/**
+ * Verify the frontend's generated API client against shared/api.ts
+ *
+ * Fails when the client is missing or lists different routes than the contract.
+ */
+async function main() {
+  const target = clientPath();
+
+  if (!fs.existsSync(target) || fs.readFileSync(target, "utf8") !== renderApiClient()) {
+    console.error(`${path.relative(ROOT, target)} is out of date, run \`npm run api-client\``);
+    process.exit(1);
+  }
+
+  console.log("API client is up to date");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
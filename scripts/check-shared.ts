@@ -0,0 +1,38 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ROOT } from "./abis";
+import { SHARED_MODULES, copyPath, renderCopy } from "./shared";
+
+/**
+ * Verify the package copies of the modules in shared/
+ *
+ * Fails when a copy is missing or differs from its original.
+ */
+async function main() {
+  const problems: string[] = [];
+
+  for (const [module, consumers] of Object.entries(SHARED_MODULES)) {
+    const source = renderCopy(module);
+
+    for (const consumer of consumers) {
+      const target = copyPath(consumer, module);
+      if (!fs.existsSync(target) || fs.readFileSync(target, "utf8") !== source) {
+        problems.push(`${path.relative(ROOT, target)} is out of date, run \`npm run shared\``);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    process.exit(1);
+  }
+
+  console.log("Shared modules are up to date");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
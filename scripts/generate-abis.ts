@@ -0,0 +1,28 @@
+import { artifacts } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { CONSUMERS, ROOT, renderAbiModule, targetPath } from "./abis";
+
+/**
+ * Generate typed ABI modules from the compiled contracts
+ *
+ * Writes src/generated/abis.ts into the backend, keeper and frontend.
+ * Run after `npm run compile`.
+ */
+async function main() {
+  const source = await renderAbiModule(artifacts);
+
+  for (const consumer of CONSUMERS) {
+    const target = targetPath(consumer);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, source);
+    console.log(`Wrote ${path.relative(ROOT, target)}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
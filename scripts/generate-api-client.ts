@@ -0,0 +1,24 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ROOT } from "./abis";
+import { clientPath, renderApiClient } from "./api-client";
+
+/**
+ * Generate the frontend's typed API client from shared/api.ts
+ *
+ * Writes frontend/src/generated/apiClient.ts. Run `npm run shared` first so
+ * the frontend's copy of the contract is current.
+ */
+async function main() {
+  const target = clientPath();
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, renderApiClient());
+  console.log(`Wrote ${path.relative(ROOT, target)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,35 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ROOT } from "./abis";
+
+/**
+ * Shared helpers for sync-shared.ts and check-shared.ts
+ *
+ * Hand-written modules used by several packages live in shared/. Like the
+ * generated ABIs, each package gets its own copy under src/shared/ because
+ * every package only compiles its own src/.
+ */
+
+// Module in shared/ -> packages that import it
+export const SHARED_MODULES: Record<string, string[]> = {
+  "rpc.ts": ["backend", "keeper"],
+  "api.ts": ["backend", "frontend"],
+  "vesting.ts": ["backend"],
+};
+
+export function sourcePath(module: string): string {
+  return path.join(ROOT, "shared", module);
+}
+
+export function copyPath(consumer: string, module: string): string {
+  return path.join(ROOT, consumer, "src", "shared", module);
+}
+
+export function renderCopy(module: string): string {
+  return [
+    `// This file is copied from shared/${module} by scripts/sync-shared.ts.`,
+    "// Do not edit it by hand: change the original and run `npm run shared`.",
+    "",
+    fs.readFileSync(sourcePath(module), "utf8"),
+  ].join("\n");
+}
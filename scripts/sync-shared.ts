@@ -0,0 +1,30 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ROOT } from "./abis";
+import { SHARED_MODULES, copyPath, renderCopy } from "./shared";
+
+/**
+ * Copy the modules in shared/ into the packages that use them
+ *
+ * Writes src/shared/<module> into each consumer listed in SHARED_MODULES.
+ * Run after editing a file in shared/.
+ */
+async function main() {
+  for (const [module, consumers] of Object.entries(SHARED_MODULES)) {
+    const source = renderCopy(module);
+
+    for (const consumer of consumers) {
+      const target = copyPath(consumer, module);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, source);
+      console.log(`Wrote ${path.relative(ROOT, target)}`);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { VestingLibHarness } from "../typechain-types";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  VestingSchedule,
+  VestingType,
+  calculateVestedAmount,
+  getClaimableAmount,
+  getNextReleaseTime,
+  getReleaseCount,
+} from "../shared/vesting";
+
+// Differential tests: shared/vesting.ts must agree with VestingLib everywhere
+describe("VestingLib (shared/vesting.ts)", function () {
+  const VESTING_TYPES: VestingType[] = ["IMMEDIATE", "LINEAR", "CLIFF", "MILESTONE"];
+
+  const DAY = 24n * 60n * 60n;
+  const START = 1_700_000_000n;
+  const TOTAL = ethers.parseEther("12.345678901234567891");
+
+  async function deployHarnessFixture() {
+    const Harness = await ethers.getContractFactory("VestingLibHarness");
+    const harness = await Harness.deploy();
+    return { harness };
+  }
+
+  // The Solidity struct for a schedule
+  function onchain(schedule: VestingSchedule) {
+    return {
+      vestingType: VESTING_TYPES.indexOf(schedule.vestingType),
+      startDelay: schedule.startDelay,
+      duration: schedule.duration,
+      cliffDuration: schedule.cliffDuration,
+      releaseInterval: schedule.releaseInterval,
+      milestoneCondition: ethers.ZeroHash,
+    };
+  }
+
+  // Deterministic pseudo-random numbers (xorshift64), so failures reproduce
+  function random(seed: bigint) {
+    const MASK = (1n << 64n) - 1n;
+    let state = seed;
+    return (below: bigint): bigint => {
+      state ^= (state << 13n) & MASK;
+      state ^= state >> 7n;
+      state ^= (state << 17n) & MASK;
+      return state % below;
+    };
+  }
+
+  // Times around every boundary of the schedule, plus a few arbitrary ones
+  function interestingTimes(schedule: VestingSchedule, next: (below: bigint) => bigint): bigint[] {
+    const vestingStart = START + schedule.startDelay;
+    const boundaries = [
+      START,
+      vestingStart,
+      vestingStart + schedule.cliffDuration,
+      vestingStart + schedule.duration,
+      vestingStart + schedule.releaseInterval,
+      vestingStart + schedule.releaseInterval * 3n,
+    ];
+
+    const times = new Set<bigint>();
+    for (const boundary of boundaries) {
+      for (const offset of [-1n, 0n, 1n]) {
+        times.add(boundary + offset);
+      }
+    }
+    for (let i = 0; i < 3; i++) {
+      times.add(START + next(schedule.startDelay + schedule.duration + schedule.cliffDuration + 2n * DAY));
+    }
+    return [...times];
+  }
+
+  async function expectSameResults(
+    harness: VestingLibHarness,
+    schedule: VestingSchedule,
+    totalAmount: bigint,
+    currentTime: bigint,
+    amountClaimed: bigint
+  ) {
+    const struct = onchain(schedule);
+    const context = `${JSON.stringify(schedule, (_, value) => (typeof value === "bigint" ? value.toString() : value))} at ${currentTime}, claimed ${amountClaimed}`;
+
+    expect(
+      calculateVestedAmount(schedule, totalAmount, START, currentTime),
+      `calculateVestedAmount for ${context}`
+    ).to.equal(await harness.calculateVestedAmount(struct, totalAmount, START, currentTime));
+
+    expect(
+      getNextReleaseTime(schedule, START, currentTime, amountClaimed, totalAmount),
+      `getNextReleaseTime for ${context}`
+    ).to.equal(await harness.getNextReleaseTime(struct, START, currentTime, amountClaimed, totalAmount));
+
+    expect(
+      getClaimableAmount(schedule, totalAmount, START, currentTime, amountClaimed),
+      `getClaimableAmount for ${context}`
+    ).to.equal(await harness.getClaimableAmount(struct, totalAmount, START, currentTime, amountClaimed));
+
+    expect(getReleaseCount(schedule), `getReleaseCount for ${context}`).to.equal(
+      await harness.getReleaseCount(struct)
+    );
+  }
+
+  describe("Known schedules", function () {
+    const schedules: Record<string, VestingSchedule> = {
+      immediate: { vestingType: "IMMEDIATE", startDelay: 0n, duration: 0n, cliffDuration: 0n, releaseInterval: 0n },
+      "immediate with a delay": { vestingType: "IMMEDIATE", startDelay: 7n * DAY, duration: 0n, cliffDuration: 0n, releaseInterval: 0n },
+      "continuous linear": { vestingType: "LINEAR", startDelay: 0n, duration: 365n * DAY, cliffDuration: 0n, releaseInterval: 0n },
+      "monthly linear with a cliff": { vestingType: "LINEAR", startDelay: DAY, duration: 360n * DAY, cliffDuration: 90n * DAY, releaseInterval: 30n * DAY },
+      "linear with an uneven interval": { vestingType: "LINEAR", startDelay: 0n, duration: 100n * DAY, cliffDuration: 0n, releaseInterval: 30n * DAY },
+      "linear without a duration": { vestingType: "LINEAR", startDelay: 0n, duration: 0n, cliffDuration: 0n, releaseInterval: 0n },
+      "linear with an interval longer than its duration": { vestingType: "LINEAR", startDelay: 0n, duration: 10n * DAY, cliffDuration: 0n, releaseInterval: 20n * DAY },
+      cliff: { vestingType: "CLIFF", startDelay: 0n, duration: 0n, cliffDuration: 180n * DAY, releaseInterval: 0n },
+      milestone: { vestingType: "MILESTONE", startDelay: 0n, duration: 30n * DAY, cliffDuration: 0n, releaseInterval: 0n },
+    };
+
+    for (const [name, schedule] of Object.entries(schedules)) {
+      it(`Should match for ${name} vesting`, async function () {
+        const { harness } = await loadFixture(deployHarnessFixture);
+        const next = random(BigInt(name.length) * 7919n + 1n);
+        for (const currentTime of interestingTimes(schedule, next)) {
+          for (const amountClaimed of [0n, TOTAL / 3n, TOTAL]) {
+            await expectSameResults(harness, schedule, TOTAL, currentTime, amountClaimed);
+          }
+        }
+      });
+    }
+  });
+
+  describe("Random schedules", function () {
+    it("Should match for 150 random schedules", async function () {
+      const { harness } = await loadFixture(deployHarnessFixture);
+      const next = random(0x9e3779b97f4a7c15n);
+
+      for (let i = 0; i < 150; i++) {
+        const duration = next(4n) === 0n ? 0n : next(730n * DAY);
+        const schedule: VestingSchedule = {
+          vestingType: VESTING_TYPES[Number(next(4n))],
+          startDelay: next(3n) === 0n ? 0n : next(60n * DAY),
+          duration,
+          cliffDuration: next(3n) === 0n ? 0n : next(duration + 30n * DAY),
+          releaseInterval: next(3n) === 0n ? 0n : next(duration + DAY) + 1n,
+        };
+        // Amounts stay far below where the library's multiplications would overflow
+        const totalAmount = next(10n ** 30n);
+        const amountClaimed = next(2n) === 0n ? 0n : next(totalAmount + 1n);
+
+        for (const currentTime of interestingTimes(schedule, next)) {
+          await expectSameResults(harness, schedule, totalAmount, currentTime, amountClaimed);
+        }
+      }
+    });
+  });
+});